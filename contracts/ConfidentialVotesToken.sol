@@ -0,0 +1,125 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE, euint64, externalEuint64} from "@fhevm/solidity/lib/FHE.sol";
+import {SepoliaConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {Ownable} from "@openzeppelin/contracts/access/Ownable.sol";
+
+/// @title ConfidentialVotesToken - fungible token with encrypted balances that can weight polls
+/// @notice Balances and transfer amounts stay encrypted. Every balance change is checkpointed by block so a
+/// poll can weigh each ballot by the voter's balance at its snapshot block without anyone learning it.
+/// @dev Only the tally contract set at deployment may read past balances, and only transiently
+contract ConfidentialVotesToken is SepoliaConfig, Ownable {
+    struct Checkpoint {
+        uint64 blockNumber;
+        euint64 balance;
+    }
+
+    string public constant name = "Confidential Votes";
+    string public constant symbol = "CVOTE";
+
+    /// @notice Contract allowed to compute with past balances (the voting contract)
+    address public immutable tally;
+
+    mapping(address => Checkpoint[]) private _checkpoints;
+
+    event ConfidentialTransfer(address indexed from, address indexed to);
+
+    constructor(address tally_) Ownable(msg.sender) {
+        require(tally_ != address(0), "Tally contract required");
+        tally = tally_;
+    }
+
+    /// @notice Mint an encrypted amount to `to`
+    /// @dev A mint that would overflow the recipient's balance mints nothing
+    /// @param to Recipient of the tokens
+    /// @param encryptedAmount Encrypted amount to mint
+    /// @param inputProof Proof for the encrypted input
+    function mint(address to, externalEuint64 encryptedAmount, bytes calldata inputProof) external onlyOwner {
+        euint64 amount = FHE.fromExternal(encryptedAmount, inputProof);
+        euint64 balance = _latestBalance(to);
+        if (!FHE.isInitialized(balance)) {
+            // First mint to `to`: select takes no unset handles
+            balance = FHE.asEuint64(0);
+        }
+        euint64 increased = FHE.add(balance, amount);
+        _writeBalance(to, FHE.select(FHE.ge(increased, balance), increased, balance));
+
+        emit ConfidentialTransfer(address(0), to);
+    }
+
+    /// @notice Transfer an encrypted amount to `to`
+    /// @dev Transfers more than the sender's balance move nothing, without revealing that they failed
+    /// @param to Recipient of the tokens
+    /// @param encryptedAmount Encrypted amount to transfer
+    /// @param inputProof Proof for the encrypted input
+    function transfer(address to, externalEuint64 encryptedAmount, bytes calldata inputProof) external {
+        require(to != address(0), "Invalid recipient");
+
+        euint64 requested = FHE.fromExternal(encryptedAmount, inputProof);
+        euint64 fromBalance = _latestBalance(msg.sender);
+        euint64 amount = FHE.select(FHE.le(requested, fromBalance), requested, FHE.asEuint64(0));
+
+        _writeBalance(msg.sender, FHE.sub(fromBalance, amount));
+        _writeBalance(to, FHE.add(_latestBalance(to), amount));
+
+        emit ConfidentialTransfer(msg.sender, to);
+    }
+
+    /// @notice Get the current encrypted balance of an account (decryptable by the account only)
+    function confidentialBalanceOf(address account) external view returns (euint64) {
+        return _latestBalance(account);
+    }
+
+    /// @notice Get an account's encrypted balance at the end of a past block for the tally contract
+    /// @dev Grants the caller transient access only, so the handle can be added to a tally but not kept
+    /// @param account Holder whose balance to look up
+    /// @param blockNumber Block to look up; must be in the past
+    /// @return balance Encrypted balance, or an encrypted zero if the account held nothing then
+    function pastBalanceFor(address account, uint256 blockNumber) external returns (euint64 balance) {
+        require(msg.sender == tally, "Only the tally contract");
+        require(blockNumber < block.number, "Block not yet mined");
+
+        balance = _balanceAt(account, blockNumber);
+        if (!FHE.isInitialized(balance)) {
+            balance = FHE.asEuint64(0);
+            FHE.allowThis(balance);
+        }
+        FHE.allowTransient(balance, msg.sender);
+    }
+
+    /// @dev Balance recorded by the last checkpoint at or before `blockNumber` (binary search)
+    function _balanceAt(address account, uint256 blockNumber) private view returns (euint64) {
+        Checkpoint[] storage checkpoints = _checkpoints[account];
+        uint256 low = 0;
+        uint256 high = checkpoints.length;
+        while (low < high) {
+            uint256 mid = (low + high) / 2;
+            if (checkpoints[mid].blockNumber > blockNumber) {
+                high = mid;
+            } else {
+                low = mid + 1;
+            }
+        }
+        return high == 0 ? euint64.wrap(0) : checkpoints[high - 1].balance;
+    }
+
+    function _latestBalance(address account) private view returns (euint64) {
+        Checkpoint[] storage checkpoints = _checkpoints[account];
+        return checkpoints.length == 0 ? euint64.wrap(0) : checkpoints[checkpoints.length - 1].balance;
+    }
+
+    /// @dev Record a new balance, overwriting the checkpoint if the account already changed this block
+    function _writeBalance(address account, euint64 balance) private {
+        FHE.allowThis(balance);
+        FHE.allow(balance, account);
+
+        Checkpoint[] storage checkpoints = _checkpoints[account];
+        uint64 blockNumber = uint64(block.number);
+        if (checkpoints.length > 0 && checkpoints[checkpoints.length - 1].blockNumber == blockNumber) {
+            checkpoints[checkpoints.length - 1].balance = balance;
+        } else {
+            checkpoints.push(Checkpoint(blockNumber, balance));
+        }
+    }
+}
@@ -0,0 +1,59 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {EnumerableSet} from "@openzeppelin/contracts/utils/structs/EnumerableSet.sol";
+
+/// @title DelegationRegistry - lets members hand their vote to a trusted delegate
+/// @notice Delegation is global: it applies to every poll that honours this registry. It is not transitive, so a
+/// delegate only ever carries the weight of members who delegated to them directly.
+/// @dev Polls read delegations when the delegate votes; a delegator who votes directly overrides them
+contract DelegationRegistry {
+    using EnumerableSet for EnumerableSet.AddressSet;
+
+    /// @notice Most delegators one delegate may carry. Each may have to be moved off another delegate's ballot when
+    /// theirs is cast, so together with the option limit of delegated polls this keeps the ballot within the 20M HCU
+    /// a transaction may use.
+    uint256 public constant MAX_DELEGATORS = 4;
+
+    /// @notice Delegate of each member, or address(0) if they vote for themselves
+    mapping(address => address) public delegateOf;
+
+    mapping(address => EnumerableSet.AddressSet) private _delegators;
+
+    event DelegateChanged(address indexed delegator, address indexed fromDelegate, address indexed toDelegate);
+
+    /// @notice Delegate your vote to `to`, replacing any previous delegation
+    /// @param to The delegate who will vote on your behalf
+    function delegate(address to) external {
+        require(to != address(0) && to != msg.sender, "Invalid delegate");
+        require(delegateOf[msg.sender] != to, "Already delegated to this address");
+        require(_delegators[to].length() < MAX_DELEGATORS, "Too many delegators");
+
+        address previous = _clear(msg.sender);
+        delegateOf[msg.sender] = to;
+        _delegators[to].add(msg.sender);
+
+        emit DelegateChanged(msg.sender, previous, to);
+    }
+
+    /// @notice Revoke your delegation and vote for yourself again
+    function undelegate() external {
+        address previous = _clear(msg.sender);
+        require(previous != address(0), "Not delegated");
+
+        emit DelegateChanged(msg.sender, previous, address(0));
+    }
+
+    /// @notice Get every member currently delegating to `account`
+    function delegatorsOf(address account) external view returns (address[] memory) {
+        return _delegators[account].values();
+    }
+
+    function _clear(address delegator) private returns (address previous) {
+        previous = delegateOf[delegator];
+        if (previous != address(0)) {
+            _delegators[previous].remove(delegator);
+            delete delegateOf[delegator];
+        }
+    }
+}
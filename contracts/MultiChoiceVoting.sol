@@ -1,27 +1,126 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
-import {FHE, euint32, externalEuint32, ebool} from "@fhevm/solidity/lib/FHE.sol";
+import {FHE, euint32, euint64, externalEbool, externalEuint8, externalEuint32, externalEuint64, ebool} from "@fhevm/solidity/lib/FHE.sol";
 import {SepoliaConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {ERC2771Context} from "@openzeppelin/contracts/metatx/ERC2771Context.sol";
+import {BallotBox} from "./libraries/BallotBox.sol";
+import {NumericBallot} from "./libraries/NumericBallot.sol";
+import {PollLifecycle} from "./libraries/PollLifecycle.sol";
+import {RankedChoiceBallot} from "./libraries/RankedChoiceBallot.sol";
+import {TallyReveal} from "./libraries/TallyReveal.sol";
+import {VoterEligibility} from "./libraries/VoterEligibility.sol";
+import {VoterInput} from "./libraries/VoterInput.sol";
 
 /// @title MultiChoiceVoting - FHE-based encrypted multi-choice voting system
 /// @notice Allows users to create polls and vote with encrypted choices
-/// @dev Uses FHEVM for encrypted vote counting and decryption oracle for results
-contract MultiChoiceVoting is SepoliaConfig {
+/// @dev Uses FHEVM for encrypted vote counting and decryption oracle for results. Accepts meta-transactions from
+/// its trusted ERC-2771 forwarder, so every sender check uses `_msgSender()`. Encrypted ballots must be created for
+/// the voter even when they are relayed (see `VoterInput`).
+contract MultiChoiceVoting is SepoliaConfig, ERC2771Context {
+    /// @notice Who may request the reveal of a poll's tally, and when
+    enum RevealPolicy {
+        AfterEnd, // anyone, once voting has ended
+        CreatorEarly, // the creator at any time, anyone else once voting has ended
+        AnyoneAfterGrace // the creator once voting has ended, anyone else after the grace period
+    }
+
+    /// @notice How a ballot expresses the voter's choice
+    enum BallotType {
+        SingleChoice, // one encrypted option index
+        RankedChoice, // one encrypted rank per option, tallied by instant runoff
+        Approval, // one encrypted yes/no per option, any subset may be approved
+        Cumulative, // encrypted points per option, limited by a per-voter credit budget
+        Numeric // one encrypted number per voter within a range; only the sum, count, min and max are revealed
+    }
+
+    /// @notice Per-poll options chosen at creation time
+    struct PollSettings {
+        RevealPolicy revealPolicy;
+        uint64 revealGracePeriod; // seconds after endTime (AnyoneAfterGrace only)
+        bool creatorLiveView; // creator may decrypt the running tally before finalization
+        uint32 minVoters; // minimum turnout before any result may be decrypted (0 = no threshold)
+        BallotType ballotType;
+        uint32 creditBudget; // credits per voter (Cumulative only)
+        bool quadraticCost; // n points on one option cost n * n credits (Cumulative only)
+        bool revotable; // voters may replace their ballot until endTime (not for RankedChoice)
+        address votingToken; // ERC20Votes token weighting each ballot, or address(0) for one vote per address
+        uint64 snapshotBlock; // block whose past votes set each voter's weight (0 = the block before creation)
+        bool confidentialToken; // votingToken is a ConfidentialVotesToken whose encrypted balances are the weights
+        address delegationRegistry; // DelegationRegistry whose delegations the poll honours, or address(0) for none
+        bytes32 allowlistRoot; // Merkle root of the addresses allowed to vote, or 0 for an open poll
+        address gatingCollection; // ERC-721 collection whose holders vote once per token, or address(0)
+        bool inviteOnly; // voters need a one-time EIP-712 voucher signed by the creator
+        bool anonymousVoting; // voters register an encrypted secret before start, then vote with it from any address
+        uint64 decryptionTimeout; // seconds before an unanswered reveal may be retried (0 = DEFAULT_DECRYPTION_TIMEOUT)
+        address[] committee; // members who must approve the reveal, or empty for none
+        uint8 committeeThreshold; // approvals needed before the reveal may be requested (committee polls only)
+        bool winnerOnly; // only the index of the leading option is revealed, never the counts
+        uint64 winnerMargin; // winner-only polls: also reveal whether the winner leads every option by this much (0 = no)
+        uint8 passThreshold; // decision polls: percent of Yes among Yes and No votes needed to pass (0 = not a decision)
+        uint16 privacyEpsilon; // differential privacy: epsilon in hundredths for the noise on each count (0 = exact)
+        uint32 minValue; // numeric polls: smallest answer; answers below it count as it
+        uint32 maxValue; // numeric polls: largest answer; answers above it count as it
+    }
+
+    /// @notice A voter's last ballot as added to the tally, kept as their private receipt and for revotes
+    /// @dev On NFT-gated polls it is the sum of the ballots cast for each of the voter's tokens
+    struct Ballot {
+        euint64[] amounts; // encrypted amount added to each option
+        euint32 invalidAmount; // 1 if the ballot was counted as invalid, else 0
+        euint64[] units; // amount per unit of weight for each option (delegation polls only)
+    }
+
+    /// @notice Registered voters of an anonymous poll
+    /// @dev `spent[i]` is the encrypted nullifier of `secrets[i]`: it turns true once a ballot carries that secret,
+    /// so nobody, the contract included, learns which registered voter a ballot came from
+    struct AnonymousVoters {
+        euint64[] secrets; // encrypted secret of each registered voter
+        ebool[] spent; // whether a ballot has already carried the secret at the same index
+        mapping(address => bool) registered;
+    }
+
     struct Poll {
         string title;
         string[] options;
         uint64 startTime;
         uint64 endTime;
+        uint64 maxEndTime; // latest end time an extension may set
         address creator;
+        bool cancelled;
         bool finalized;
         bool decryptionPending;
         uint256 requestId;
-        euint32[] encryptedCounts; // encrypted vote count per option
-        uint32[] decryptedCounts; // revealed counts after finalization
+        uint64 decryptionRequestedAt; // when the pending decryption was requested
+        euint64[] encryptedCounts; // encrypted (weighted) vote count per option
+        uint64[] decryptedCounts; // revealed counts after finalization
+        euint32 encryptedInvalidCount; // encrypted count of out-of-range (blank) ballots
+        uint32 decryptedInvalidCount; // revealed invalid ballot count after finalization
+        uint8 decryptedWinner; // winner-only polls: revealed index of the leading option
+        bool decryptedDecisive; // winner-only polls with a margin: whether the winner leads by at least the margin
+        bool decryptedPassed; // decision polls: whether Yes cleared the pass threshold
+        bool insufficientTurnout; // closed below minVoters without revealing anything
+        uint8 noiseBound; // private polls: largest noise added to any count, set when the noise is added
+        RankedChoiceBallot.Tally ranked; // ranked polls: ballot counts per complete ranking
+        NumericBallot.Tally numeric; // numeric polls: aggregates of the answers
         uint256 totalVoters; // total number of voters (plaintext)
+        uint256 distinctVoters; // addresses that have voted; an NFT holder counts once however many tokens they use
+        euint32 encryptedValidBallots; // anonymous polls with a minimum: ballots that carried a registered secret
+        uint32 decryptedValidBallots; // revealed valid ballot count; below minVoters, nothing else is revealed
+        PollSettings settings;
+        AnonymousVoters anonymousVoters; // anonymous polls only
+        uint8 committeeApprovals; // committee members who have approved the reveal
+        mapping(address => bool) committeeApproved;
+        mapping(address => address) representedBy; // delegator => delegate whose ballot carries their weight
+        mapping(address => address[]) represented; // delegate => delegators their last ballot claimed
     }
 
+    /// @notice Most voters an anonymous poll may register; every anonymous ballot is checked against all of them
+    uint256 public constant MAX_ANONYMOUS_VOTERS = 16;
+
+    /// @notice How long a reveal may wait for the decryption oracle before anyone may retry it, unless the poll sets
+    /// its own timeout
+    uint64 public constant DEFAULT_DECRYPTION_TIMEOUT = 1 days;
     // Storage
     mapping(uint256 => Poll) private _polls;
     uint256 private _pollCount;
@@ -29,6 +128,15 @@ contract MultiChoiceVoting is SepoliaConfig {
     // Track who has voted on which poll (plaintext to prevent double voting)
     mapping(uint256 => mapping(address => bool)) public hasVoted;
     
+    // Each voter's counted ballot (ACL: the contract and that voter only)
+    mapping(uint256 => mapping(address => Ballot)) private _ballots;
+
+    // Tokens of an NFT-gated poll's collection that have voted, so a transferred token cannot vote again
+    mapping(uint256 => mapping(uint256 => bool)) public usedToken;
+
+    // Invite voucher nonces that have admitted a voter, per poll
+    mapping(uint256 => mapping(uint256 => bool)) public usedVoucher;
+
     // Map requestId to pollId for decryption callback
     mapping(uint256 => uint256) private _requestToPoll;
 
@@ -41,89 +149,329 @@ contract MultiChoiceVoting is SepoliaConfig {
         uint64 endTime,
         address indexed creator
     );
+    event PollCancelled(uint256 indexed pollId);
+    event PollExtended(uint256 indexed pollId, uint64 endTime);
+    event PollEdited(uint256 indexed pollId, string title, string[] options);
     event VoteCast(uint256 indexed pollId, address indexed voter);
+    event VoteChanged(uint256 indexed pollId, address indexed voter);
+    event AnonymousVoterRegistered(uint256 indexed pollId, address indexed voter);
+    event AnonymousVoteCast(uint256 indexed pollId);
+    event FinalizationApproved(uint256 indexed pollId, address indexed member, uint8 approvals);
     event FinalizationRequested(uint256 indexed pollId, uint256 requestId);
-    event PollFinalized(uint256 indexed pollId, uint32[] results);
+    event FinalizationRetried(uint256 indexed pollId, uint256 previousRequestId, uint256 requestId);
+    event PollFinalized(uint256 indexed pollId, uint64[] results, uint32 invalidBallots);
+    event PollWinnerRevealed(uint256 indexed pollId, uint8 winner, bool decisive);
+    event PollDecided(uint256 indexed pollId, bool passed, uint256 turnout);
+    event NumericResultsRevealed(uint256 indexed pollId, uint64 sum, uint32 count, uint32 min, uint32 max);
+    event PollClosedInsufficientTurnout(uint256 indexed pollId, uint256 turnout, uint32 minVoters);
+
+    /// @param trustedForwarder ERC-2771 forwarder relaying sponsored votes, or address(0) to accept none
+    constructor(address trustedForwarder) ERC2771Context(trustedForwarder) {}
 
     // Modifiers
     modifier pollExists(uint256 pollId) {
-        require(pollId < _pollCount, "Poll does not exist");
+        _checkPollExists(pollId);
         _;
     }
 
+    // Out of line so the check is not copied into every function using the modifier
+    function _checkPollExists(uint256 pollId) private view {
+        require(pollId < _pollCount, "Poll does not exist");
+    }
+
     /// @notice Create a new poll with multiple options
     /// @param title The title/question of the poll
-    /// @param options Array of option strings (2-16 options)
+    /// @param options Array of option strings (2-16 options, 2-4 for ranked polls)
     /// @param startTime Unix timestamp when voting starts
     /// @param endTime Unix timestamp when voting ends
+    /// @param settings Reveal policy and other per-poll options
     /// @return pollId The ID of the created poll
     function createPoll(
         string memory title,
         string[] memory options,
         uint64 startTime,
-        uint64 endTime
+        uint64 endTime,
+        PollSettings calldata settings
     ) external returns (uint256 pollId) {
-        require(bytes(title).length > 0, "Title cannot be empty");
-        require(options.length >= 2 && options.length <= 16, "Must have 2-16 options");
-        require(endTime > startTime, "End time must be after start time");
-        require(endTime > block.timestamp, "End time must be in the future");
+        PollLifecycle.checkSettings(settings, startTime, endTime);
 
         pollId = _pollCount++;
         Poll storage poll = _polls[pollId];
         
-        poll.title = title;
-        poll.options = options;
         poll.startTime = startTime;
         poll.endTime = endTime;
-        poll.creator = msg.sender;
+        poll.maxEndTime = endTime + PollLifecycle.MAX_EXTENSION;
+        poll.creator = _msgSender();
         poll.finalized = false;
         poll.decryptionPending = false;
         poll.requestId = 0;
         poll.totalVoters = 0;
+        poll.settings = settings;
+        if (settings.votingToken != address(0) && settings.snapshotBlock == 0) {
+            poll.settings.snapshotBlock = uint64(block.number - 1);
+        }
+
+        // Title and options are validated with the ballot type known, and get empty count arrays
+        PollLifecycle.setContent(poll, title, options);
 
-        // Initialize encrypted and decrypted count arrays
-        poll.encryptedCounts = new euint32[](options.length);
-        poll.decryptedCounts = new uint32[](options.length);
+        emit PollCreated(pollId, title, options, startTime, endTime, poll.creator);
+    }
 
-        emit PollCreated(pollId, title, options, startTime, endTime, msg.sender);
+    /// @notice Cancel a poll; it accepts no more ballots and its results are never revealed
+    /// @param pollId The ID of the poll, which the caller must have created
+    function cancelPoll(uint256 pollId) external pollExists(pollId) {
+        PollLifecycle.cancel(_polls[pollId], _msgSender());
+        emit PollCancelled(pollId);
+    }
+
+    /// @notice Give a poll more time before it ends, up to `getMaxEndTime`
+    /// @param pollId The ID of the poll, which the caller must have created
+    /// @param newEndTime Unix timestamp when voting now ends
+    function extendEndTime(uint256 pollId, uint64 newEndTime) external pollExists(pollId) {
+        PollLifecycle.extend(_polls[pollId], _msgSender(), newEndTime);
+        emit PollExtended(pollId, newEndTime);
+    }
+
+    /// @notice Replace a poll's title and options before voting starts
+    /// @param pollId The ID of the poll, which the caller must have created
+    /// @param title The new title
+    /// @param options The new options, within the same limits as at creation
+    function editPoll(
+        uint256 pollId,
+        string calldata title,
+        string[] calldata options
+    ) external pollExists(pollId) {
+        PollLifecycle.edit(_polls[pollId], _msgSender(), title, options);
+        emit PollEdited(pollId, title, options);
     }
 
     /// @notice Cast an encrypted vote for a poll
     /// @param pollId The ID of the poll
     /// @param encryptedOptionIndex Encrypted index of the chosen option
     /// @param inputProof Proof for the encrypted input
+    /// @param eligibilityProof Proof the caller may vote (see `VoterEligibility.check`); empty on open polls
     function vote(
         uint256 pollId,
         externalEuint32 encryptedOptionIndex,
+        bytes calldata inputProof,
+        bytes calldata eligibilityProof
+    ) external pollExists(pollId) {
+        Poll storage poll = _polls[pollId];
+        _checkCanVote(poll, pollId, BallotType.SingleChoice, eligibilityProof);
+
+        BallotBox.castSingleChoice(poll, _ballots[pollId], hasVoted[pollId], _msgSender(), encryptedOptionIndex, inputProof);
+        _recordVoter(poll, pollId);
+    }
+
+    /// @notice Cast an encrypted ranking for a ranked-choice poll
+    /// @dev Every option must be ranked; anything that is not a permutation of 0..n-1 counts as invalid
+    /// @param pollId The ID of the poll
+    /// @param encryptedRanks Encrypted rank of each option (0 = first preference), in option order
+    /// @param inputProof Proof for the encrypted inputs
+    /// @param eligibilityProof Proof the caller may vote (see `VoterEligibility.check`); empty on open polls
+    function voteRanked(
+        uint256 pollId,
+        externalEuint8[] calldata encryptedRanks,
+        bytes calldata inputProof,
+        bytes calldata eligibilityProof
+    ) external pollExists(pollId) {
+        Poll storage poll = _polls[pollId];
+        _checkCanVote(poll, pollId, BallotType.RankedChoice, eligibilityProof);
+
+        BallotBox.castRanked(poll, _ballots[pollId], hasVoted[pollId], _msgSender(), encryptedRanks, inputProof);
+        _recordVoter(poll, pollId);
+    }
+
+    /// @notice Cast an encrypted approval ballot, approving any subset of the options
+    /// @dev Approving nothing is counted as a blank ballot
+    /// @param pollId The ID of the poll
+    /// @param encryptedApprovals Encrypted approval of each option, in option order
+    /// @param inputProof Proof for the encrypted inputs
+    /// @param eligibilityProof Proof the caller may vote (see `VoterEligibility.check`); empty on open polls
+    function voteApproval(
+        uint256 pollId,
+        externalEbool[] calldata encryptedApprovals,
+        bytes calldata inputProof,
+        bytes calldata eligibilityProof
+    ) external pollExists(pollId) {
+        Poll storage poll = _polls[pollId];
+        _checkCanVote(poll, pollId, BallotType.Approval, eligibilityProof);
+
+        BallotBox.castApproval(poll, _ballots[pollId], hasVoted[pollId], _msgSender(), encryptedApprovals, inputProof);
+        _recordVoter(poll, pollId);
+    }
+
+    /// @notice Cast encrypted points on a cumulative poll
+    /// @dev Ballots over the credit budget add nothing and are counted as invalid
+    /// @param pollId The ID of the poll
+    /// @param encryptedPoints Encrypted points given to each option, in option order
+    /// @param inputProof Proof for the encrypted inputs
+    /// @param eligibilityProof Proof the caller may vote (see `VoterEligibility.check`); empty on open polls
+    function voteCumulative(
+        uint256 pollId,
+        externalEuint32[] calldata encryptedPoints,
+        bytes calldata inputProof,
+        bytes calldata eligibilityProof
+    ) external pollExists(pollId) {
+        Poll storage poll = _polls[pollId];
+        _checkCanVote(poll, pollId, BallotType.Cumulative, eligibilityProof);
+
+        BallotBox.castCumulative(poll, _ballots[pollId], hasVoted[pollId], _msgSender(), encryptedPoints, inputProof);
+        _recordVoter(poll, pollId);
+    }
+
+    /// @notice Submit an encrypted number on a numeric poll
+    /// @dev Values outside the poll's range are clamped to it under FHE, without revealing that they were
+    /// @param pollId The ID of the poll
+    /// @param encryptedValue Encrypted answer
+    /// @param inputProof Proof for the encrypted input
+    /// @param eligibilityProof Proof the caller may vote (see `VoterEligibility.check`); empty on open polls
+    function submitValue(
+        uint256 pollId,
+        externalEuint32 encryptedValue,
+        bytes calldata inputProof,
+        bytes calldata eligibilityProof
+    ) external pollExists(pollId) {
+        Poll storage poll = _polls[pollId];
+        _checkCanVote(poll, pollId, BallotType.Numeric, eligibilityProof);
+
+        BallotBox.castNumeric(poll, _ballots[pollId], _msgSender(), encryptedValue, inputProof);
+        _recordVoter(poll, pollId);
+    }
+
+    /// @notice Join an anonymous poll's voters with an encrypted secret, before voting starts
+    /// @dev Gates apply here rather than at voting time; the registration is public, what happens to it is not
+    /// @param pollId The ID of the poll
+    /// @param encryptedSecret Encrypted random secret; keep it, it is the only way to cast this voter's ballot
+    /// @param inputProof Proof for the encrypted input
+    /// @param eligibilityProof Proof the caller may vote (see `VoterEligibility.check`); empty on open polls
+    function registerAnonymous(
+        uint256 pollId,
+        externalEuint64 encryptedSecret,
+        bytes calldata inputProof,
+        bytes calldata eligibilityProof
+    ) external pollExists(pollId) {
+        Poll storage poll = _polls[pollId];
+        address voter = _admitAnonymous(poll, pollId, eligibilityProof);
+
+        euint64 secret = VoterInput.fromExternal(encryptedSecret, inputProof, voter);
+        ebool spent = FHE.asEbool(false);
+        FHE.allowThis(secret);
+        FHE.allowThis(spent);
+        poll.anonymousVoters.secrets.push(secret);
+        poll.anonymousVoters.spent.push(spent);
+
+        emit AnonymousVoterRegistered(pollId, voter);
+    }
+
+    /// @dev Register the sender as one of the poll's anonymous voters, spending the token or voucher that admits
+    /// them on a gated poll
+    function _admitAnonymous(
+        Poll storage poll,
+        uint256 pollId,
+        bytes calldata eligibilityProof
+    ) private returns (address voter) {
+        voter = _msgSender();
+        require(poll.settings.anonymousVoting, "Poll is not anonymous");
+        require(!poll.cancelled, "Poll is cancelled");
+        require(block.timestamp < poll.startTime, "Registration has closed");
+        require(!poll.anonymousVoters.registered[voter], "Already registered");
+        require(poll.anonymousVoters.secrets.length < MAX_ANONYMOUS_VOTERS, "Anonymous voters full");
+        VoterEligibility.check(poll, pollId, voter, false, usedToken[pollId], usedVoucher[pollId], eligibilityProof);
+        poll.anonymousVoters.registered[voter] = true;
+    }
+
+    /// @notice Cast an anonymous ballot; anyone may send it, typically a relayer so the voter's address stays out
+    /// @dev No address is marked as having voted. A ballot whose secret is unknown or already spent adds nothing
+    /// and is counted as invalid, so turnout counts ballots received rather than distinct voters.
+    /// @param pollId The ID of the poll
+    /// @param encryptedOptionIndex Encrypted index of the chosen option
+    /// @param encryptedSecret Encrypted secret the voter registered
+    /// @param inputProof Proof for both encrypted inputs, created for the sending address
+    function voteAnonymous(
+        uint256 pollId,
+        externalEuint32 encryptedOptionIndex,
+        externalEuint64 encryptedSecret,
         bytes calldata inputProof
     ) external pollExists(pollId) {
         Poll storage poll = _polls[pollId];
-        
+        require(poll.settings.anonymousVoting, "Poll is not anonymous");
+        _checkVotingOpen(poll);
+
+        BallotBox.castAnonymous(poll, encryptedOptionIndex, encryptedSecret, inputProof);
+        poll.totalVoters += 1;
+        emit AnonymousVoteCast(pollId);
+    }
+
+    /// @dev Revert unless the sender may still cast a ballot of `ballotType` on the poll, spending the token or
+    /// voucher that admits them on a gated poll
+    function _checkCanVote(
+        Poll storage poll,
+        uint256 pollId,
+        BallotType ballotType,
+        bytes calldata eligibilityProof
+    ) private {
+        address voter = _msgSender();
+        require(poll.settings.ballotType == ballotType, "Wrong ballot type");
+        require(!poll.settings.anonymousVoting, "Poll is anonymous");
+        _checkVotingOpen(poll);
+        VoterEligibility.check(
+            poll,
+            pollId,
+            voter,
+            hasVoted[pollId][voter],
+            usedToken[pollId],
+            usedVoucher[pollId],
+            eligibilityProof
+        );
+        require(
+            !hasVoted[pollId][voter] || poll.settings.revotable || poll.settings.gatingCollection != address(0),
+            "Already voted"
+        );
+    }
+
+    /// @dev Revert unless the poll is accepting ballots right now. An early reveal closes voting once requested:
+    /// the handles being decrypted are fixed, so a later ballot would count towards turnout but not the result.
+    function _checkVotingOpen(Poll storage poll) private view {
+        require(!poll.cancelled, "Poll is cancelled");
         require(block.timestamp >= poll.startTime, "Voting has not started");
         require(block.timestamp <= poll.endTime, "Voting has ended");
         require(!poll.finalized, "Poll is finalized");
-        require(!hasVoted[pollId][msg.sender], "Already voted");
-
-        // Import encrypted vote
-        euint32 voteIndex = FHE.fromExternal(encryptedOptionIndex, inputProof);
-
-        // Update encrypted counts for all options
-        // For each option i, increment count if voteIndex == i
-        for (uint256 i = 0; i < poll.options.length; i++) {
-            ebool isMatch = FHE.eq(voteIndex, FHE.asEuint32(uint32(i)));
-            euint32 increment = FHE.select(isMatch, FHE.asEuint32(1), FHE.asEuint32(0));
-            poll.encryptedCounts[i] = FHE.add(poll.encryptedCounts[i], increment);
-            
-            // Set permissions
-            FHE.allowThis(poll.encryptedCounts[i]);
-            FHE.allow(poll.encryptedCounts[i], msg.sender);
-            FHE.allow(poll.encryptedCounts[i], poll.creator);
-        }
+        require(!poll.decryptionPending, "Decryption already pending");
+    }
 
-        hasVoted[pollId][msg.sender] = true;
+    /// @dev Count the sender as a voter once their ballot is in the tally, or log the change if it replaced one.
+    /// Every token of an NFT-gated poll counts towards turnout, but its holder is one distinct voter.
+    function _recordVoter(Poll storage poll, uint256 pollId) private {
+        address voter = _msgSender();
+        if (!hasVoted[pollId][voter]) {
+            hasVoted[pollId][voter] = true;
+            poll.distinctVoters += 1;
+        } else if (poll.settings.gatingCollection == address(0)) {
+            emit VoteChanged(pollId, voter);
+            return;
+        }
         poll.totalVoters += 1;
+        emit VoteCast(pollId, voter);
+    }
+
+    /// @dev Voters the minVoters threshold counts: distinct addresses, so one holder of several tokens cannot reach
+    /// it alone. Anonymous ballots name no address; only those carrying a registered secret count, which is known
+    /// once revealed (see `TallyReveal`), and until then is at most the number of registered voters.
+    function _turnout(Poll storage poll) private view returns (uint256) {
+        if (!poll.settings.anonymousVoting) {
+            return poll.distinctVoters;
+        }
+        uint256 registered = poll.anonymousVoters.secrets.length;
+        return poll.totalVoters < registered ? poll.totalVoters : registered;
+    }
 
-        emit VoteCast(pollId, msg.sender);
+    /// @notice Approve the reveal of a committee poll as one of its committee members
+    /// @dev `requestFinalization` is refused until `committeeThreshold` members have approved
+    /// @param pollId The ID of the poll to approve
+    function approveFinalization(uint256 pollId) external pollExists(pollId) {
+        uint8 approvals = PollLifecycle.approveReveal(_polls[pollId], _msgSender());
+        emit FinalizationApproved(pollId, _msgSender(), approvals);
     }
 
     /// @notice Request decryption to finalize poll results
@@ -131,59 +479,130 @@ contract MultiChoiceVoting is SepoliaConfig {
     function requestFinalization(uint256 pollId) external pollExists(pollId) {
         Poll storage poll = _polls[pollId];
         
-        // REMOVED: Time restriction - allow decryption anytime for testing
-        // require(block.timestamp > poll.endTime, "Voting has not ended");
+        string memory blocker = _revealBlocker(poll, _msgSender());
+        require(bytes(blocker).length == 0, blocker);
         require(!poll.finalized, "Poll already finalized");
         require(!poll.decryptionPending, "Decryption already pending");
 
-        // Prepare encrypted counts for decryption
-        bytes32[] memory ciphertexts = new bytes32[](poll.encryptedCounts.length);
-        for (uint256 i = 0; i < poll.encryptedCounts.length; i++) {
-            ciphertexts[i] = FHE.toBytes32(poll.encryptedCounts[i]);
+        // Too few voters to reveal anything without exposing individual ballots: close the poll instead
+        uint256 turnout = _turnout(poll);
+        if (turnout < poll.settings.minVoters) {
+            poll.finalized = true;
+            poll.insufficientTurnout = true;
+            emit PollClosedInsufficientTurnout(pollId, turnout, poll.settings.minVoters);
+            return;
         }
 
-        // Request decryption from oracle
-        uint256 requestId = FHE.requestDecryption(ciphertexts, this.decryptionCallback.selector);
+        _requestDecryption(poll, pollId);
+    }
+
+    /// @notice Request the decryption again when the oracle has not answered within the poll's decryption timeout
+    /// @dev Anyone may retry; the previous request ID stops mapping to the poll, so a late answer to it is ignored
+    /// @param pollId The ID of the poll whose decryption is stuck
+    function retryFinalization(uint256 pollId) external pollExists(pollId) {
+        Poll storage poll = _polls[pollId];
+        require(poll.decryptionPending, "No pending decryption");
+        require(block.timestamp > _retryAfter(poll), "Decryption has not timed out");
+
+        uint256 previousRequestId = poll.requestId;
+        delete _requestToPoll[previousRequestId];
+        _requestDecryption(poll, pollId);
+
+        emit FinalizationRetried(pollId, previousRequestId, poll.requestId);
+    }
+
+    /// @dev Ask the oracle to decrypt the poll's tally and mark the decryption pending
+    function _requestDecryption(Poll storage poll, uint256 pollId) private {
+        uint256 requestId = FHE.requestDecryption(TallyReveal.ciphertexts(poll), this.decryptionCallback.selector);
         
         poll.decryptionPending = true;
         poll.requestId = requestId;
+        poll.decryptionRequestedAt = uint64(block.timestamp);
         _requestToPoll[requestId] = pollId;
 
         emit FinalizationRequested(pollId, requestId);
     }
 
+    /// @dev Time after which the pending decryption may be retried
+    function _retryAfter(Poll storage poll) private view returns (uint64) {
+        uint64 timeout = poll.settings.decryptionTimeout;
+        return poll.decryptionRequestedAt + (timeout == 0 ? DEFAULT_DECRYPTION_TIMEOUT : timeout);
+    }
+
+    /// @dev Reason `account` may not reveal the poll yet under its reveal policy and turnout threshold, or "" if it may
+    function _revealBlocker(Poll storage poll, address account) private view returns (string memory) {
+        if (poll.cancelled) {
+            return "Poll is cancelled";
+        }
+        if (poll.committeeApprovals < poll.settings.committeeThreshold) {
+            return "Committee approval required";
+        }
+        if (_turnout(poll) < poll.settings.minVoters && block.timestamp <= poll.endTime) {
+            return "Insufficient turnout";
+        }
+        if (poll.settings.revealPolicy == RevealPolicy.CreatorEarly && account == poll.creator) {
+            return "";
+        }
+        if (block.timestamp <= poll.endTime) {
+            return "Voting has not ended";
+        }
+        if (
+            poll.settings.revealPolicy == RevealPolicy.AnyoneAfterGrace &&
+            account != poll.creator &&
+            block.timestamp <= poll.endTime + poll.settings.revealGracePeriod
+        ) {
+            return "Reveal grace period not over";
+        }
+        return "";
+    }
+
     /// @notice Callback function for decryption oracle
+    /// @dev Only accepts results carrying valid KMS signatures for the stored request handles
     /// @param requestId The decryption request ID
-    /// @param cleartexts The decrypted values
-    /// @param signatures KMS signatures for verification
+    /// @param cleartexts The decrypted values, one 32-byte word per option, the invalid count, then one per ranking;
+    /// on winner-only polls, the winning index and then the margin flag if the poll has a margin; on decision polls,
+    /// the pass flag; on numeric polls, the sum, count, minimum and maximum. Anonymous polls with a minimum turnout
+    /// append the valid ballot count.
+    /// @param decryptionProof KMS signatures and extra data for verification
     function decryptionCallback(
         uint256 requestId,
         bytes memory cleartexts,
-        bytes[] memory signatures
+        bytes memory decryptionProof
     ) public returns (bool) {
         uint256 pollId = _requestToPoll[requestId];
         require(pollId < _pollCount, "Invalid request ID");
 
         Poll storage poll = _polls[pollId];
-        require(poll.decryptionPending && poll.requestId == requestId, "No pending decryption");
-
-        // Verify KMS signatures
-        // Note: Signature verification is skipped in mock mode for local testing
-        // FHE.checkSignatures(requestId, signatures);
-
-        // Decode decrypted results
-        uint32[] memory results = abi.decode(cleartexts, (uint32[]));
-        require(results.length == poll.encryptedCounts.length, "Result length mismatch");
-
-        // Store decrypted counts
-        for (uint256 i = 0; i < results.length; i++) {
-            poll.decryptedCounts[i] = results[i];
+        // A request replaced by retryFinalization is answered late, or twice: ignore it rather than revert
+        if (!poll.decryptionPending || poll.requestId != requestId) {
+            return false;
         }
 
+        // Verify KMS signatures (reverts on forged or mismatched cleartexts)
+        FHE.checkSignatures(requestId, cleartexts, decryptionProof);
+
+        TallyReveal.store(poll, cleartexts);
         poll.finalized = true;
         poll.decryptionPending = false;
 
-        emit PollFinalized(pollId, poll.decryptedCounts);
+        if (poll.insufficientTurnout) {
+            emit PollClosedInsufficientTurnout(pollId, poll.decryptedValidBallots, poll.settings.minVoters);
+        } else if (poll.settings.winnerOnly) {
+            emit PollWinnerRevealed(pollId, poll.decryptedWinner, poll.decryptedDecisive);
+        } else if (poll.settings.passThreshold > 0) {
+            emit PollDecided(pollId, poll.decryptedPassed, poll.totalVoters);
+        } else if (poll.settings.ballotType == BallotType.Numeric) {
+            NumericBallot.Tally storage numeric = poll.numeric;
+            emit NumericResultsRevealed(
+                pollId,
+                numeric.decryptedSum,
+                numeric.decryptedCount,
+                numeric.decryptedMin,
+                numeric.decryptedMax
+            );
+        } else {
+            emit PollFinalized(pollId, poll.decryptedCounts, poll.decryptedInvalidCount);
+        }
         return true;
     }
 
@@ -243,15 +662,93 @@ contract MultiChoiceVoting is SepoliaConfig {
         external
         view
         pollExists(pollId)
-        returns (euint32)
+        returns (euint64)
     {
         Poll storage poll = _polls[pollId];
         require(optionIndex < poll.encryptedCounts.length, "Invalid option index");
         return poll.encryptedCounts[optionIndex];
     }
 
+    /// @notice Get the encrypted count of invalid (out-of-range) ballots
+    function getEncryptedInvalidCount(uint256 pollId)
+        external
+        view
+        pollExists(pollId)
+        returns (euint32)
+    {
+        return _polls[pollId].encryptedInvalidCount;
+    }
+
     /// @notice Get final decrypted results (only after finalization)
+    /// @return counts Votes per option
+    /// @return invalidBallots Ballots whose encrypted index matched no option
     function getResults(uint256 pollId)
+        external
+        view
+        pollExists(pollId)
+        returns (uint64[] memory counts, uint32 invalidBallots)
+    {
+        Poll storage poll = _polls[pollId];
+        require(poll.finalized, "Poll not finalized");
+        require(!poll.insufficientTurnout, "Insufficient turnout");
+        require(!poll.settings.winnerOnly, "Poll reveals only the winner");
+        require(poll.settings.passThreshold == 0, "Poll reveals only pass/fail");
+        require(poll.settings.ballotType != BallotType.Numeric, "Poll reveals only aggregates");
+        return (poll.decryptedCounts, poll.decryptedInvalidCount);
+    }
+
+    /// @notice Get the aggregates of a numeric poll's answers (only after finalization)
+    /// @dev The mean is `sum / count`; every answer is counted as clamped to the poll's range. With no answers,
+    /// every aggregate is 0.
+    function getNumericResults(uint256 pollId)
+        external
+        view
+        pollExists(pollId)
+        returns (uint64 sum, uint32 count, uint32 min, uint32 max)
+    {
+        Poll storage poll = _polls[pollId];
+        require(poll.finalized, "Poll not finalized");
+        require(!poll.insufficientTurnout, "Insufficient turnout");
+        require(poll.settings.ballotType == BallotType.Numeric, "Poll is not numeric");
+        NumericBallot.Tally storage numeric = poll.numeric;
+        return (numeric.decryptedSum, numeric.decryptedCount, numeric.decryptedMin, numeric.decryptedMax);
+    }
+
+    /// @notice Get the outcome of a decision poll (only after finalization)
+    /// @return passed Whether Yes reached `passThreshold` percent of the Yes and No votes (abstentions left out)
+    /// @return turnout Ballots cast, abstentions and invalid ballots included
+    function getDecision(uint256 pollId)
+        external
+        view
+        pollExists(pollId)
+        returns (bool passed, uint256 turnout)
+    {
+        Poll storage poll = _polls[pollId];
+        require(poll.finalized, "Poll not finalized");
+        require(!poll.insufficientTurnout, "Insufficient turnout");
+        require(poll.settings.passThreshold > 0, "Poll is not a decision");
+        return (poll.decryptedPassed, poll.totalVoters);
+    }
+
+    /// @notice Get the winning option of a winner-only poll (only after finalization)
+    /// @return winner Index of the option with the most votes, the lowest such index on a tie
+    /// @return decisive Whether the winner leads every other option by at least `winnerMargin` (false if no margin)
+    function getWinner(uint256 pollId)
+        external
+        view
+        pollExists(pollId)
+        returns (uint8 winner, bool decisive)
+    {
+        Poll storage poll = _polls[pollId];
+        require(poll.finalized, "Poll not finalized");
+        require(!poll.insufficientTurnout, "Insufficient turnout");
+        require(poll.settings.winnerOnly, "Poll reveals all counts");
+        return (poll.decryptedWinner, poll.decryptedDecisive);
+    }
+
+    /// @notice Get final ballot counts per complete ranking of a ranked-choice poll (only after finalization)
+    /// @dev Index k is the k-th permutation of option indices in lexicographic order, most preferred first
+    function getRankingResults(uint256 pollId)
         external
         view
         pollExists(pollId)
@@ -259,7 +756,71 @@ contract MultiChoiceVoting is SepoliaConfig {
     {
         Poll storage poll = _polls[pollId];
         require(poll.finalized, "Poll not finalized");
-        return poll.decryptedCounts;
+        require(!poll.insufficientTurnout, "Insufficient turnout");
+        require(poll.settings.ballotType == BallotType.RankedChoice, "Poll is not ranked");
+        return poll.ranked.decryptedRankingCounts;
+    }
+
+    /// @notice Check whether a poll was closed below its minimum turnout without revealing results
+    function isInsufficientTurnout(uint256 pollId)
+        external
+        view
+        pollExists(pollId)
+        returns (bool)
+    {
+        return _polls[pollId].insufficientTurnout;
+    }
+
+    /// @notice Get the largest noise a differentially private poll's revealed counts may carry
+    /// @dev Each count is off by at most this much either way before being floored at zero; 0 until the reveal is
+    /// requested, and always 0 for polls without `privacyEpsilon`
+    function getNoiseBound(uint256 pollId)
+        external
+        view
+        pollExists(pollId)
+        returns (uint8)
+    {
+        return _polls[pollId].noiseBound;
+    }
+
+    /// @notice Check whether a poll was cancelled by its creator
+    function isCancelled(uint256 pollId)
+        external
+        view
+        pollExists(pollId)
+        returns (bool)
+    {
+        return _polls[pollId].cancelled;
+    }
+
+    /// @notice Get the latest end time the creator may extend a poll to
+    function getMaxEndTime(uint256 pollId)
+        external
+        view
+        pollExists(pollId)
+        returns (uint64)
+    {
+        return _polls[pollId].maxEndTime;
+    }
+
+    /// @notice Get how many committee members have approved the reveal of a poll
+    function getFinalizationApprovals(uint256 pollId)
+        external
+        view
+        pollExists(pollId)
+        returns (uint8)
+    {
+        return _polls[pollId].committeeApprovals;
+    }
+
+    /// @notice Check whether a committee member has approved the reveal of a poll
+    function hasApprovedFinalization(uint256 pollId, address member)
+        external
+        view
+        pollExists(pollId)
+        returns (bool)
+    {
+        return _polls[pollId].committeeApproved[member];
     }
 
     /// @notice Check if an address has voted on a specific poll
@@ -272,6 +833,41 @@ contract MultiChoiceVoting is SepoliaConfig {
         return hasVoted[pollId][user];
     }
 
+    /// @notice Get the caller's counted ballot, decryptable by the caller only
+    /// @dev Ranked polls record the first preference only
+    /// @return amounts Encrypted amount added to each option (1/0 per option, or points on cumulative polls)
+    /// @return invalidAmount Encrypted 1 if the ballot was counted as invalid / blank, else 0
+    function getMyBallot(uint256 pollId)
+        external
+        view
+        pollExists(pollId)
+        returns (euint64[] memory amounts, euint32 invalidAmount)
+    {
+        require(hasVoted[pollId][_msgSender()], "No ballot");
+        Ballot storage ballot = _ballots[pollId][_msgSender()];
+        return (ballot.amounts, ballot.invalidAmount);
+    }
+
+    /// @notice Get how many voters have registered for an anonymous poll
+    function getAnonymousVoterCount(uint256 pollId)
+        external
+        view
+        pollExists(pollId)
+        returns (uint256)
+    {
+        return _polls[pollId].anonymousVoters.secrets.length;
+    }
+
+    /// @notice Check if an address has registered for an anonymous poll
+    function isAnonymousVoter(uint256 pollId, address user)
+        external
+        view
+        pollExists(pollId)
+        returns (bool)
+    {
+        return _polls[pollId].anonymousVoters.registered[user];
+    }
+
     /// @notice Get the total number of voters for a poll
     function getTotalVoters(uint256 pollId)
         external
@@ -282,6 +878,52 @@ contract MultiChoiceVoting is SepoliaConfig {
         return _polls[pollId].totalVoters;
     }
 
+    /// @notice Get the turnout a poll's `minVoters` threshold is checked against
+    function getTurnout(uint256 pollId)
+        external
+        view
+        pollExists(pollId)
+        returns (uint256)
+    {
+        return _turnout(_polls[pollId]);
+    }
+
+    /// @notice Get the settings a poll was created with
+    function getPollSettings(uint256 pollId)
+        external
+        view
+        pollExists(pollId)
+        returns (PollSettings memory)
+    {
+        return _polls[pollId].settings;
+    }
+
+    /// @notice Check whether an account may request finalization of a poll right now
+    function canFinalize(uint256 pollId, address account)
+        external
+        view
+        pollExists(pollId)
+        returns (bool)
+    {
+        Poll storage poll = _polls[pollId];
+        return !poll.finalized && !poll.decryptionPending && bytes(_revealBlocker(poll, account)).length == 0;
+    }
+
+    /// @notice Get when a poll's pending decryption was requested and after which time it may be retried
+    /// @return requestedAt Unix timestamp of the latest request, or 0 if none is pending
+    /// @return retryAfter Unix timestamp after which `retryFinalization` is allowed, or 0 if none is pending
+    function getDecryptionStatus(uint256 pollId)
+        external
+        view
+        pollExists(pollId)
+        returns (uint64 requestedAt, uint64 retryAfter)
+    {
+        Poll storage poll = _polls[pollId];
+        if (poll.decryptionPending) {
+            return (poll.decryptionRequestedAt, _retryAfter(poll));
+        }
+    }
+
     /// @notice Get the request ID for a poll (for manual finalization in mock mode)
     function getRequestId(uint256 pollId)
         external
@@ -0,0 +1,11 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {ERC2771Forwarder} from "@openzeppelin/contracts/metatx/ERC2771Forwarder.sol";
+
+/// @title VoteForwarder - trusted ERC-2771 forwarder for gasless (sponsored) votes
+/// @notice A relayer submits a voter's signed ForwardRequest and pays its gas; the voting contract then treats
+/// the signer as the sender. Requests are signed under the EIP-712 domain "VoteForwarder", version "1".
+contract VoteForwarder is ERC2771Forwarder {
+    constructor() ERC2771Forwarder("VoteForwarder") {}
+}
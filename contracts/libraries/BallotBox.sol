@@ -0,0 +1,369 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE, euint32, euint64, externalEbool, externalEuint8, externalEuint32, externalEuint64, ebool} from "@fhevm/solidity/lib/FHE.sol";
+import {IVotes} from "@openzeppelin/contracts/governance/utils/IVotes.sol";
+import {IERC20Metadata} from "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
+import {SafeCast} from "@openzeppelin/contracts/utils/math/SafeCast.sol";
+import {MultiChoiceVoting} from "../MultiChoiceVoting.sol";
+import {ConfidentialVotesToken} from "../ConfidentialVotesToken.sol";
+import {DelegationRegistry} from "../DelegationRegistry.sol";
+import {EncryptedTally} from "./EncryptedTally.sol";
+import {CumulativeBallot} from "./CumulativeBallot.sol";
+import {NumericBallot} from "./NumericBallot.sol";
+import {RankedChoiceBallot} from "./RankedChoiceBallot.sol";
+import {VoterInput} from "./VoterInput.sol";
+
+/// @title BallotBox - turns a voter's encrypted choice into weighted per-option amounts and tallies them
+/// @notice Every ballot type ends up as one encrypted amount per unit of weight per option plus an invalid flag.
+/// Scaled by the voter's weight (their own plus that of delegators who have not voted), the amounts are added to
+/// the poll's counters and kept as the voter's receipt, replacing their previous ballot if any.
+/// @dev Deployed as a linked library; runs via DELEGATECALL so ACL grants and msg.sender are the calling contract's
+library BallotBox {
+    /// @notice Tally a single-choice ballot: the chosen option gets the voter's weight
+    /// @dev Indexes matching no option are counted as invalid so the tally still adds up to turnout
+    /// @param ballots The poll's ballots by voter
+    /// @param voted Whether each address has voted on the poll
+    /// @param voter Address casting the ballot (the contract's `_msgSender()`, which differs from msg.sender when
+    /// the vote is relayed through its trusted forwarder); encrypted inputs must have been created for it
+    function castSingleChoice(
+        MultiChoiceVoting.Poll storage poll,
+        mapping(address => MultiChoiceVoting.Ballot) storage ballots,
+        mapping(address => bool) storage voted,
+        address voter,
+        externalEuint32 encryptedOptionIndex,
+        bytes calldata inputProof
+    ) public {
+        euint32 voteIndex = VoterInput.fromExternal(encryptedOptionIndex, inputProof, voter);
+        ebool isValid = FHE.lt(voteIndex, uint32(poll.options.length));
+        _record(poll, ballots, voted, voter, _choiceUnits(voteIndex, poll.options.length), FHE.not(isValid));
+    }
+
+    /// @notice Tally an anonymous single-choice ballot if its secret belongs to a registered voter who has not
+    /// voted yet, without learning which one
+    /// @dev The secret is compared with every registered secret under FHE and spends each one it matches. Ballots
+    /// with an unknown or spent secret add nothing and are counted as invalid. No receipt is kept: it would have to
+    /// be tied to an address.
+    function castAnonymous(
+        MultiChoiceVoting.Poll storage poll,
+        externalEuint32 encryptedOptionIndex,
+        externalEuint64 encryptedSecret,
+        bytes calldata inputProof
+    ) public {
+        euint32 voteIndex = FHE.fromExternal(encryptedOptionIndex, inputProof);
+        ebool eligible = _spendSecret(poll.anonymousVoters, FHE.fromExternal(encryptedSecret, inputProof));
+        ebool isValid = FHE.and(eligible, FHE.lt(voteIndex, uint32(poll.options.length)));
+
+        address liveViewer = _liveViewer(poll);
+        euint64[] memory units = _choiceUnits(voteIndex, poll.options.length);
+        euint64 zero = FHE.asEuint64(0);
+        for (uint256 i = 0; i < units.length; i++) {
+            euint64 amount = FHE.select(isValid, units[i], zero);
+            poll.encryptedCounts[i] = EncryptedTally.add(poll.encryptedCounts[i], amount, liveViewer);
+        }
+        poll.encryptedInvalidCount = EncryptedTally.increment(poll.encryptedInvalidCount, FHE.not(isValid), liveViewer);
+    }
+
+    /// @dev Encrypted 1 for the option at `voteIndex` and 0 for every other option
+    function _choiceUnits(euint32 voteIndex, uint256 optionCount) private returns (euint64[] memory units) {
+        euint64 one = FHE.asEuint64(1);
+        euint64 zero = FHE.asEuint64(0);
+        units = new euint64[](optionCount);
+        for (uint256 i = 0; i < optionCount; i++) {
+            units[i] = FHE.select(FHE.eq(voteIndex, FHE.asEuint32(uint32(i))), one, zero);
+        }
+    }
+
+    /// @dev Encrypted true if `secret` matches a registered secret that no ballot has carried yet. Every match is
+    /// marked spent either way, so the same secret can never count twice.
+    function _spendSecret(
+        MultiChoiceVoting.AnonymousVoters storage voters,
+        euint64 secret
+    ) private returns (ebool fresh) {
+        fresh = FHE.asEbool(false);
+        for (uint256 i = 0; i < voters.secrets.length; i++) {
+            ebool matches = FHE.eq(secret, voters.secrets[i]);
+            fresh = FHE.or(fresh, FHE.and(matches, FHE.not(voters.spent[i])));
+
+            ebool spent = FHE.or(voters.spent[i], matches);
+            FHE.allowThis(spent);
+            voters.spent[i] = spent;
+        }
+    }
+
+    /// @notice Tally an approval ballot: every approved option gets the voter's weight
+    /// @dev Approving nothing is counted as a blank ballot
+    function castApproval(
+        MultiChoiceVoting.Poll storage poll,
+        mapping(address => MultiChoiceVoting.Ballot) storage ballots,
+        mapping(address => bool) storage voted,
+        address voter,
+        externalEbool[] calldata encryptedApprovals,
+        bytes calldata inputProof
+    ) public {
+        require(encryptedApprovals.length == poll.options.length, "One approval per option required");
+
+        euint64 one = FHE.asEuint64(1);
+        euint64 zero = FHE.asEuint64(0);
+        euint64[] memory units = new euint64[](encryptedApprovals.length);
+        ebool approvedAny = FHE.asEbool(false);
+        for (uint256 i = 0; i < units.length; i++) {
+            ebool approved = VoterInput.fromExternal(encryptedApprovals[i], inputProof, voter);
+            units[i] = FHE.select(approved, one, zero);
+            approvedAny = FHE.or(approvedAny, approved);
+        }
+        _record(poll, ballots, voted, voter, units, FHE.not(approvedAny));
+    }
+
+    /// @notice Tally a ranking against the poll's per-ranking counts, and its first preference like any other ballot
+    /// @dev Ranked polls are never weighted or delegated; anything but a permutation of 0..n-1 counts as invalid
+    function castRanked(
+        MultiChoiceVoting.Poll storage poll,
+        mapping(address => MultiChoiceVoting.Ballot) storage ballots,
+        mapping(address => bool) storage voted,
+        address voter,
+        externalEuint8[] calldata encryptedRanks,
+        bytes calldata inputProof
+    ) public {
+        address liveViewer = _liveViewer(poll);
+        (ebool[] memory isFirstChoice, ebool isValid) = RankedChoiceBallot.tally(
+            poll.ranked,
+            encryptedRanks,
+            inputProof,
+            voter,
+            liveViewer
+        );
+
+        euint64 one = FHE.asEuint64(1);
+        euint64 zero = FHE.asEuint64(0);
+        euint64[] memory units = new euint64[](isFirstChoice.length);
+        for (uint256 i = 0; i < units.length; i++) {
+            units[i] = FHE.select(isFirstChoice[i], one, zero);
+        }
+        _record(poll, ballots, voted, voter, units, FHE.not(isValid));
+    }
+
+    /// @notice Tally a cumulative ballot: each option gets its points times the voter's weight
+    /// @dev Ballots over the credit budget add nothing and are counted as invalid
+    function castCumulative(
+        MultiChoiceVoting.Poll storage poll,
+        mapping(address => MultiChoiceVoting.Ballot) storage ballots,
+        mapping(address => bool) storage voted,
+        address voter,
+        externalEuint32[] calldata encryptedPoints,
+        bytes calldata inputProof
+    ) public {
+        require(encryptedPoints.length == poll.options.length, "Points for every option required");
+
+        (euint64[] memory units, ebool isValid) = _allocatePoints(poll.settings, voter, encryptedPoints, inputProof);
+        _record(poll, ballots, voted, voter, units, FHE.not(isValid));
+    }
+
+    /// @dev Points per option within the poll's credit budget, widened to euint64
+    function _allocatePoints(
+        MultiChoiceVoting.PollSettings storage settings,
+        address voter,
+        externalEuint32[] calldata encryptedPoints,
+        bytes calldata inputProof
+    ) private returns (euint64[] memory units, ebool isValid) {
+        euint32[] memory points = new euint32[](encryptedPoints.length);
+        for (uint256 i = 0; i < points.length; i++) {
+            points[i] = VoterInput.fromExternal(encryptedPoints[i], inputProof, voter);
+        }
+        (points, isValid) = CumulativeBallot.allocate(points, settings.creditBudget, settings.quadraticCost);
+
+        units = new euint64[](points.length);
+        for (uint256 i = 0; i < units.length; i++) {
+            units[i] = FHE.asEuint64(points[i]);
+        }
+    }
+
+    /// @notice Add a numeric answer, clamped to the poll's range, to the poll's aggregates
+    /// @dev Numeric polls are unweighted and cannot be revoted. The receipt is the answer as counted, in the place
+    /// of the first option's amount; no answer is ever invalid.
+    function castNumeric(
+        MultiChoiceVoting.Poll storage poll,
+        mapping(address => MultiChoiceVoting.Ballot) storage ballots,
+        address voter,
+        externalEuint32 encryptedValue,
+        bytes calldata inputProof
+    ) public {
+        euint32 value = NumericBallot.add(
+            poll.numeric,
+            VoterInput.fromExternal(encryptedValue, inputProof, voter),
+            poll.settings.minValue,
+            poll.settings.maxValue
+        );
+
+        MultiChoiceVoting.Ballot storage ballot = ballots[voter];
+        euint64 amount = FHE.asEuint64(value);
+        ballot.amounts.push(amount);
+        ballot.invalidAmount = FHE.asEuint32(0);
+        FHE.allowThis(amount);
+        FHE.allow(amount, voter);
+        FHE.allowThis(ballot.invalidAmount);
+        FHE.allow(ballot.invalidAmount, voter);
+    }
+
+    /// @dev Add `voter`'s weighted ballot to the tally, taking their previous one out first, and store it as
+    /// their receipt. Voting directly also takes their share back out of any delegate's ballot that carried it.
+    function _record(
+        MultiChoiceVoting.Poll storage poll,
+        mapping(address => MultiChoiceVoting.Ballot) storage ballots,
+        mapping(address => bool) storage voted,
+        address voter,
+        euint64[] memory units,
+        ebool isInvalid
+    ) private {
+        address liveViewer = _liveViewer(poll);
+        _release(poll, ballots, voter, liveViewer);
+
+        euint64[] memory amounts = units;
+        if (poll.settings.confidentialToken) {
+            // Never revealed, so a voter without balance casts a ballot that adds nothing
+            euint64 balance = ConfidentialVotesToken(poll.settings.votingToken).pastBalanceFor(
+                voter,
+                poll.settings.snapshotBlock
+            );
+            amounts = new euint64[](units.length);
+            for (uint256 i = 0; i < units.length; i++) {
+                amounts[i] = FHE.mul(units[i], balance);
+            }
+        } else {
+            uint64 weight = _weight(poll, voter);
+            require(weight > 0, "No voting power at snapshot");
+            weight += _claimDelegators(poll, ballots, voted, voter, liveViewer);
+            if (weight != 1) {
+                amounts = new euint64[](units.length);
+                for (uint256 i = 0; i < units.length; i++) {
+                    amounts[i] = FHE.mul(units[i], weight);
+                }
+            }
+        }
+
+        // An NFT holder's ballots, one per token, add up instead of replacing each other
+        bool adding = voted[voter] && poll.settings.gatingCollection != address(0);
+        bool replacing = voted[voter] && !adding;
+        MultiChoiceVoting.Ballot storage ballot = ballots[voter];
+        euint32 invalidAmount = EncryptedTally.oneIf(isInvalid);
+
+        for (uint256 i = 0; i < amounts.length; i++) {
+            euint64 count = poll.encryptedCounts[i];
+            if (replacing) {
+                count = FHE.sub(count, ballot.amounts[i]);
+            }
+            poll.encryptedCounts[i] = EncryptedTally.add(count, amounts[i], liveViewer);
+        }
+        euint32 invalidCount = poll.encryptedInvalidCount;
+        if (replacing) {
+            invalidCount = FHE.sub(invalidCount, ballot.invalidAmount);
+        }
+        poll.encryptedInvalidCount = EncryptedTally.add(invalidCount, invalidAmount, liveViewer);
+
+        if (adding) {
+            euint64[] memory totals = new euint64[](amounts.length);
+            for (uint256 i = 0; i < amounts.length; i++) {
+                totals[i] = FHE.add(ballot.amounts[i], amounts[i]);
+            }
+            amounts = totals;
+            invalidAmount = FHE.add(ballot.invalidAmount, invalidAmount);
+        }
+
+        // Keep the ballot as the voter's receipt; a later revote takes it back out of the tally
+        ballot.amounts = amounts;
+        ballot.invalidAmount = invalidAmount;
+        for (uint256 i = 0; i < amounts.length; i++) {
+            FHE.allowThis(amounts[i]);
+            FHE.allow(amounts[i], voter);
+        }
+        FHE.allowThis(invalidAmount);
+        FHE.allow(invalidAmount, voter);
+
+        // Delegators' shares are units times their weight, so keep the units to take a share back out later
+        if (poll.settings.delegationRegistry != address(0)) {
+            ballot.units = units;
+            for (uint256 i = 0; i < units.length; i++) {
+                FHE.allowThis(units[i]);
+            }
+        }
+    }
+
+    /// @dev Address allowed to decrypt the poll's running tally, or address(0) if nobody is
+    function _liveViewer(MultiChoiceVoting.Poll storage poll) private view returns (address) {
+        return poll.settings.creatorLiveView ? poll.creator : address(0);
+    }
+
+    /// @dev Weight of `account` at the poll's snapshot: whole tokens delegated to them, or 1 on an unweighted poll
+    function _weight(MultiChoiceVoting.Poll storage poll, address account) private view returns (uint64) {
+        address token = poll.settings.votingToken;
+        if (token == address(0)) {
+            return 1;
+        }
+
+        uint256 votes = IVotes(token).getPastVotes(account, poll.settings.snapshotBlock);
+        return SafeCast.toUint64(votes / 10 ** IERC20Metadata(token).decimals());
+    }
+
+    /// @dev Make `voter`'s ballot carry every delegator who has not voted themselves, moving them off any
+    /// other delegate's ballot, and return their combined weight
+    function _claimDelegators(
+        MultiChoiceVoting.Poll storage poll,
+        mapping(address => MultiChoiceVoting.Ballot) storage ballots,
+        mapping(address => bool) storage voted,
+        address voter,
+        address liveViewer
+    ) private returns (uint64 delegatedWeight) {
+        address registry = poll.settings.delegationRegistry;
+        if (registry == address(0)) {
+            return 0;
+        }
+
+        // A revote recounts from the current delegations; the old ballot's shares leave the tally with it
+        address[] storage carried = poll.represented[voter];
+        for (uint256 i = 0; i < carried.length; i++) {
+            if (poll.representedBy[carried[i]] == voter) {
+                delete poll.representedBy[carried[i]];
+            }
+        }
+        delete poll.represented[voter];
+
+        address[] memory delegators = DelegationRegistry(registry).delegatorsOf(voter);
+        for (uint256 i = 0; i < delegators.length; i++) {
+            address delegator = delegators[i];
+            uint64 weight = _weight(poll, delegator);
+            if (voted[delegator] || weight == 0) {
+                continue;
+            }
+
+            _release(poll, ballots, delegator, liveViewer);
+            poll.representedBy[delegator] = voter;
+            carried.push(delegator);
+            delegatedWeight += weight;
+        }
+    }
+
+    /// @dev Take `delegator`'s share back out of the ballot of the delegate currently carrying it, if any
+    function _release(
+        MultiChoiceVoting.Poll storage poll,
+        mapping(address => MultiChoiceVoting.Ballot) storage ballots,
+        address delegator,
+        address liveViewer
+    ) private {
+        address delegate = poll.representedBy[delegator];
+        if (delegate == address(0)) {
+            return;
+        }
+        delete poll.representedBy[delegator];
+
+        uint64 weight = _weight(poll, delegator);
+        MultiChoiceVoting.Ballot storage carrier = ballots[delegate];
+        for (uint256 i = 0; i < carrier.units.length; i++) {
+            euint64 share = FHE.mul(carrier.units[i], weight);
+            euint64 amount = FHE.sub(carrier.amounts[i], share);
+            FHE.allowThis(amount);
+            FHE.allow(amount, delegate);
+            carrier.amounts[i] = amount;
+            poll.encryptedCounts[i] = EncryptedTally.sub(poll.encryptedCounts[i], share, liveViewer);
+        }
+    }
+}
@@ -0,0 +1,46 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE, euint32, ebool} from "@fhevm/solidity/lib/FHE.sol";
+
+/// @title CumulativeBallot - budget checks for encrypted point allocations
+/// @notice A ballot spreads points across options. Its cost is the sum of the points, or the sum of
+/// their squares under quadratic cost, and must not exceed the poll's credit budget.
+/// @dev Deployed as a linked library; runs via DELEGATECALL so ACL grants apply to the calling contract
+library CumulativeBallot {
+    /// @notice Zero a point allocation unless it fits the budget
+    /// @param points Points given to each option, in option order, as imported from the voter's encrypted input
+    /// @param budget Credits available to each voter
+    /// @param quadraticCost Whether giving an option n points costs n * n credits
+    /// @return allowed Points to add per option (all zero for an over-budget ballot)
+    /// @return isValid Whether the allocation fits the budget
+    function allocate(
+        euint32[] memory points,
+        uint32 budget,
+        bool quadraticCost
+    ) public returns (euint32[] memory allowed, ebool isValid) {
+        // Capping each option first keeps the cost sum from wrapping around for any budget the poll accepts
+        uint32 perOptionCap = quadraticCost ? _sqrt(budget) : budget;
+
+        euint32 cost = FHE.asEuint32(0);
+        isValid = FHE.asEbool(true);
+        for (uint256 i = 0; i < points.length; i++) {
+            isValid = FHE.and(isValid, FHE.le(points[i], perOptionCap));
+            cost = FHE.add(cost, quadraticCost ? FHE.mul(points[i], points[i]) : points[i]);
+        }
+        isValid = FHE.and(isValid, FHE.le(cost, budget));
+
+        euint32 zero = FHE.asEuint32(0);
+        allowed = new euint32[](points.length);
+        for (uint256 i = 0; i < points.length; i++) {
+            allowed[i] = FHE.select(isValid, points[i], zero);
+        }
+    }
+
+    /// @dev Integer square root, rounded down
+    function _sqrt(uint32 x) private pure returns (uint32 root) {
+        while ((uint256(root) + 1) * (uint256(root) + 1) <= x) {
+            root++;
+        }
+    }
+}
@@ -0,0 +1,67 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE, euint32} from "@fhevm/solidity/lib/FHE.sol";
+
+/// @title DiscreteLaplace - encrypted noise for differentially private counts
+/// @notice Samples integer noise with P(n) proportional to e^(-epsilon * |n|) (the two-sided geometric distribution),
+/// capped at the noise bound. A count that one ballot changes by at most one is then (epsilon, delta)-differentially
+/// private rather than purely epsilon-private: with probability delta = P(|n| >= bound) / 2 the noise sits at the
+/// bound on the side where the neighbouring count could not reach. Delta is under 0.03% at epsilon 1.00.
+/// @dev The distribution's tail beyond the bound is folded onto the bound
+library DiscreteLaplace {
+    /// @notice Largest noise bound: beyond it the tail holds under 0.1% of the mass for the smallest allowed epsilon
+    uint8 internal constant MAX_BOUND = 8;
+
+    // e^-0.01 as a 64.64 fixed-point number; e^-epsilon is its epsilon-th power, epsilon being in hundredths
+    uint256 private constant EXP_MINUS_HUNDREDTH = 18263195903389592620;
+    uint256 private constant ONE = 1 << 64;
+
+    /// @notice P(|noise| >= k) for k = 1, 2, ..., scaled to 2^32, for an epsilon given in hundredths
+    /// @dev Stops at `MAX_BOUND` or at the first probability that rounds to zero; the length is the noise bound.
+    /// `epsilon` must be positive.
+    function tailsFor(uint16 epsilon) internal pure returns (uint32[] memory probabilities) {
+        uint256 alpha = _pow(EXP_MINUS_HUNDREDTH, epsilon);
+        // P(|noise| >= 1) = 2 alpha / (1 + alpha), and each further step multiplies it by alpha
+        uint256 tail = (2 * alpha * ONE) / (ONE + alpha);
+
+        probabilities = new uint32[](MAX_BOUND);
+        uint256 bound = 0;
+        while (bound < MAX_BOUND && tail >> 32 > 0) {
+            probabilities[bound++] = uint32(tail >> 32);
+            tail = (tail * alpha) >> 64;
+        }
+        assembly {
+            mstore(probabilities, bound)
+        }
+    }
+
+    /// @notice Encrypted `bound + noise`, which lies in [0, 2 * bound], for the tail probabilities `tailsFor` returned
+    /// @dev One uniform draw sets the magnitude, which is at least k exactly when the draw is below `tails[k - 1]`.
+    /// A random sign then splits each non-zero magnitude evenly between +k and -k. Costs about 1.4M HCU at
+    /// `MAX_BOUND`, so a transaction fits at most about 14 samples.
+    function sample(uint32[] memory tails) internal returns (euint32 shifted) {
+        euint32 draw = FHE.randEuint32();
+        euint32 magnitude = FHE.asEuint32(0);
+        // The tails decrease, so the draw is below a prefix of them: the last one it is below sets the magnitude
+        for (uint256 k = 0; k < tails.length; k++) {
+            magnitude = FHE.select(FHE.lt(draw, tails[k]), FHE.asEuint32(uint32(k + 1)), magnitude);
+        }
+
+        uint32 bound = uint32(tails.length);
+        // magnitude <= bound, so neither branch can wrap
+        shifted = FHE.select(FHE.randEbool(), FHE.add(magnitude, bound), FHE.sub(bound, magnitude));
+    }
+
+    /// @dev `base ** exponent` for a 64.64 fixed-point base no greater than one
+    function _pow(uint256 base, uint256 exponent) private pure returns (uint256 result) {
+        result = ONE;
+        while (exponent > 0) {
+            if (exponent & 1 == 1) {
+                result = (result * base) >> 64;
+            }
+            base = (base * base) >> 64;
+            exponent >>= 1;
+        }
+    }
+}
@@ -0,0 +1,69 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE, euint32, euint64, ebool} from "@fhevm/solidity/lib/FHE.sol";
+
+/// @title EncryptedTally - shared helpers for encrypted vote counters
+library EncryptedTally {
+    /// @notice A new 64-bit counter at encrypted zero, usable like a running tally
+    /// @dev Lets a poll nobody votes in be revealed: the oracle is only sent handles the contract may use
+    function zero64(address liveViewer) internal returns (euint64 count) {
+        count = FHE.asEuint64(0);
+
+        FHE.allowThis(count);
+        if (liveViewer != address(0)) {
+            FHE.allow(count, liveViewer);
+        }
+    }
+
+    /// @notice A new counter at encrypted zero, usable like a running tally
+    function zero32(address liveViewer) internal returns (euint32 count) {
+        count = FHE.asEuint32(0);
+
+        FHE.allowThis(count);
+        if (liveViewer != address(0)) {
+            FHE.allow(count, liveViewer);
+        }
+    }
+
+    /// @notice Add one to an encrypted counter when `condition` holds and refresh its ACL
+    /// @dev Only the calling contract may use the running tally, plus `liveViewer` unless it is address(0)
+    function increment(euint32 count, ebool condition, address liveViewer) internal returns (euint32) {
+        return add(count, oneIf(condition), liveViewer);
+    }
+
+    /// @notice Add an encrypted amount to a 64-bit encrypted counter and refresh its ACL
+    function add(euint64 count, euint64 amount, address liveViewer) internal returns (euint64 updated) {
+        updated = FHE.add(count, amount);
+
+        FHE.allowThis(updated);
+        if (liveViewer != address(0)) {
+            FHE.allow(updated, liveViewer);
+        }
+    }
+
+    /// @notice Subtract an encrypted amount from a 64-bit encrypted counter and refresh its ACL
+    function sub(euint64 count, euint64 amount, address liveViewer) internal returns (euint64 updated) {
+        updated = FHE.sub(count, amount);
+
+        FHE.allowThis(updated);
+        if (liveViewer != address(0)) {
+            FHE.allow(updated, liveViewer);
+        }
+    }
+
+    /// @notice Encrypted 1 when `condition` holds, else encrypted 0
+    function oneIf(ebool condition) internal returns (euint32) {
+        return FHE.select(condition, FHE.asEuint32(1), FHE.asEuint32(0));
+    }
+
+    /// @notice Add an encrypted amount to an encrypted counter and refresh its ACL
+    function add(euint32 count, euint32 amount, address liveViewer) internal returns (euint32 updated) {
+        updated = FHE.add(count, amount);
+
+        FHE.allowThis(updated);
+        if (liveViewer != address(0)) {
+            FHE.allow(updated, liveViewer);
+        }
+    }
+}
@@ -0,0 +1,59 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE, euint32, euint64} from "@fhevm/solidity/lib/FHE.sol";
+
+/// @title NumericBallot - encrypted aggregates of numeric answers
+/// @notice A ballot is one encrypted number, clamped to the poll's range. Only the sum, count, minimum and maximum
+/// of the answers are kept, so no single answer can be decrypted by anyone but its voter.
+library NumericBallot {
+    /// @notice Running aggregates of a numeric poll, and their values once revealed
+    struct Tally {
+        euint64 encryptedSum;
+        euint32 encryptedCount;
+        euint32 encryptedMin;
+        euint32 encryptedMax;
+        uint64 decryptedSum;
+        uint32 decryptedCount;
+        uint32 decryptedMin;
+        uint32 decryptedMax;
+    }
+
+    /// @notice Start the aggregates of a poll with no answers, so it can be revealed even if nobody answers
+    /// @dev The minimum starts at the top of the range and the maximum at the bottom, so the first answer sets both
+    function init(Tally storage self, uint32 minValue, uint32 maxValue) internal {
+        self.encryptedSum = FHE.asEuint64(0);
+        self.encryptedCount = FHE.asEuint32(0);
+        self.encryptedMin = FHE.asEuint32(maxValue);
+        self.encryptedMax = FHE.asEuint32(minValue);
+        _allowThis(self);
+    }
+
+    /// @notice Clamp an answer to [minValue, maxValue] and add it to the aggregates
+    /// @return value The answer as counted
+    function add(Tally storage self, euint32 answer, uint32 minValue, uint32 maxValue) internal returns (euint32 value) {
+        value = FHE.min(FHE.max(answer, minValue), maxValue);
+
+        self.encryptedSum = FHE.add(self.encryptedSum, FHE.asEuint64(value));
+        self.encryptedCount = FHE.add(self.encryptedCount, uint32(1));
+        self.encryptedMin = FHE.min(self.encryptedMin, value);
+        self.encryptedMax = FHE.max(self.encryptedMax, value);
+        _allowThis(self);
+    }
+
+    /// @notice Handles of the sum, count, minimum and maximum, in that order
+    function ciphertexts(Tally storage self) internal view returns (bytes32[] memory handles) {
+        handles = new bytes32[](4);
+        handles[0] = FHE.toBytes32(self.encryptedSum);
+        handles[1] = FHE.toBytes32(self.encryptedCount);
+        handles[2] = FHE.toBytes32(self.encryptedMin);
+        handles[3] = FHE.toBytes32(self.encryptedMax);
+    }
+
+    function _allowThis(Tally storage self) private {
+        FHE.allowThis(self.encryptedSum);
+        FHE.allowThis(self.encryptedCount);
+        FHE.allowThis(self.encryptedMin);
+        FHE.allowThis(self.encryptedMax);
+    }
+}
@@ -0,0 +1,270 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {euint64} from "@fhevm/solidity/lib/FHE.sol";
+import {MultiChoiceVoting} from "../MultiChoiceVoting.sol";
+import {EncryptedTally} from "./EncryptedTally.sol";
+import {NumericBallot} from "./NumericBallot.sol";
+import {RankedChoiceBallot} from "./RankedChoiceBallot.sol";
+
+/// @title PollLifecycle - validates and sets up new polls, lets creators cancel, extend or edit them, and collects
+/// committee approvals of their reveal
+/// @notice A poll can be edited only before it starts and while nobody has voted, extended only before it ends
+/// and by a bounded amount, and cancelled at any time until its results are requested
+/// @dev Deployed as a linked library; the voting contract passes its `_msgSender()` as `caller`
+library PollLifecycle {
+    /// @notice Furthest an extension may push a poll's end time past the end time it was created with
+    uint64 public constant MAX_EXTENSION = 30 days;
+
+    /// @notice Most members a reveal committee may have
+    uint256 public constant MAX_COMMITTEE_SIZE = 16;
+
+    // Ranked ballots are tallied per complete ranking, so the option count is kept small (4! = 24 rankings)
+    uint256 private constant MAX_RANKED_OPTIONS = 4;
+
+    // Noising a count costs about 1.5M HCU at the largest noise bound, so the counts of a private poll and its
+    // invalid count must fit the 20M HCU a transaction may use
+    uint256 private constant MAX_PRIVATE_OPTIONS = 8;
+
+    // Taking a share back out of another delegate's ballot costs about 0.7M HCU per option, on top of about 1.3M per
+    // option to cast the ballot. A ballot may take back its voter's share and one per delegator
+    // (`DelegationRegistry.MAX_DELEGATORS`), which must fit the 20M HCU a transaction may use.
+    uint256 private constant MAX_DELEGATED_OPTIONS = 4;
+
+    // Keeps per-option point totals of cumulative polls well inside euint32
+    uint32 private constant MAX_CREDIT_BUDGET = 10_000;
+
+    // Shortest timeout a poll may set, so a retry cannot cut off an oracle answer that is merely slow
+    uint64 private constant MIN_DECRYPTION_TIMEOUT = 1 hours;
+
+    // Privacy budget range, in hundredths: below 1.00 the capped noise would no longer be near-exact Laplace noise
+    uint16 private constant MIN_PRIVACY_EPSILON = 100;
+    uint16 private constant MAX_PRIVACY_EPSILON = 1000;
+
+    /// @notice Check that a new poll's times and settings are valid and compatible with each other
+    function checkSettings(
+        MultiChoiceVoting.PollSettings calldata settings,
+        uint64 startTime,
+        uint64 endTime
+    ) public view {
+        require(endTime > startTime, "End time must be after start time");
+        require(endTime > block.timestamp, "End time must be in the future");
+        require(
+            settings.revealPolicy != MultiChoiceVoting.RevealPolicy.AnyoneAfterGrace || settings.revealGracePeriod > 0,
+            "Grace period required"
+        );
+        require(
+            settings.ballotType != MultiChoiceVoting.BallotType.Cumulative ||
+                (settings.creditBudget > 0 && settings.creditBudget <= MAX_CREDIT_BUDGET),
+            "Credit budget must be 1-10000"
+        );
+        require(
+            !settings.revotable || settings.ballotType != MultiChoiceVoting.BallotType.RankedChoice,
+            "Ranked polls cannot be revotable"
+        );
+        require(
+            settings.votingToken == address(0) || settings.ballotType != MultiChoiceVoting.BallotType.RankedChoice,
+            "Ranked polls cannot be token-weighted"
+        );
+        require(!settings.confidentialToken || settings.votingToken != address(0), "Voting token required");
+        // Each ballot moves the live tally by the voter's balance, so consecutive snapshots would expose it
+        require(!settings.confidentialToken || !settings.creatorLiveView, "Poll type cannot use confidential weights");
+        require(settings.snapshotBlock < block.number, "Snapshot must be in the past");
+        // Ranked ballots carry no weight; on confidential polls a delegate's receipt would expose delegated balances.
+        // Delegators never show an allowlist proof or invite, so gated polls would count weight from anyone.
+        require(
+            settings.delegationRegistry == address(0) ||
+                (settings.ballotType != MultiChoiceVoting.BallotType.RankedChoice &&
+                    !settings.confidentialToken &&
+                    settings.allowlistRoot == bytes32(0) &&
+                    !settings.inviteOnly),
+            "Poll type cannot use delegation"
+        );
+        // Each token casts its own unweighted ballot, so a holder's ballots add up rather than replace each other
+        require(
+            settings.gatingCollection == address(0) ||
+                (!settings.revotable &&
+                    settings.votingToken == address(0) &&
+                    settings.delegationRegistry == address(0) &&
+                    settings.allowlistRoot == bytes32(0)),
+            "Poll type cannot use NFT gating"
+        );
+        require(
+            !settings.inviteOnly || (settings.allowlistRoot == bytes32(0) && settings.gatingCollection == address(0)),
+            "Poll type cannot use invites"
+        );
+        // Weights, delegations and receipts are all tied to an address, which an anonymous ballot does not reveal
+        require(
+            !settings.anonymousVoting ||
+                (settings.ballotType == MultiChoiceVoting.BallotType.SingleChoice &&
+                    !settings.revotable &&
+                    settings.votingToken == address(0) &&
+                    settings.delegationRegistry == address(0)),
+            "Poll type cannot be anonymous"
+        );
+        require(!settings.anonymousVoting || startTime > block.timestamp, "Anonymous polls need a registration period");
+        require(
+            settings.decryptionTimeout == 0 || settings.decryptionTimeout >= MIN_DECRYPTION_TIMEOUT,
+            "Decryption timeout too short"
+        );
+
+        // A ranked winner comes from the runoff over every ranking, and a live tally would show the distribution
+        require(
+            !settings.winnerOnly ||
+                (settings.ballotType != MultiChoiceVoting.BallotType.RankedChoice && !settings.creatorLiveView),
+            "Poll type cannot reveal only the winner"
+        );
+        require(settings.winnerOnly || settings.winnerMargin == 0, "Margin needs a winner-only poll");
+        // A decision reveals one flag: the running tally or a second reveal mode would show more
+        require(
+            settings.passThreshold == 0 ||
+                (settings.passThreshold <= 100 &&
+                    settings.ballotType == MultiChoiceVoting.BallotType.SingleChoice &&
+                    !settings.winnerOnly &&
+                    !settings.creatorLiveView),
+            "Invalid decision poll"
+        );
+        require(
+            settings.privacyEpsilon == 0 ||
+                (settings.privacyEpsilon >= MIN_PRIVACY_EPSILON && settings.privacyEpsilon <= MAX_PRIVACY_EPSILON),
+            "Privacy epsilon must be 1.00-10.00"
+        );
+        // The noise hides one ballot only if a ballot moves each count by at most one, and only the counts are noised
+        require(
+            settings.privacyEpsilon == 0 ||
+                (settings.ballotType == MultiChoiceVoting.BallotType.SingleChoice &&
+                    settings.votingToken == address(0) &&
+                    settings.delegationRegistry == address(0) &&
+                    !settings.winnerOnly &&
+                    settings.passThreshold == 0 &&
+                    !settings.creatorLiveView),
+            "Poll type cannot add noise"
+        );
+        // Answers are unweighted, and a minimum or maximum cannot take back a replaced answer
+        bool numeric = settings.ballotType == MultiChoiceVoting.BallotType.Numeric;
+        require(
+            !numeric ||
+                (settings.minValue < settings.maxValue &&
+                    !settings.revotable &&
+                    settings.votingToken == address(0) &&
+                    settings.delegationRegistry == address(0) &&
+                    settings.gatingCollection == address(0) &&
+                    !settings.creatorLiveView &&
+                    !settings.winnerOnly),
+            "Invalid numeric poll"
+        );
+        require(numeric || (settings.minValue == 0 && settings.maxValue == 0), "Range needs a numeric poll");
+        _checkCommittee(settings.committee, settings.committeeThreshold);
+    }
+
+    /// @notice Validate and set the poll's title and options, starting their tally at encrypted zero
+    /// @dev The poll's settings must already be set
+    function setContent(MultiChoiceVoting.Poll storage poll, string memory title, string[] memory options) public {
+        require(bytes(title).length > 0, "Title cannot be empty");
+        if (poll.settings.ballotType == MultiChoiceVoting.BallotType.Numeric) {
+            require(options.length == 0, "Numeric polls take no options");
+        } else {
+            require(options.length >= 2 && options.length <= 16, "Must have 2-16 options");
+        }
+        bool ranked = poll.settings.ballotType == MultiChoiceVoting.BallotType.RankedChoice;
+        require(!ranked || options.length <= MAX_RANKED_OPTIONS, "Ranked polls support 2-4 options");
+        require(poll.settings.passThreshold == 0 || options.length == 3, "Decisions need Yes, No and Abstain");
+        require(
+            poll.settings.privacyEpsilon == 0 || options.length <= MAX_PRIVATE_OPTIONS,
+            "Private polls support 2-8 options"
+        );
+        require(
+            poll.settings.delegationRegistry == address(0) || options.length <= MAX_DELEGATED_OPTIONS,
+            "Delegated polls support 2-4 options"
+        );
+
+        poll.title = title;
+        poll.options = options;
+
+        // Counters start at encrypted zero rather than unset, so a poll nobody votes in can still be revealed
+        address liveViewer = poll.settings.creatorLiveView ? poll.creator : address(0);
+        euint64 zero = EncryptedTally.zero64(liveViewer);
+        poll.encryptedCounts = new euint64[](options.length);
+        for (uint256 i = 0; i < options.length; i++) {
+            poll.encryptedCounts[i] = zero;
+        }
+        poll.decryptedCounts = new uint64[](options.length);
+        poll.encryptedInvalidCount = EncryptedTally.zero32(liveViewer);
+        if (ranked) {
+            RankedChoiceBallot.init(poll.ranked, options.length, liveViewer);
+        }
+        if (poll.settings.ballotType == MultiChoiceVoting.BallotType.Numeric) {
+            NumericBallot.init(poll.numeric, poll.settings.minValue, poll.settings.maxValue);
+        }
+    }
+
+    /// @notice Cancel the poll: no more ballots, registrations or reveal
+    function cancel(MultiChoiceVoting.Poll storage poll, address caller) public {
+        _checkManageable(poll, caller);
+        poll.cancelled = true;
+    }
+
+    /// @notice Move the poll's end time later, at most `MAX_EXTENSION` past the end time it was created with
+    function extend(MultiChoiceVoting.Poll storage poll, address caller, uint64 newEndTime) public {
+        _checkManageable(poll, caller);
+        require(block.timestamp <= poll.endTime, "Voting has ended");
+        require(newEndTime > poll.endTime, "New end time must be later");
+        require(newEndTime <= poll.maxEndTime, "Extension too long");
+        poll.endTime = newEndTime;
+    }
+
+    /// @notice Replace the poll's title and options before it starts
+    function edit(
+        MultiChoiceVoting.Poll storage poll,
+        address caller,
+        string calldata title,
+        string[] calldata options
+    ) public {
+        _checkManageable(poll, caller);
+        require(block.timestamp < poll.startTime, "Voting has started");
+        require(poll.totalVoters == 0, "Poll has votes");
+        setContent(poll, title, options);
+    }
+
+    /// @notice Record a committee member's approval of the poll's reveal
+    /// @return approvals Members who have approved so far, this one included
+    function approveReveal(MultiChoiceVoting.Poll storage poll, address caller) public returns (uint8 approvals) {
+        require(!poll.cancelled, "Poll is cancelled");
+        require(!poll.finalized, "Poll is finalized");
+        require(!poll.decryptionPending, "Decryption already pending");
+        require(_isMember(poll.settings.committee, caller), "Not a committee member");
+        require(!poll.committeeApproved[caller], "Already approved");
+
+        poll.committeeApproved[caller] = true;
+        approvals = ++poll.committeeApprovals;
+    }
+
+    function _checkCommittee(address[] calldata committee, uint8 threshold) private pure {
+        require(committee.length <= MAX_COMMITTEE_SIZE, "Committee too large");
+        require(
+            committee.length == 0 ? threshold == 0 : threshold > 0 && threshold <= committee.length,
+            "Committee threshold must be 1-N"
+        );
+        for (uint256 i = 0; i < committee.length; i++) {
+            require(committee[i] != address(0), "Invalid committee member");
+            for (uint256 j = 0; j < i; j++) {
+                require(committee[j] != committee[i], "Duplicate committee member");
+            }
+        }
+    }
+
+    function _isMember(address[] storage committee, address account) private view returns (bool) {
+        for (uint256 i = 0; i < committee.length; i++) {
+            if (committee[i] == account) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    function _checkManageable(MultiChoiceVoting.Poll storage poll, address caller) private view {
+        require(caller == poll.creator, "Only the creator");
+        require(!poll.cancelled, "Poll is cancelled");
+        require(!poll.finalized && !poll.decryptionPending, "Poll is finalized");
+    }
+}
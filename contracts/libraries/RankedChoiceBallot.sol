@@ -0,0 +1,105 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE, euint8, euint32, externalEuint8, ebool} from "@fhevm/solidity/lib/FHE.sol";
+import {EncryptedTally} from "./EncryptedTally.sol";
+import {VoterInput} from "./VoterInput.sol";
+
+/// @title RankedChoiceBallot - encrypted tally of ranked (instant-runoff) ballots
+/// @notice A ballot is one encrypted rank per option. It is counted against the complete ranking it
+/// matches, so instant-runoff rounds can be replayed off-chain from the revealed ranking counts.
+/// @dev Deployed as a linked library; runs via DELEGATECALL so ACL grants apply to the calling contract
+library RankedChoiceBallot {
+    /// @notice Ballot counts per complete ranking, indexed as in `ranking`
+    /// @dev Kept in a struct: linked library functions cannot take storage arrays of encrypted handles directly
+    struct Tally {
+        euint32[] encryptedRankingCounts;
+        uint32[] decryptedRankingCounts; // revealed after finalization
+    }
+
+    /// @notice Set up the ranking counters, at encrypted zero, for a poll with `optionCount` options
+    function init(Tally storage self, uint256 optionCount, address liveViewer) internal {
+        uint256 count = rankingCount(optionCount);
+        euint32 zero = EncryptedTally.zero32(liveViewer);
+        self.encryptedRankingCounts = new euint32[](count);
+        self.decryptedRankingCounts = new uint32[](count);
+        for (uint256 k = 0; k < count; k++) {
+            self.encryptedRankingCounts[k] = zero;
+        }
+    }
+
+    /// @notice Count one ranked ballot
+    /// @param self The poll's ranking counters
+    /// @param encryptedRanks Encrypted rank of each option (0 = first preference), in option order
+    /// @param inputProof Proof for the encrypted inputs
+    /// @param voter Address the encrypted inputs were created for
+    /// @param liveViewer Address granted access to the running tally, or address(0)
+    /// @return isFirstChoice Per option, whether it is the ballot's first preference (false for invalid ballots)
+    /// @return isValid Whether the ranks form a permutation of 0..n-1 (ballots that don't match any ranking)
+    function tally(
+        Tally storage self,
+        externalEuint8[] calldata encryptedRanks,
+        bytes calldata inputProof,
+        address voter,
+        address liveViewer
+    ) public returns (ebool[] memory isFirstChoice, ebool isValid) {
+        uint256 optionCount = encryptedRanks.length;
+        euint32[] storage rankingCounts = self.encryptedRankingCounts;
+        require(rankingCounts.length == rankingCount(optionCount), "One rank per option required");
+
+        // isAt[position * optionCount + option]: the option was ranked at that position
+        ebool[] memory isAt = new ebool[](optionCount * optionCount);
+        for (uint256 i = 0; i < optionCount; i++) {
+            euint8 rank = VoterInput.fromExternal(encryptedRanks[i], inputProof, voter);
+            for (uint256 position = 0; position < optionCount; position++) {
+                isAt[position * optionCount + i] = FHE.eq(rank, uint8(position));
+            }
+        }
+
+        // A valid ballot matches exactly one complete ranking, an invalid one matches none
+        isValid = FHE.asEbool(false);
+        for (uint256 k = 0; k < rankingCounts.length; k++) {
+            uint256[] memory order = ranking(optionCount, k);
+            ebool isMatch = isAt[order[0]];
+            for (uint256 position = 1; position < optionCount; position++) {
+                isMatch = FHE.and(isMatch, isAt[position * optionCount + order[position]]);
+            }
+            isValid = FHE.or(isValid, isMatch);
+            rankingCounts[k] = EncryptedTally.increment(rankingCounts[k], isMatch, liveViewer);
+        }
+
+        isFirstChoice = new ebool[](optionCount);
+        for (uint256 i = 0; i < optionCount; i++) {
+            isFirstChoice[i] = FHE.and(isValid, isAt[i]);
+        }
+    }
+
+    /// @notice The `k`-th permutation of option indices 0..n-1 in lexicographic order (most preferred first)
+    function ranking(uint256 n, uint256 k) internal pure returns (uint256[] memory order) {
+        order = new uint256[](n);
+        bool[] memory used = new bool[](n);
+        uint256 stride = rankingCount(n);
+        for (uint256 position = 0; position < n; position++) {
+            stride /= n - position;
+            uint256 skip = k / stride;
+            k %= stride;
+            for (uint256 i = 0; i < n; i++) {
+                if (used[i]) continue;
+                if (skip == 0) {
+                    order[position] = i;
+                    used[i] = true;
+                    break;
+                }
+                skip--;
+            }
+        }
+    }
+
+    /// @notice Number of complete rankings of n options (n!)
+    function rankingCount(uint256 n) internal pure returns (uint256 count) {
+        count = 1;
+        for (uint256 i = 2; i <= n; i++) {
+            count *= i;
+        }
+    }
+}
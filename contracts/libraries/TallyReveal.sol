@@ -0,0 +1,212 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE, euint8, euint32, euint64, euint128, ebool} from "@fhevm/solidity/lib/FHE.sol";
+import {MultiChoiceVoting} from "../MultiChoiceVoting.sol";
+import {DiscreteLaplace} from "./DiscreteLaplace.sol";
+import {NumericBallot} from "./NumericBallot.sol";
+
+/// @title TallyReveal - chooses what a poll reveals and stores it once the oracle has decrypted it
+/// @notice Most polls reveal every option's count, the invalid ballot count and any ranking counts. Winner-only
+/// polls reveal just the index of the leading option, computed under FHE, and optionally whether it leads by a margin.
+/// Decision polls reveal just whether Yes cleared their pass threshold. Differentially private polls reveal every
+/// count with discrete Laplace noise added under FHE. Numeric polls reveal the sum, count, minimum and maximum.
+/// Anonymous polls with a minimum turnout also reveal how many ballots carried a registered secret, and reveal
+/// nothing else unless there are at least `minVoters` of them.
+/// @dev Deployed as a linked library; runs via DELEGATECALL so the values it computes are the calling contract's
+library TallyReveal {
+    /// @notice Handles to send to the decryption oracle, in the order `store` reads their cleartexts
+    function ciphertexts(MultiChoiceVoting.Poll storage poll) public returns (bytes32[] memory handles) {
+        bool checksValidBallots = _checksValidBallots(poll.settings);
+        if (checksValidBallots && !FHE.isInitialized(poll.encryptedValidBallots)) {
+            _maskShortTurnout(poll);
+        }
+
+        bytes32[] memory results = _resultCiphertexts(poll);
+        if (!checksValidBallots) {
+            return results;
+        }
+        // The valid ballot count goes last
+        handles = new bytes32[](results.length + 1);
+        for (uint256 i = 0; i < results.length; i++) {
+            handles[i] = results[i];
+        }
+        handles[results.length] = FHE.toBytes32(poll.encryptedValidBallots);
+    }
+
+    /// @notice Store the oracle's cleartexts, one 32-byte word per handle `ciphertexts` returned
+    /// @dev The caller must have checked the KMS signatures over `cleartexts`
+    function store(MultiChoiceVoting.Poll storage poll, bytes memory cleartexts) public {
+        if (_checksValidBallots(poll.settings)) {
+            require(cleartexts.length >= 32, "Result length mismatch");
+            uint256 last = cleartexts.length / 32 - 1;
+            poll.decryptedValidBallots = uint32(_readWord(cleartexts, last));
+            if (poll.decryptedValidBallots < poll.settings.minVoters) {
+                poll.insufficientTurnout = true;
+                return;
+            }
+            // Drop the valid ballot count so the results read as on any other poll
+            assembly {
+                mstore(cleartexts, mul(last, 32))
+            }
+        }
+        _storeResults(poll, cleartexts);
+    }
+
+    /// @dev Anonymous ballots are sent by anyone, so ballots without a registered secret could pad turnout up to
+    /// the minimum on their own. Such polls count the ballots that carried one instead.
+    function _checksValidBallots(MultiChoiceVoting.PollSettings storage settings) private view returns (bool) {
+        return settings.anonymousVoting && settings.minVoters > 0;
+    }
+
+    /// @dev Fix the poll's valid ballot count, every ballot that was not counted as invalid, and zero every count
+    /// unless it reaches the minimum. Done once, before any noise is added, so a retried reveal decrypts the same
+    /// values.
+    function _maskShortTurnout(MultiChoiceVoting.Poll storage poll) private {
+        // The invalid count never exceeds the ballots received, so the difference cannot underflow
+        euint32 valid = FHE.sub(uint32(poll.totalVoters), poll.encryptedInvalidCount);
+        FHE.allowThis(valid);
+        poll.encryptedValidBallots = valid;
+
+        ebool enough = FHE.ge(valid, poll.settings.minVoters);
+        euint64 zero = FHE.asEuint64(0);
+        for (uint256 i = 0; i < poll.encryptedCounts.length; i++) {
+            euint64 count = FHE.select(enough, poll.encryptedCounts[i], zero);
+            FHE.allowThis(count);
+            poll.encryptedCounts[i] = count;
+        }
+        euint32 invalid = FHE.select(enough, poll.encryptedInvalidCount, FHE.asEuint32(0));
+        FHE.allowThis(invalid);
+        poll.encryptedInvalidCount = invalid;
+    }
+
+    /// @dev Handles of what the poll reveals, in the order `_storeResults` reads their cleartexts
+    function _resultCiphertexts(MultiChoiceVoting.Poll storage poll) private returns (bytes32[] memory handles) {
+        if (poll.settings.winnerOnly) {
+            (euint8 winner, ebool decisive) = _winner(poll.encryptedCounts, poll.settings.winnerMargin);
+            handles = new bytes32[](poll.settings.winnerMargin > 0 ? 2 : 1);
+            handles[0] = FHE.toBytes32(winner);
+            if (handles.length > 1) {
+                handles[1] = FHE.toBytes32(decisive);
+            }
+            return handles;
+        }
+        if (poll.settings.ballotType == MultiChoiceVoting.BallotType.Numeric) {
+            return NumericBallot.ciphertexts(poll.numeric);
+        }
+        if (poll.settings.passThreshold > 0) {
+            handles = new bytes32[](1);
+            handles[0] = FHE.toBytes32(_passes(poll.encryptedCounts, poll.settings.passThreshold));
+            return handles;
+        }
+
+        if (poll.settings.privacyEpsilon > 0 && poll.noiseBound == 0) {
+            _addNoise(poll);
+        }
+
+        // Per-option counts, followed by the invalid ballot count and any ranking counts
+        uint256 optionCount = poll.encryptedCounts.length;
+        uint256 rankingCount = poll.ranked.encryptedRankingCounts.length;
+        handles = new bytes32[](optionCount + 1 + rankingCount);
+        for (uint256 i = 0; i < optionCount; i++) {
+            handles[i] = FHE.toBytes32(poll.encryptedCounts[i]);
+        }
+        handles[optionCount] = FHE.toBytes32(poll.encryptedInvalidCount);
+        for (uint256 k = 0; k < rankingCount; k++) {
+            handles[optionCount + 1 + k] = FHE.toBytes32(poll.ranked.encryptedRankingCounts[k]);
+        }
+    }
+
+    /// @dev Store the cleartexts of the handles `_resultCiphertexts` returned
+    function _storeResults(MultiChoiceVoting.Poll storage poll, bytes memory cleartexts) private {
+        if (poll.settings.winnerOnly) {
+            require(cleartexts.length == (poll.settings.winnerMargin > 0 ? 64 : 32), "Result length mismatch");
+            poll.decryptedWinner = uint8(_readWord(cleartexts, 0));
+            poll.decryptedDecisive = poll.settings.winnerMargin > 0 && _readWord(cleartexts, 1) != 0;
+            return;
+        }
+        if (poll.settings.ballotType == MultiChoiceVoting.BallotType.Numeric) {
+            require(cleartexts.length == 128, "Result length mismatch");
+            NumericBallot.Tally storage numeric = poll.numeric;
+            numeric.decryptedSum = uint64(_readWord(cleartexts, 0));
+            numeric.decryptedCount = uint32(_readWord(cleartexts, 1));
+            // Without answers the extremes still hold their starting values, which are not answers
+            if (numeric.decryptedCount > 0) {
+                numeric.decryptedMin = uint32(_readWord(cleartexts, 2));
+                numeric.decryptedMax = uint32(_readWord(cleartexts, 3));
+            }
+            return;
+        }
+        if (poll.settings.passThreshold > 0) {
+            require(cleartexts.length == 32, "Result length mismatch");
+            poll.decryptedPassed = _readWord(cleartexts, 0) != 0;
+            return;
+        }
+
+        uint256 optionCount = poll.encryptedCounts.length;
+        uint256 rankingCount = poll.ranked.encryptedRankingCounts.length;
+        require(cleartexts.length == (optionCount + 1 + rankingCount) * 32, "Result length mismatch");
+
+        uint256 bound = poll.noiseBound;
+        for (uint256 i = 0; i < optionCount; i++) {
+            poll.decryptedCounts[i] = uint64(_unshift(_readWord(cleartexts, i), bound));
+        }
+        poll.decryptedInvalidCount = uint32(_unshift(_readWord(cleartexts, optionCount), bound));
+        for (uint256 k = 0; k < rankingCount; k++) {
+            poll.ranked.decryptedRankingCounts[k] = uint32(_readWord(cleartexts, optionCount + 1 + k));
+        }
+    }
+
+    /// @dev Add `bound + noise` to every option count and the invalid count. Done once per poll: a retried reveal
+    /// decrypts the same noisy counts, so no two independent noise draws are ever decrypted.
+    function _addNoise(MultiChoiceVoting.Poll storage poll) private {
+        uint32[] memory tails = DiscreteLaplace.tailsFor(poll.settings.privacyEpsilon);
+        for (uint256 i = 0; i < poll.encryptedCounts.length; i++) {
+            euint64 noisy = FHE.add(poll.encryptedCounts[i], FHE.asEuint64(DiscreteLaplace.sample(tails)));
+            FHE.allowThis(noisy);
+            poll.encryptedCounts[i] = noisy;
+        }
+        euint32 noisyInvalid = FHE.add(poll.encryptedInvalidCount, DiscreteLaplace.sample(tails));
+        FHE.allowThis(noisyInvalid);
+        poll.encryptedInvalidCount = noisyInvalid;
+        poll.noiseBound = uint8(tails.length);
+    }
+
+    /// @dev Remove the `bound` offset from a noisy count; noise that took it below zero is floored at zero
+    function _unshift(uint256 word, uint256 bound) private pure returns (uint256) {
+        return word > bound ? word - bound : 0;
+    }
+
+    /// @dev Encrypted index of the option with the most votes (the lowest such index on a tie), and whether its count
+    /// exceeds every other option's by at least `margin`
+    function _winner(euint64[] storage counts, uint64 margin) private returns (euint8 winner, ebool decisive) {
+        euint64 best = counts[0];
+        euint64 runnerUp = FHE.asEuint64(0);
+        winner = FHE.asEuint8(0);
+        for (uint256 i = 1; i < counts.length; i++) {
+            ebool leads = FHE.gt(counts[i], best);
+            runnerUp = FHE.select(leads, best, FHE.max(runnerUp, counts[i]));
+            best = FHE.select(leads, counts[i], best);
+            winner = FHE.select(leads, FHE.asEuint8(uint8(i)), winner);
+        }
+        // best >= runnerUp, so the difference cannot underflow
+        decisive = FHE.ge(FHE.sub(best, runnerUp), margin);
+    }
+
+    /// @dev Whether Yes (option 0) has at least `threshold` percent of the Yes and No (option 1) votes, that is
+    /// `yes * 100 >= threshold * (yes + no)`; Abstain (option 2) is left out, and a decision nobody voted Yes on fails.
+    /// Computed in 128 bits: weighted counts use the whole 64, so the products would wrap in `euint64`.
+    function _passes(euint64[] storage counts, uint8 threshold) private returns (ebool) {
+        euint128 yes = FHE.asEuint128(counts[0]);
+        euint128 decided = FHE.add(yes, FHE.asEuint128(counts[1]));
+        ebool cleared = FHE.ge(FHE.mul(yes, uint128(100)), FHE.mul(decided, uint128(threshold)));
+        return FHE.and(cleared, FHE.gt(counts[0], uint64(0)));
+    }
+
+    /// @dev Read the `index`-th 32-byte word of an ABI-packed cleartexts buffer
+    function _readWord(bytes memory data, uint256 index) private pure returns (uint256 word) {
+        assembly {
+            word := mload(add(data, add(32, mul(index, 32))))
+        }
+    }
+}
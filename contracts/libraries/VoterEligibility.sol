@@ -0,0 +1,80 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {IERC721} from "@openzeppelin/contracts/token/ERC721/IERC721.sol";
+import {ECDSA} from "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import {MerkleProof} from "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
+import {MessageHashUtils} from "@openzeppelin/contracts/utils/cryptography/MessageHashUtils.sol";
+import {MultiChoiceVoting} from "../MultiChoiceVoting.sol";
+
+/// @title VoterEligibility - checks the `eligibilityProof` a voter passes to a gated poll
+/// @notice A poll uses at most one gate: a Merkle allowlist of addresses, one ballot per token of an ERC-721
+/// collection, or one-time EIP-712 invite vouchers signed by the poll's creator. Open polls need no proof.
+/// @dev Deployed as a linked library; runs via DELEGATECALL so `address(this)` is the voting contract, which is
+/// also the verifying contract of the voucher domain
+library VoterEligibility {
+    /// @notice EIP-712 type of the invite vouchers a creator signs for invite-only polls
+    bytes32 public constant VOUCHER_TYPEHASH = keccak256("Voucher(uint256 pollId,address voter,uint256 nonce)");
+
+    bytes32 private constant DOMAIN_TYPEHASH =
+        keccak256("EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)");
+
+    /// @notice Revert unless `voter` may cast a ballot on the poll, using up a token or voucher if it gates it
+    /// @param pollId The ID of the poll
+    /// @param voter Address casting the ballot
+    /// @param admitted Whether `voter` already has a ballot in the poll
+    /// @param usedTokens The poll's collection tokens that have voted
+    /// @param usedVouchers The poll's voucher nonces that have admitted a voter
+    /// @param eligibilityProof ABI-encoded `bytes32[]` Merkle proof of keccak256(keccak256(abi.encode(voter))) on
+    /// an allowlisted poll, `uint256` token ID on an NFT-gated poll, `(uint256 nonce, bytes signature)` voucher on
+    /// an invite-only poll
+    function check(
+        MultiChoiceVoting.Poll storage poll,
+        uint256 pollId,
+        address voter,
+        bool admitted,
+        mapping(uint256 => bool) storage usedTokens,
+        mapping(uint256 => bool) storage usedVouchers,
+        bytes calldata eligibilityProof
+    ) public {
+        MultiChoiceVoting.PollSettings storage settings = poll.settings;
+        if (settings.gatingCollection != address(0)) {
+            require(eligibilityProof.length > 0, "Token ID required");
+            uint256 tokenId = abi.decode(eligibilityProof, (uint256));
+            require(IERC721(settings.gatingCollection).ownerOf(tokenId) == voter, "Not the token owner");
+            require(!usedTokens[tokenId], "Token already voted");
+            usedTokens[tokenId] = true;
+        } else if (settings.inviteOnly) {
+            // A voter already admitted may revote on a revotable poll without a new voucher
+            if (admitted) {
+                return;
+            }
+            require(eligibilityProof.length > 0, "Invite voucher required");
+            (uint256 nonce, bytes memory signature) = abi.decode(eligibilityProof, (uint256, bytes));
+            bytes32 structHash = keccak256(abi.encode(VOUCHER_TYPEHASH, pollId, voter, nonce));
+            bytes32 digest = MessageHashUtils.toTypedDataHash(_domainSeparator(), structHash);
+            require(ECDSA.recover(digest, signature) == poll.creator, "Invalid invite voucher");
+            require(!usedVouchers[nonce], "Invite voucher already used");
+            usedVouchers[nonce] = true;
+        } else if (settings.allowlistRoot != bytes32(0)) {
+            require(eligibilityProof.length > 0, "Allowlist proof required");
+            bytes32[] memory proof = abi.decode(eligibilityProof, (bytes32[]));
+            bytes32 leaf = keccak256(bytes.concat(keccak256(abi.encode(voter))));
+            require(MerkleProof.verify(proof, settings.allowlistRoot, leaf), "Not on the allowlist");
+        }
+    }
+
+    /// @dev EIP-712 domain of the voting contract: name "MultiChoiceVoting", version "1"
+    function _domainSeparator() private view returns (bytes32) {
+        return
+            keccak256(
+                abi.encode(
+                    DOMAIN_TYPEHASH,
+                    keccak256("MultiChoiceVoting"),
+                    keccak256("1"),
+                    block.chainid,
+                    address(this)
+                )
+            );
+    }
+}
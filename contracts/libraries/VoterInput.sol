@@ -0,0 +1,43 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {ebool, euint8, euint32, euint64, externalEbool, externalEuint8, externalEuint32, externalEuint64} from "@fhevm/solidity/lib/FHE.sol";
+import {FheType} from "@fhevm/solidity/lib/FheType.sol";
+import {IFHEVMExecutor, Impl} from "@fhevm/solidity/lib/Impl.sol";
+
+/// @title VoterInput - imports encrypted inputs that were created for the voter
+/// @notice `FHE.fromExternal` checks an input against msg.sender, which is the trusted forwarder when a ballot is
+/// relayed. Any relayed ciphertext would then pass for any other voter, and its receipt would let them decrypt it.
+/// Inputs are checked against the voter instead, the contract's `_msgSender()`, so a copied ciphertext is rejected
+/// unless the voter who created it casts it.
+/// @dev Internal functions: the input is verified for the calling contract, or the contract delegating to the
+/// linked library that calls them
+library VoterInput {
+    function fromExternal(externalEuint32 input, bytes calldata inputProof, address voter) internal returns (euint32) {
+        return euint32.wrap(_verify(externalEuint32.unwrap(input), inputProof, voter, FheType.Uint32));
+    }
+
+    function fromExternal(externalEuint8 input, bytes calldata inputProof, address voter) internal returns (euint8) {
+        return euint8.wrap(_verify(externalEuint8.unwrap(input), inputProof, voter, FheType.Uint8));
+    }
+
+    function fromExternal(externalEbool input, bytes calldata inputProof, address voter) internal returns (ebool) {
+        return ebool.wrap(_verify(externalEbool.unwrap(input), inputProof, voter, FheType.Bool));
+    }
+
+    function fromExternal(externalEuint64 input, bytes calldata inputProof, address voter) internal returns (euint64) {
+        return euint64.wrap(_verify(externalEuint64.unwrap(input), inputProof, voter, FheType.Uint64));
+    }
+
+    /// @dev Verify `handle` as an input `voter` created for this contract; the executor grants this contract
+    /// transient access to the result
+    function _verify(
+        bytes32 handle,
+        bytes calldata inputProof,
+        address voter,
+        FheType inputType
+    ) private returns (bytes32) {
+        address executor = Impl.getCoprocessorConfig().CoprocessorAddress;
+        return IFHEVMExecutor(executor).verifyCiphertext(handle, voter, inputProof, inputType);
+    }
+}
@@ -0,0 +1,19 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {ERC721} from "@openzeppelin/contracts/token/ERC721/ERC721.sol";
+import {ERC721Enumerable} from "@openzeppelin/contracts/token/ERC721/extensions/ERC721Enumerable.sol";
+
+/// @title MockNFT - freely mintable ERC-721 collection for NFT-gated polls on local networks
+/// @dev Enumerable so the frontend can list the tokens a wallet holds
+contract MockNFT is ERC721Enumerable {
+    uint256 private _nextTokenId;
+
+    constructor() ERC721("Mock Members", "MMEMBER") {}
+
+    /// @notice Mint the next token ID to `to`; open to anyone, for testing only
+    function mint(address to) external returns (uint256 tokenId) {
+        tokenId = _nextTokenId++;
+        _safeMint(to, tokenId);
+    }
+}
@@ -0,0 +1,34 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {FHE, euint32} from "@fhevm/solidity/lib/FHE.sol";
+import {SepoliaConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {DiscreteLaplace} from "../libraries/DiscreteLaplace.sol";
+
+/// @title MockNoiseSampler - draws DiscreteLaplace noise that the caller may decrypt, for distribution tests
+/// @dev Each sample is `bound + noise`, exactly as TallyReveal adds it to a count
+contract MockNoiseSampler is SepoliaConfig {
+    euint32[] private _samples;
+
+    /// @notice Draw `count` samples for an epsilon in hundredths, each decryptable by the caller
+    /// @dev Keep `count` to 8 or fewer at epsilon 1.00 to stay within the per-transaction HCU limit
+    function draw(uint16 epsilon, uint256 count) external {
+        uint32[] memory tails = DiscreteLaplace.tailsFor(epsilon);
+        for (uint256 i = 0; i < count; i++) {
+            euint32 shifted = DiscreteLaplace.sample(tails);
+            FHE.allowThis(shifted);
+            FHE.allow(shifted, msg.sender);
+            _samples.push(shifted);
+        }
+    }
+
+    /// @notice Every sample drawn so far
+    function getSamples() external view returns (euint32[] memory) {
+        return _samples;
+    }
+
+    /// @notice P(|noise| >= k) for k = 1..bound, scaled to 2^32
+    function getTails(uint16 epsilon) external pure returns (uint32[] memory) {
+        return DiscreteLaplace.tailsFor(epsilon);
+    }
+}
@@ -0,0 +1,21 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {ERC20} from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import {ERC20Votes} from "@openzeppelin/contracts/token/ERC20/extensions/ERC20Votes.sol";
+import {EIP712} from "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+
+/// @title MockVotesToken - freely mintable ERC20Votes token for token-weighted polls on local networks
+/// @dev Holders must delegate (e.g. to themselves) before their balance counts as voting power
+contract MockVotesToken is ERC20, ERC20Votes {
+    constructor() ERC20("Mock Votes", "MVOTE") EIP712("Mock Votes", "1") {}
+
+    /// @notice Mint `amount` tokens to `to`; open to anyone, for testing only
+    function mint(address to, uint256 amount) external {
+        _mint(to, amount);
+    }
+
+    function _update(address from, address to, uint256 value) internal override(ERC20, ERC20Votes) {
+        super._update(from, to, value);
+    }
+}
@@ -5,17 +5,98 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
   const { deployer } = await hre.getNamedAccounts();
   const { deploy } = hre.deployments;
 
+  const rankedChoiceBallot = await deploy("RankedChoiceBallot", {
+    from: deployer,
+    log: true,
+  });
+
+  const cumulativeBallot = await deploy("CumulativeBallot", {
+    from: deployer,
+    log: true,
+  });
+
+  const ballotBox = await deploy("BallotBox", {
+    from: deployer,
+    libraries: {
+      RankedChoiceBallot: rankedChoiceBallot.address,
+      CumulativeBallot: cumulativeBallot.address,
+    },
+    log: true,
+  });
+
+  const voterEligibility = await deploy("VoterEligibility", {
+    from: deployer,
+    log: true,
+  });
+
+  const pollLifecycle = await deploy("PollLifecycle", {
+    from: deployer,
+    log: true,
+  });
+
+  const tallyReveal = await deploy("TallyReveal", {
+    from: deployer,
+    log: true,
+  });
+
+  // Trusted forwarder through which the relayer submits sponsored votes
+  const forwarder = await deploy("VoteForwarder", {
+    from: deployer,
+    log: true,
+  });
+
+  console.log(`VoteForwarder contract deployed at: ${forwarder.address}`);
+
   const deployed = await deploy("MultiChoiceVoting", {
     from: deployer,
-    args: [],
+    args: [forwarder.address],
+    libraries: {
+      BallotBox: ballotBox.address,
+      VoterEligibility: voterEligibility.address,
+      PollLifecycle: pollLifecycle.address,
+      TallyReveal: tallyReveal.address,
+    },
     log: true,
     skipIfAlreadyDeployed: false,
   });
 
   console.log(`MultiChoiceVoting contract deployed at: ${deployed.address}`);
+
+  // Encrypted-balance token for polls whose vote weights must stay private
+  const confidentialToken = await deploy("ConfidentialVotesToken", {
+    from: deployer,
+    args: [deployed.address],
+    log: true,
+  });
+
+  console.log(`ConfidentialVotesToken contract deployed at: ${confidentialToken.address}`);
+
+  // Global delegation registry that polls may opt into
+  const delegationRegistry = await deploy("DelegationRegistry", {
+    from: deployer,
+    log: true,
+  });
+
+  console.log(`DelegationRegistry contract deployed at: ${delegationRegistry.address}`);
+
+  // Local networks get a mintable ERC20Votes token and ERC-721 collection to try weighted and NFT-gated polls with
+  if (hre.network.config.chainId === 31337) {
+    const votesToken = await deploy("MockVotesToken", {
+      from: deployer,
+      log: true,
+    });
+
+    console.log(`MockVotesToken contract deployed at: ${votesToken.address}`);
+
+    const nft = await deploy("MockNFT", {
+      from: deployer,
+      log: true,
+    });
+
+    console.log(`MockNFT contract deployed at: ${nft.address}`);
+  }
 };
 
 export default func;
 func.id = "deploy_multi_choice_voting";
 func.tags = ["MultiChoiceVoting"];
-
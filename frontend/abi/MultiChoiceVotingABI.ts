@@ -1,9 +1,100 @@
 export const MultiChoiceVotingABI = [
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "trustedForwarder",
+        "type": "address"
+      }
+    ],
+    "stateMutability": "nonpayable",
+    "type": "constructor"
+  },
   {
     "inputs": [],
     "name": "HandlesAlreadySavedForRequestID",
     "type": "error"
   },
+  {
+    "inputs": [],
+    "name": "InvalidKMSSignatures",
+    "type": "error"
+  },
+  {
+    "inputs": [],
+    "name": "NoHandleFoundForRequestID",
+    "type": "error"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "uint256",
+        "name": "pollId",
+        "type": "uint256"
+      }
+    ],
+    "name": "AnonymousVoteCast",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "uint256",
+        "name": "pollId",
+        "type": "uint256"
+      },
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "voter",
+        "type": "address"
+      }
+    ],
+    "name": "AnonymousVoterRegistered",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "uint256",
+        "name": "requestID",
+        "type": "uint256"
+      }
+    ],
+    "name": "DecryptionFulfilled",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "uint256",
+        "name": "pollId",
+        "type": "uint256"
+      },
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "member",
+        "type": "address"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint8",
+        "name": "approvals",
+        "type": "uint8"
+      }
+    ],
+    "name": "FinalizationApproved",
+    "type": "event"
+  },
   {
     "anonymous": false,
     "inputs": [
@@ -23,6 +114,106 @@ export const MultiChoiceVotingABI = [
     "name": "FinalizationRequested",
     "type": "event"
   },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "uint256",
+        "name": "pollId",
+        "type": "uint256"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "previousRequestId",
+        "type": "uint256"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "requestId",
+        "type": "uint256"
+      }
+    ],
+    "name": "FinalizationRetried",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "uint256",
+        "name": "pollId",
+        "type": "uint256"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint64",
+        "name": "sum",
+        "type": "uint64"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint32",
+        "name": "count",
+        "type": "uint32"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint32",
+        "name": "min",
+        "type": "uint32"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint32",
+        "name": "max",
+        "type": "uint32"
+      }
+    ],
+    "name": "NumericResultsRevealed",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "uint256",
+        "name": "pollId",
+        "type": "uint256"
+      }
+    ],
+    "name": "PollCancelled",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "uint256",
+        "name": "pollId",
+        "type": "uint256"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "turnout",
+        "type": "uint256"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint32",
+        "name": "minVoters",
+        "type": "uint32"
+      }
+    ],
+    "name": "PollClosedInsufficientTurnout",
+    "type": "event"
+  },
   {
     "anonymous": false,
     "inputs": [
@@ -77,14 +268,114 @@ export const MultiChoiceVotingABI = [
       },
       {
         "indexed": false,
-        "internalType": "uint32[]",
+        "internalType": "bool",
+        "name": "passed",
+        "type": "bool"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "turnout",
+        "type": "uint256"
+      }
+    ],
+    "name": "PollDecided",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "uint256",
+        "name": "pollId",
+        "type": "uint256"
+      },
+      {
+        "indexed": false,
+        "internalType": "string",
+        "name": "title",
+        "type": "string"
+      },
+      {
+        "indexed": false,
+        "internalType": "string[]",
+        "name": "options",
+        "type": "string[]"
+      }
+    ],
+    "name": "PollEdited",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "uint256",
+        "name": "pollId",
+        "type": "uint256"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint64",
+        "name": "endTime",
+        "type": "uint64"
+      }
+    ],
+    "name": "PollExtended",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "uint256",
+        "name": "pollId",
+        "type": "uint256"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint64[]",
         "name": "results",
-        "type": "uint32[]"
+        "type": "uint64[]"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint32",
+        "name": "invalidBallots",
+        "type": "uint32"
       }
     ],
     "name": "PollFinalized",
     "type": "event"
   },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "uint256",
+        "name": "pollId",
+        "type": "uint256"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint8",
+        "name": "winner",
+        "type": "uint8"
+      },
+      {
+        "indexed": false,
+        "internalType": "bool",
+        "name": "decisive",
+        "type": "bool"
+      }
+    ],
+    "name": "PollWinnerRevealed",
+    "type": "event"
+  },
   {
     "anonymous": false,
     "inputs": [
@@ -105,11 +396,607 @@ export const MultiChoiceVotingABI = [
     "type": "event"
   },
   {
+    "anonymous": false,
     "inputs": [
       {
-        "internalType": "string",
-        "name": "title",
-        "type": "string"
+        "indexed": true,
+        "internalType": "uint256",
+        "name": "pollId",
+        "type": "uint256"
+      },
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "voter",
+        "type": "address"
+      }
+    ],
+    "name": "VoteChanged",
+    "type": "event"
+  },
+  {
+    "inputs": [],
+    "name": "DEFAULT_DECRYPTION_TIMEOUT",
+    "outputs": [
+      {
+        "internalType": "uint64",
+        "name": "",
+        "type": "uint64"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "MAX_ANONYMOUS_VOTERS",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "pollId",
+        "type": "uint256"
+      }
+    ],
+    "name": "approveFinalization",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "pollId",
+        "type": "uint256"
+      },
+      {
+        "internalType": "address",
+        "name": "account",
+        "type": "address"
+      }
+    ],
+    "name": "canFinalize",
+    "outputs": [
+      {
+        "internalType": "bool",
+        "name": "",
+        "type": "bool"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "pollId",
+        "type": "uint256"
+      }
+    ],
+    "name": "cancelPoll",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "string",
+        "name": "title",
+        "type": "string"
+      },
+      {
+        "internalType": "string[]",
+        "name": "options",
+        "type": "string[]"
+      },
+      {
+        "internalType": "uint64",
+        "name": "startTime",
+        "type": "uint64"
+      },
+      {
+        "internalType": "uint64",
+        "name": "endTime",
+        "type": "uint64"
+      },
+      {
+        "components": [
+          {
+            "internalType": "enum MultiChoiceVoting.RevealPolicy",
+            "name": "revealPolicy",
+            "type": "uint8"
+          },
+          {
+            "internalType": "uint64",
+            "name": "revealGracePeriod",
+            "type": "uint64"
+          },
+          {
+            "internalType": "bool",
+            "name": "creatorLiveView",
+            "type": "bool"
+          },
+          {
+            "internalType": "uint32",
+            "name": "minVoters",
+            "type": "uint32"
+          },
+          {
+            "internalType": "enum MultiChoiceVoting.BallotType",
+            "name": "ballotType",
+            "type": "uint8"
+          },
+          {
+            "internalType": "uint32",
+            "name": "creditBudget",
+            "type": "uint32"
+          },
+          {
+            "internalType": "bool",
+            "name": "quadraticCost",
+            "type": "bool"
+          },
+          {
+            "internalType": "bool",
+            "name": "revotable",
+            "type": "bool"
+          },
+          {
+            "internalType": "address",
+            "name": "votingToken",
+            "type": "address"
+          },
+          {
+            "internalType": "uint64",
+            "name": "snapshotBlock",
+            "type": "uint64"
+          },
+          {
+            "internalType": "bool",
+            "name": "confidentialToken",
+            "type": "bool"
+          },
+          {
+            "internalType": "address",
+            "name": "delegationRegistry",
+            "type": "address"
+          },
+          {
+            "internalType": "bytes32",
+            "name": "allowlistRoot",
+            "type": "bytes32"
+          },
+          {
+            "internalType": "address",
+            "name": "gatingCollection",
+            "type": "address"
+          },
+          {
+            "internalType": "bool",
+            "name": "inviteOnly",
+            "type": "bool"
+          },
+          {
+            "internalType": "bool",
+            "name": "anonymousVoting",
+            "type": "bool"
+          },
+          {
+            "internalType": "uint64",
+            "name": "decryptionTimeout",
+            "type": "uint64"
+          },
+          {
+            "internalType": "address[]",
+            "name": "committee",
+            "type": "address[]"
+          },
+          {
+            "internalType": "uint8",
+            "name": "committeeThreshold",
+            "type": "uint8"
+          },
+          {
+            "internalType": "bool",
+            "name": "winnerOnly",
+            "type": "bool"
+          },
+          {
+            "internalType": "uint64",
+            "name": "winnerMargin",
+            "type": "uint64"
+          },
+          {
+            "internalType": "uint8",
+            "name": "passThreshold",
+            "type": "uint8"
+          },
+          {
+            "internalType": "uint16",
+            "name": "privacyEpsilon",
+            "type": "uint16"
+          },
+          {
+            "internalType": "uint32",
+            "name": "minValue",
+            "type": "uint32"
+          },
+          {
+            "internalType": "uint32",
+            "name": "maxValue",
+            "type": "uint32"
+          }
+        ],
+        "internalType": "struct MultiChoiceVoting.PollSettings",
+        "name": "settings",
+        "type": "tuple"
+      }
+    ],
+    "name": "createPoll",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "pollId",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "requestId",
+        "type": "uint256"
+      },
+      {
+        "internalType": "bytes",
+        "name": "cleartexts",
+        "type": "bytes"
+      },
+      {
+        "internalType": "bytes",
+        "name": "decryptionProof",
+        "type": "bytes"
+      }
+    ],
+    "name": "decryptionCallback",
+    "outputs": [
+      {
+        "internalType": "bool",
+        "name": "",
+        "type": "bool"
+      }
+    ],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "pollId",
+        "type": "uint256"
+      },
+      {
+        "internalType": "string",
+        "name": "title",
+        "type": "string"
+      },
+      {
+        "internalType": "string[]",
+        "name": "options",
+        "type": "string[]"
+      }
+    ],
+    "name": "editPoll",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "pollId",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint64",
+        "name": "newEndTime",
+        "type": "uint64"
+      }
+    ],
+    "name": "extendEndTime",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "pollId",
+        "type": "uint256"
+      }
+    ],
+    "name": "getAnonymousVoterCount",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "pollId",
+        "type": "uint256"
+      }
+    ],
+    "name": "getDecision",
+    "outputs": [
+      {
+        "internalType": "bool",
+        "name": "passed",
+        "type": "bool"
+      },
+      {
+        "internalType": "uint256",
+        "name": "turnout",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "pollId",
+        "type": "uint256"
+      }
+    ],
+    "name": "getDecryptionStatus",
+    "outputs": [
+      {
+        "internalType": "uint64",
+        "name": "requestedAt",
+        "type": "uint64"
+      },
+      {
+        "internalType": "uint64",
+        "name": "retryAfter",
+        "type": "uint64"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "pollId",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint256",
+        "name": "optionIndex",
+        "type": "uint256"
+      }
+    ],
+    "name": "getEncryptedCount",
+    "outputs": [
+      {
+        "internalType": "euint64",
+        "name": "",
+        "type": "bytes32"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "pollId",
+        "type": "uint256"
+      }
+    ],
+    "name": "getEncryptedCounts",
+    "outputs": [
+      {
+        "internalType": "bytes32[]",
+        "name": "",
+        "type": "bytes32[]"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "pollId",
+        "type": "uint256"
+      }
+    ],
+    "name": "getEncryptedInvalidCount",
+    "outputs": [
+      {
+        "internalType": "euint32",
+        "name": "",
+        "type": "bytes32"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "pollId",
+        "type": "uint256"
+      }
+    ],
+    "name": "getFinalizationApprovals",
+    "outputs": [
+      {
+        "internalType": "uint8",
+        "name": "",
+        "type": "uint8"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "pollId",
+        "type": "uint256"
+      }
+    ],
+    "name": "getMaxEndTime",
+    "outputs": [
+      {
+        "internalType": "uint64",
+        "name": "",
+        "type": "uint64"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "pollId",
+        "type": "uint256"
+      }
+    ],
+    "name": "getMyBallot",
+    "outputs": [
+      {
+        "internalType": "euint64[]",
+        "name": "amounts",
+        "type": "bytes32[]"
+      },
+      {
+        "internalType": "euint32",
+        "name": "invalidAmount",
+        "type": "bytes32"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "pollId",
+        "type": "uint256"
+      }
+    ],
+    "name": "getNoiseBound",
+    "outputs": [
+      {
+        "internalType": "uint8",
+        "name": "",
+        "type": "uint8"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "pollId",
+        "type": "uint256"
+      }
+    ],
+    "name": "getNumericResults",
+    "outputs": [
+      {
+        "internalType": "uint64",
+        "name": "sum",
+        "type": "uint64"
+      },
+      {
+        "internalType": "uint32",
+        "name": "count",
+        "type": "uint32"
+      },
+      {
+        "internalType": "uint32",
+        "name": "min",
+        "type": "uint32"
+      },
+      {
+        "internalType": "uint32",
+        "name": "max",
+        "type": "uint32"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "getPollCount",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "pollId",
+        "type": "uint256"
+      }
+    ],
+    "name": "getPollInfo",
+    "outputs": [
+      {
+        "internalType": "string",
+        "name": "title",
+        "type": "string"
       },
       {
         "internalType": "string[]",
@@ -125,38 +1012,387 @@ export const MultiChoiceVotingABI = [
         "internalType": "uint64",
         "name": "endTime",
         "type": "uint64"
+      },
+      {
+        "internalType": "address",
+        "name": "creator",
+        "type": "address"
+      },
+      {
+        "internalType": "bool",
+        "name": "finalized",
+        "type": "bool"
+      },
+      {
+        "internalType": "bool",
+        "name": "decryptionPending",
+        "type": "bool"
+      },
+      {
+        "internalType": "uint256",
+        "name": "totalVoters",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "pollId",
+        "type": "uint256"
+      }
+    ],
+    "name": "getPollSettings",
+    "outputs": [
+      {
+        "components": [
+          {
+            "internalType": "enum MultiChoiceVoting.RevealPolicy",
+            "name": "revealPolicy",
+            "type": "uint8"
+          },
+          {
+            "internalType": "uint64",
+            "name": "revealGracePeriod",
+            "type": "uint64"
+          },
+          {
+            "internalType": "bool",
+            "name": "creatorLiveView",
+            "type": "bool"
+          },
+          {
+            "internalType": "uint32",
+            "name": "minVoters",
+            "type": "uint32"
+          },
+          {
+            "internalType": "enum MultiChoiceVoting.BallotType",
+            "name": "ballotType",
+            "type": "uint8"
+          },
+          {
+            "internalType": "uint32",
+            "name": "creditBudget",
+            "type": "uint32"
+          },
+          {
+            "internalType": "bool",
+            "name": "quadraticCost",
+            "type": "bool"
+          },
+          {
+            "internalType": "bool",
+            "name": "revotable",
+            "type": "bool"
+          },
+          {
+            "internalType": "address",
+            "name": "votingToken",
+            "type": "address"
+          },
+          {
+            "internalType": "uint64",
+            "name": "snapshotBlock",
+            "type": "uint64"
+          },
+          {
+            "internalType": "bool",
+            "name": "confidentialToken",
+            "type": "bool"
+          },
+          {
+            "internalType": "address",
+            "name": "delegationRegistry",
+            "type": "address"
+          },
+          {
+            "internalType": "bytes32",
+            "name": "allowlistRoot",
+            "type": "bytes32"
+          },
+          {
+            "internalType": "address",
+            "name": "gatingCollection",
+            "type": "address"
+          },
+          {
+            "internalType": "bool",
+            "name": "inviteOnly",
+            "type": "bool"
+          },
+          {
+            "internalType": "bool",
+            "name": "anonymousVoting",
+            "type": "bool"
+          },
+          {
+            "internalType": "uint64",
+            "name": "decryptionTimeout",
+            "type": "uint64"
+          },
+          {
+            "internalType": "address[]",
+            "name": "committee",
+            "type": "address[]"
+          },
+          {
+            "internalType": "uint8",
+            "name": "committeeThreshold",
+            "type": "uint8"
+          },
+          {
+            "internalType": "bool",
+            "name": "winnerOnly",
+            "type": "bool"
+          },
+          {
+            "internalType": "uint64",
+            "name": "winnerMargin",
+            "type": "uint64"
+          },
+          {
+            "internalType": "uint8",
+            "name": "passThreshold",
+            "type": "uint8"
+          },
+          {
+            "internalType": "uint16",
+            "name": "privacyEpsilon",
+            "type": "uint16"
+          },
+          {
+            "internalType": "uint32",
+            "name": "minValue",
+            "type": "uint32"
+          },
+          {
+            "internalType": "uint32",
+            "name": "maxValue",
+            "type": "uint32"
+          }
+        ],
+        "internalType": "struct MultiChoiceVoting.PollSettings",
+        "name": "",
+        "type": "tuple"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "pollId",
+        "type": "uint256"
+      }
+    ],
+    "name": "getRankingResults",
+    "outputs": [
+      {
+        "internalType": "uint32[]",
+        "name": "",
+        "type": "uint32[]"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "pollId",
+        "type": "uint256"
+      }
+    ],
+    "name": "getRequestId",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "pollId",
+        "type": "uint256"
+      }
+    ],
+    "name": "getResults",
+    "outputs": [
+      {
+        "internalType": "uint64[]",
+        "name": "counts",
+        "type": "uint64[]"
+      },
+      {
+        "internalType": "uint32",
+        "name": "invalidBallots",
+        "type": "uint32"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "pollId",
+        "type": "uint256"
+      }
+    ],
+    "name": "getTotalVoters",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "pollId",
+        "type": "uint256"
+      }
+    ],
+    "name": "getTurnout",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "pollId",
+        "type": "uint256"
+      }
+    ],
+    "name": "getWinner",
+    "outputs": [
+      {
+        "internalType": "uint8",
+        "name": "winner",
+        "type": "uint8"
+      },
+      {
+        "internalType": "bool",
+        "name": "decisive",
+        "type": "bool"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "pollId",
+        "type": "uint256"
+      },
+      {
+        "internalType": "address",
+        "name": "member",
+        "type": "address"
+      }
+    ],
+    "name": "hasApprovedFinalization",
+    "outputs": [
+      {
+        "internalType": "bool",
+        "name": "",
+        "type": "bool"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "pollId",
+        "type": "uint256"
+      },
+      {
+        "internalType": "address",
+        "name": "user",
+        "type": "address"
+      }
+    ],
+    "name": "hasUserVoted",
+    "outputs": [
+      {
+        "internalType": "bool",
+        "name": "",
+        "type": "bool"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      },
+      {
+        "internalType": "address",
+        "name": "",
+        "type": "address"
       }
     ],
-    "name": "createPoll",
+    "name": "hasVoted",
     "outputs": [
       {
-        "internalType": "uint256",
-        "name": "pollId",
-        "type": "uint256"
+        "internalType": "bool",
+        "name": "",
+        "type": "bool"
       }
     ],
-    "stateMutability": "nonpayable",
+    "stateMutability": "view",
     "type": "function"
   },
   {
     "inputs": [
       {
         "internalType": "uint256",
-        "name": "requestId",
+        "name": "pollId",
         "type": "uint256"
       },
       {
-        "internalType": "bytes",
-        "name": "cleartexts",
-        "type": "bytes"
-      },
-      {
-        "internalType": "bytes[]",
-        "name": "signatures",
-        "type": "bytes[]"
+        "internalType": "address",
+        "name": "user",
+        "type": "address"
       }
     ],
-    "name": "decryptionCallback",
+    "name": "isAnonymousVoter",
     "outputs": [
       {
         "internalType": "bool",
@@ -164,7 +1400,7 @@ export const MultiChoiceVotingABI = [
         "type": "bool"
       }
     ],
-    "stateMutability": "nonpayable",
+    "stateMutability": "view",
     "type": "function"
   },
   {
@@ -173,19 +1409,14 @@ export const MultiChoiceVotingABI = [
         "internalType": "uint256",
         "name": "pollId",
         "type": "uint256"
-      },
-      {
-        "internalType": "uint256",
-        "name": "optionIndex",
-        "type": "uint256"
       }
     ],
-    "name": "getEncryptedCount",
+    "name": "isCancelled",
     "outputs": [
       {
-        "internalType": "euint32",
+        "internalType": "bool",
         "name": "",
-        "type": "bytes32"
+        "type": "bool"
       }
     ],
     "stateMutability": "view",
@@ -199,12 +1430,31 @@ export const MultiChoiceVotingABI = [
         "type": "uint256"
       }
     ],
-    "name": "getEncryptedCounts",
+    "name": "isInsufficientTurnout",
     "outputs": [
       {
-        "internalType": "bytes32[]",
+        "internalType": "bool",
         "name": "",
-        "type": "bytes32[]"
+        "type": "bool"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "forwarder",
+        "type": "address"
+      }
+    ],
+    "name": "isTrustedForwarder",
+    "outputs": [
+      {
+        "internalType": "bool",
+        "name": "",
+        "type": "bool"
       }
     ],
     "stateMutability": "view",
@@ -212,7 +1462,7 @@ export const MultiChoiceVotingABI = [
   },
   {
     "inputs": [],
-    "name": "getPollCount",
+    "name": "protocolId",
     "outputs": [
       {
         "internalType": "uint256",
@@ -220,7 +1470,7 @@ export const MultiChoiceVotingABI = [
         "type": "uint256"
       }
     ],
-    "stateMutability": "view",
+    "stateMutability": "pure",
     "type": "function"
   },
   {
@@ -229,52 +1479,26 @@ export const MultiChoiceVotingABI = [
         "internalType": "uint256",
         "name": "pollId",
         "type": "uint256"
-      }
-    ],
-    "name": "getPollInfo",
-    "outputs": [
-      {
-        "internalType": "string",
-        "name": "title",
-        "type": "string"
-      },
-      {
-        "internalType": "string[]",
-        "name": "options",
-        "type": "string[]"
-      },
-      {
-        "internalType": "uint64",
-        "name": "startTime",
-        "type": "uint64"
-      },
-      {
-        "internalType": "uint64",
-        "name": "endTime",
-        "type": "uint64"
-      },
-      {
-        "internalType": "address",
-        "name": "creator",
-        "type": "address"
       },
       {
-        "internalType": "bool",
-        "name": "finalized",
-        "type": "bool"
+        "internalType": "externalEuint64",
+        "name": "encryptedSecret",
+        "type": "bytes32"
       },
       {
-        "internalType": "bool",
-        "name": "decryptionPending",
-        "type": "bool"
+        "internalType": "bytes",
+        "name": "inputProof",
+        "type": "bytes"
       },
       {
-        "internalType": "uint256",
-        "name": "totalVoters",
-        "type": "uint256"
+        "internalType": "bytes",
+        "name": "eligibilityProof",
+        "type": "bytes"
       }
     ],
-    "stateMutability": "view",
+    "name": "registerAnonymous",
+    "outputs": [],
+    "stateMutability": "nonpayable",
     "type": "function"
   },
   {
@@ -285,15 +1509,22 @@ export const MultiChoiceVotingABI = [
         "type": "uint256"
       }
     ],
-    "name": "getRequestId",
-    "outputs": [
+    "name": "requestFinalization",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
       {
         "internalType": "uint256",
-        "name": "",
+        "name": "pollId",
         "type": "uint256"
       }
     ],
-    "stateMutability": "view",
+    "name": "retryFinalization",
+    "outputs": [],
+    "stateMutability": "nonpayable",
     "type": "function"
   },
   {
@@ -302,14 +1533,36 @@ export const MultiChoiceVotingABI = [
         "internalType": "uint256",
         "name": "pollId",
         "type": "uint256"
+      },
+      {
+        "internalType": "externalEuint32",
+        "name": "encryptedValue",
+        "type": "bytes32"
+      },
+      {
+        "internalType": "bytes",
+        "name": "inputProof",
+        "type": "bytes"
+      },
+      {
+        "internalType": "bytes",
+        "name": "eligibilityProof",
+        "type": "bytes"
       }
     ],
-    "name": "getResults",
+    "name": "submitValue",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "trustedForwarder",
     "outputs": [
       {
-        "internalType": "uint32[]",
+        "internalType": "address",
         "name": "",
-        "type": "uint32[]"
+        "type": "address"
       }
     ],
     "stateMutability": "view",
@@ -319,16 +1572,21 @@ export const MultiChoiceVotingABI = [
     "inputs": [
       {
         "internalType": "uint256",
-        "name": "pollId",
+        "name": "",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint256",
+        "name": "",
         "type": "uint256"
       }
     ],
-    "name": "getTotalVoters",
+    "name": "usedToken",
     "outputs": [
       {
-        "internalType": "uint256",
+        "internalType": "bool",
         "name": "",
-        "type": "uint256"
+        "type": "bool"
       }
     ],
     "stateMutability": "view",
@@ -338,16 +1596,16 @@ export const MultiChoiceVotingABI = [
     "inputs": [
       {
         "internalType": "uint256",
-        "name": "pollId",
+        "name": "",
         "type": "uint256"
       },
       {
-        "internalType": "address",
-        "name": "user",
-        "type": "address"
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
       }
     ],
-    "name": "hasUserVoted",
+    "name": "usedVoucher",
     "outputs": [
       {
         "internalType": "bool",
@@ -362,37 +1620,84 @@ export const MultiChoiceVotingABI = [
     "inputs": [
       {
         "internalType": "uint256",
-        "name": "",
+        "name": "pollId",
         "type": "uint256"
       },
       {
-        "internalType": "address",
-        "name": "",
-        "type": "address"
+        "internalType": "externalEuint32",
+        "name": "encryptedOptionIndex",
+        "type": "bytes32"
+      },
+      {
+        "internalType": "bytes",
+        "name": "inputProof",
+        "type": "bytes"
+      },
+      {
+        "internalType": "bytes",
+        "name": "eligibilityProof",
+        "type": "bytes"
       }
     ],
-    "name": "hasVoted",
-    "outputs": [
+    "name": "vote",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
       {
-        "internalType": "bool",
-        "name": "",
-        "type": "bool"
+        "internalType": "uint256",
+        "name": "pollId",
+        "type": "uint256"
+      },
+      {
+        "internalType": "externalEuint32",
+        "name": "encryptedOptionIndex",
+        "type": "bytes32"
+      },
+      {
+        "internalType": "externalEuint64",
+        "name": "encryptedSecret",
+        "type": "bytes32"
+      },
+      {
+        "internalType": "bytes",
+        "name": "inputProof",
+        "type": "bytes"
       }
     ],
-    "stateMutability": "view",
+    "name": "voteAnonymous",
+    "outputs": [],
+    "stateMutability": "nonpayable",
     "type": "function"
   },
   {
-    "inputs": [],
-    "name": "protocolId",
-    "outputs": [
+    "inputs": [
       {
         "internalType": "uint256",
-        "name": "",
+        "name": "pollId",
         "type": "uint256"
+      },
+      {
+        "internalType": "externalEbool[]",
+        "name": "encryptedApprovals",
+        "type": "bytes32[]"
+      },
+      {
+        "internalType": "bytes",
+        "name": "inputProof",
+        "type": "bytes"
+      },
+      {
+        "internalType": "bytes",
+        "name": "eligibilityProof",
+        "type": "bytes"
       }
     ],
-    "stateMutability": "pure",
+    "name": "voteApproval",
+    "outputs": [],
+    "stateMutability": "nonpayable",
     "type": "function"
   },
   {
@@ -401,9 +1706,24 @@ export const MultiChoiceVotingABI = [
         "internalType": "uint256",
         "name": "pollId",
         "type": "uint256"
+      },
+      {
+        "internalType": "externalEuint32[]",
+        "name": "encryptedPoints",
+        "type": "bytes32[]"
+      },
+      {
+        "internalType": "bytes",
+        "name": "inputProof",
+        "type": "bytes"
+      },
+      {
+        "internalType": "bytes",
+        "name": "eligibilityProof",
+        "type": "bytes"
       }
     ],
-    "name": "requestFinalization",
+    "name": "voteCumulative",
     "outputs": [],
     "stateMutability": "nonpayable",
     "type": "function"
@@ -416,17 +1736,22 @@ export const MultiChoiceVotingABI = [
         "type": "uint256"
       },
       {
-        "internalType": "externalEuint32",
-        "name": "encryptedOptionIndex",
-        "type": "bytes32"
+        "internalType": "externalEuint8[]",
+        "name": "encryptedRanks",
+        "type": "bytes32[]"
       },
       {
         "internalType": "bytes",
         "name": "inputProof",
         "type": "bytes"
+      },
+      {
+        "internalType": "bytes",
+        "name": "eligibilityProof",
+        "type": "bytes"
       }
     ],
-    "name": "vote",
+    "name": "voteRanked",
     "outputs": [],
     "stateMutability": "nonpayable",
     "type": "function"
@@ -5,6 +5,7 @@ import { useAccount, useReadContract } from "wagmi";
 import { Header } from "@/components/Header";
 import { CreatePollForm } from "@/components/CreatePollForm";
 import { PollList } from "@/components/PollList";
+import { DelegationPanel } from "@/components/DelegationPanel";
 import { useFhevmContext } from "@/hooks/useFhevmProvider";
 import { MultiChoiceVotingABI } from "@/abi/MultiChoiceVotingABI";
 import { getContractAddress } from "@/config/contract";
@@ -152,7 +153,7 @@ export default function Home() {
                   Secure, encrypted and verifiable on-chain voting
                 </h2>
                 <p className="mx-auto max-w-3xl text-base text-slate-200 sm:text-lg">
-                  Fully Homomorphic Encryption protects every ballot end-to-end. Votes stay encrypted until you authorise decryption or the Zama oracle responds. On localhost you can auto-decrypt with one click.
+                  Fully Homomorphic Encryption protects every ballot end-to-end. Votes stay encrypted until the decryption oracle reveals the final tally with KMS-signed results. On localhost a mock oracle task plays the same role.
                 </p>
                 <div className="flex flex-col items-center justify-center gap-4 sm:flex-row sm:gap-6">
                   <button
@@ -189,7 +190,10 @@ export default function Home() {
                 <CreatePollForm onSuccess={handleCreateSuccess} />
               </div>
             ) : (
-              <PollList refreshTrigger={refreshTrigger} />
+              <>
+                <DelegationPanel />
+                <PollList refreshTrigger={refreshTrigger} />
+              </>
             )}
           </div>
 
@@ -209,8 +213,8 @@ export default function Home() {
                 },
                 {
                   icon: "⚡",
-                  title: "One-click decryption",
-                  description: "Local development supports automatic decryption from the UI to speed up iteration.",
+                  title: "Verified decryption",
+                  description: "Results are only accepted with valid oracle signatures, locally and on Sepolia alike.",
                 },
               ].map((feature) => (
                 <div
@@ -5,6 +5,7 @@ import { WagmiProvider } from "wagmi";
 import { RainbowKitProvider } from "@rainbow-me/rainbowkit";
 import { config } from "@/config/wagmi";
 import { FhevmProvider } from "@/hooks/useFhevmProvider";
+import { InMemoryStorageProvider } from "@/hooks/useInMemoryStorage";
 import { ReactNode, useState } from "react";
 
 export function Providers({ children }: { children: ReactNode }) {
@@ -15,7 +16,9 @@ export function Providers({ children }: { children: ReactNode }) {
       <QueryClientProvider client={queryClient}>
         <RainbowKitProvider>
           <FhevmProvider>
-            {children}
+            <InMemoryStorageProvider>
+              {children}
+            </InMemoryStorageProvider>
           </FhevmProvider>
         </RainbowKitProvider>
       </QueryClientProvider>
@@ -1,18 +1,74 @@
 "use client";
 
 import { useState } from "react";
-import { useMultiChoiceVoting } from "@/hooks/useMultiChoiceVoting";
+import { isAddress, ZeroAddress, ZeroHash } from "ethers";
+import { BallotType, RevealPolicy, useMultiChoiceVoting } from "@/hooks/useMultiChoiceVoting";
+import { useDelegation } from "@/hooks/useDelegation";
+import { Allowlist, buildAllowlist, parseAllowlistCsv } from "@/lib/merkleAllowlist";
+
+// Options of a decision poll: the contract reads Yes, No and Abstain by position
+const DECISION_OPTIONS = ["Yes", "No", "Abstain"];
+
+const MAX_OPTIONS: Record<BallotType, number> = {
+  [BallotType.SingleChoice]: 16,
+  [BallotType.RankedChoice]: 4,
+  [BallotType.Approval]: 16,
+  [BallotType.Cumulative]: 16,
+  [BallotType.Numeric]: 0,
+};
+
+// Noising a count costs about 1.5M HCU, so a private poll's counts must fit the 20M per-transaction limit
+const MAX_PRIVATE_OPTIONS = 8;
+
+// A delegate's ballot may have to move each delegator off another ballot, at about 0.7M HCU per option each
+const MAX_DELEGATED_OPTIONS = 4;
 
 export function CreatePollForm({ onSuccess }: { onSuccess?: () => void }) {
   const [title, setTitle] = useState("");
   const [options, setOptions] = useState(["", ""]);
   const [duration, setDuration] = useState("3600"); // 1 hour default
+  const [ballotType, setBallotType] = useState<BallotType>(BallotType.SingleChoice);
+  const [creditBudget, setCreditBudget] = useState("100");
+  const [minValue, setMinValue] = useState("0");
+  const [maxValue, setMaxValue] = useState("100");
+  const [quadraticCost, setQuadraticCost] = useState(false);
+  const [revealPolicy, setRevealPolicy] = useState<RevealPolicy>(RevealPolicy.AfterEnd);
+  const [gracePeriod, setGracePeriod] = useState("3600");
+  const [decryptionTimeout, setDecryptionTimeout] = useState("0");
+  const [useCommittee, setUseCommittee] = useState(false);
+  const [committee, setCommittee] = useState("");
+  const [committeeThreshold, setCommitteeThreshold] = useState("2");
+  const [creatorLiveView, setCreatorLiveView] = useState(false);
+  const [winnerOnly, setWinnerOnly] = useState(false);
+  const [isDecision, setIsDecision] = useState(false);
+  const [passThreshold, setPassThreshold] = useState("66");
+  const [winnerMargin, setWinnerMargin] = useState("0");
+  const [noisyResults, setNoisyResults] = useState(false);
+  const [privacyEpsilon, setPrivacyEpsilon] = useState("1");
+  const [revotable, setRevotable] = useState(false);
+  const [tokenWeighted, setTokenWeighted] = useState(false);
+  const [votingToken, setVotingToken] = useState("");
+  const [snapshotBlock, setSnapshotBlock] = useState("");
+  const [confidentialToken, setConfidentialToken] = useState(false);
+  const [honourDelegations, setHonourDelegations] = useState(false);
+  const [allowlist, setAllowlist] = useState<Allowlist | null>(null);
+  const [nftGated, setNftGated] = useState(false);
+  const [gatingCollection, setGatingCollection] = useState("");
+  const [inviteOnly, setInviteOnly] = useState(false);
+  const [anonymousVoting, setAnonymousVoting] = useState(false);
+  const [registrationPeriod, setRegistrationPeriod] = useState("600");
+  const [minVoters, setMinVoters] = useState("3");
   const [error, setError] = useState<string | null>(null);
 
   const { createPoll, isLoading, isConnected } = useMultiChoiceVoting();
+  const { registryAddress } = useDelegation();
+
+  const maxOptions = MAX_OPTIONS[ballotType];
+  // Numeric polls take one number per voter instead of options, unweighted and without revotes
+  const isNumeric = ballotType === BallotType.Numeric;
 
   const handleAddOption = () => {
-    if (options.length < 16) {
+    if (options.length < maxOptions) {
       setOptions([...options, ""]);
     }
   };
@@ -29,6 +85,21 @@ export function CreatePollForm({ onSuccess }: { onSuccess?: () => void }) {
     setOptions(newOptions);
   };
 
+  // Build the allowlist in the browser from a CSV of addresses; voters need the proofs file it produces
+  const handleAllowlistCsv = async (file: File) => {
+    setError(null);
+    try {
+      setAllowlist(buildAllowlist(parseAllowlistCsv(await file.text())));
+    } catch (err) {
+      setAllowlist(null);
+      setError(err instanceof Error ? err.message : "Could not read the allowlist CSV");
+    }
+  };
+
+  const allowlistDownload = allowlist
+    ? `data:application/json;charset=utf-8,${encodeURIComponent(JSON.stringify(allowlist, null, 2))}`
+    : null;
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError(null);
@@ -43,23 +114,239 @@ export function CreatePollForm({ onSuccess }: { onSuccess?: () => void }) {
       return;
     }
 
-    const validOptions = options.filter((opt) => opt.trim() !== "");
-    if (validOptions.length < 2) {
+    // Decision polls always offer Yes, No and Abstain, in the order the contract expects
+    const decisionPoll = isDecision && ballotType === BallotType.SingleChoice;
+    const validOptions = decisionPoll
+      ? DECISION_OPTIONS
+      : isNumeric
+        ? []
+        : options.filter((opt) => opt.trim() !== "");
+    if (!isNumeric && validOptions.length < 2) {
       setError("At least 2 options are required");
       return;
     }
+    if (validOptions.length > maxOptions) {
+      setError(`This ballot type supports at most ${maxOptions} options`);
+      return;
+    }
+
+    const creditBudgetValue = ballotType === BallotType.Cumulative ? Number(creditBudget) : 0;
+    if (
+      ballotType === BallotType.Cumulative &&
+      (!Number.isInteger(creditBudgetValue) || creditBudgetValue < 1 || creditBudgetValue > 10000)
+    ) {
+      setError("Credit budget must be a whole number from 1 to 10000");
+      return;
+    }
+
+    const numericMin = isNumeric ? Number(minValue) : 0;
+    const numericMax = isNumeric ? Number(maxValue) : 0;
+    if (
+      isNumeric &&
+      !(Number.isInteger(numericMin) && Number.isInteger(numericMax) && numericMin >= 0 && numericMin < numericMax)
+    ) {
+      setError("The answer range must be whole numbers with the minimum below the maximum");
+      return;
+    }
+    if (isNumeric && (creatorLiveView || nftGated)) {
+      setError("Numeric polls cannot offer the creator live view or be NFT-gated");
+      return;
+    }
+
+    const weighted = ballotType !== BallotType.RankedChoice && !isNumeric && tokenWeighted;
+    if (weighted && !isAddress(votingToken.trim())) {
+      setError("Voting token must be a valid address");
+      return;
+    }
+    if (weighted && snapshotBlock.trim() !== "" && !/^\d+$/.test(snapshotBlock.trim())) {
+      setError("Snapshot block must be a block number");
+      return;
+    }
+    // Each ballot moves the live tally by the voter's balance, so watching it would expose every balance
+    if (weighted && confidentialToken && creatorLiveView) {
+      setError("Confidential token weights cannot be combined with the creator live view");
+      return;
+    }
+
+    // Ranked ballots carry no weight, and confidential weights must not reach a delegate's receipt
+    const delegated =
+      registryAddress !== null &&
+      honourDelegations &&
+      ballotType !== BallotType.RankedChoice &&
+      !isNumeric &&
+      !(weighted && confidentialToken);
+
+    if (nftGated && !isAddress(gatingCollection.trim())) {
+      setError("NFT collection must be a valid address");
+      return;
+    }
+    // Every token casts its own one-off ballot, so it cannot be combined with per-voter features
+    if (nftGated && ((ballotType !== BallotType.RankedChoice && revotable) || weighted || delegated || allowlist)) {
+      setError("NFT-gated polls cannot also be revotable, token-weighted, delegated or allowlisted");
+      return;
+    }
+
+    if (inviteOnly && (nftGated || allowlist)) {
+      setError("Invite-only polls cannot also be allowlisted or NFT-gated");
+      return;
+    }
+
+    // Delegators never show a proof or voucher, so a gate would not keep their weight out
+    if (delegated && (allowlist || inviteOnly)) {
+      setError("Allowlisted and invite-only polls cannot honour delegations");
+      return;
+    }
+    if (delegated && validOptions.length > MAX_DELEGATED_OPTIONS) {
+      setError(`Polls honouring delegations support at most ${MAX_DELEGATED_OPTIONS} options`);
+      return;
+    }
+
+    // Weights, delegations and revotes are tied to the voter's address, which an anonymous ballot hides
+    if (anonymousVoting && (ballotType !== BallotType.SingleChoice || revotable || weighted || delegated)) {
+      setError("Anonymous polls must be single-choice and cannot be revotable, token-weighted or delegated");
+      return;
+    }
+
+    // One address per line or comma-separated; the contract rejects duplicates
+    const committeeMembers = useCommittee
+      ? committee
+          .split(/[\s,]+/)
+          .map((member) => member.trim())
+          .filter((member) => member !== "")
+      : [];
+    const thresholdValue = useCommittee ? Number(committeeThreshold) : 0;
+    if (useCommittee) {
+      if (committeeMembers.length === 0 || committeeMembers.some((member) => !isAddress(member))) {
+        setError("Committee members must be valid addresses");
+        return;
+      }
+      if (new Set(committeeMembers.map((member) => member.toLowerCase())).size !== committeeMembers.length) {
+        setError("Committee members must be distinct");
+        return;
+      }
+      if (committeeMembers.length > 16) {
+        setError("A committee has at most 16 members");
+        return;
+      }
+      if (!Number.isInteger(thresholdValue) || thresholdValue < 1 || thresholdValue > committeeMembers.length) {
+        setError(`Required approvals must be between 1 and ${committeeMembers.length}`);
+        return;
+      }
+    }
+
+    // The ranked winner comes from a runoff over every ranking, and a live tally would expose the counts
+    const winnerOnlyPoll = winnerOnly && ballotType !== BallotType.RankedChoice && !isNumeric;
+    if (winnerOnlyPoll && creatorLiveView) {
+      setError("Winner-only polls cannot offer the creator live view");
+      return;
+    }
+    const winnerMarginValue = winnerOnlyPoll ? Number(winnerMargin) : 0;
+    if (!Number.isInteger(winnerMarginValue) || winnerMarginValue < 0) {
+      setError("Winning margin must be a whole number");
+      return;
+    }
+
+    const passThresholdValue = decisionPoll ? Number(passThreshold) : 0;
+    if (decisionPoll && (!Number.isInteger(passThresholdValue) || passThresholdValue < 1 || passThresholdValue > 100)) {
+      setError("Pass threshold must be a whole percentage between 1 and 100");
+      return;
+    }
+    if (decisionPoll && (winnerOnly || creatorLiveView)) {
+      setError("Decision polls reveal only pass or fail, so they cannot be winner-only or offer the live view");
+      return;
+    }
+
+    // Epsilon is sent in hundredths; the noise hides a ballot only if it moves each unweighted count by at most one
+    const privatePoll = noisyResults && ballotType === BallotType.SingleChoice && !decisionPoll;
+    const privacyEpsilonValue = privatePoll ? Math.round(Number(privacyEpsilon) * 100) : 0;
+    if (privatePoll && !(privacyEpsilonValue >= 100 && privacyEpsilonValue <= 1000)) {
+      setError("Privacy epsilon must be between 1 and 10");
+      return;
+    }
+    if (privatePoll && (weighted || delegated || winnerOnlyPoll || creatorLiveView)) {
+      setError("Noisy results cannot be token-weighted, delegated, winner-only or offer the live view");
+      return;
+    }
+    if (privatePoll && validOptions.length > MAX_PRIVATE_OPTIONS) {
+      setError(`Noisy results support at most ${MAX_PRIVATE_OPTIONS} options`);
+      return;
+    }
+
+    const minVotersValue = Number(minVoters);
+    if (!Number.isInteger(minVotersValue) || minVotersValue < 0) {
+      setError("Minimum voters must be a whole number");
+      return;
+    }
 
     try {
       const now = Math.floor(Date.now() / 1000);
-      const startTime = now;
-      const endTime = now + parseInt(duration);
+      // Anonymous voters register during the registration period, before voting starts
+      const startTime = anonymousVoting ? now + parseInt(registrationPeriod) : now;
+      const endTime = startTime + parseInt(duration);
 
-      await createPoll(title, validOptions, startTime, endTime);
+      await createPoll(title, validOptions, startTime, endTime, {
+        revealPolicy,
+        revealGracePeriod: revealPolicy === RevealPolicy.AnyoneAfterGrace ? parseInt(gracePeriod) : 0,
+        creatorLiveView,
+        minVoters: minVotersValue,
+        ballotType,
+        creditBudget: creditBudgetValue,
+        quadraticCost: ballotType === BallotType.Cumulative && quadraticCost,
+        revotable: ballotType !== BallotType.RankedChoice && !isNumeric && revotable,
+        votingToken: (weighted ? votingToken.trim() : ZeroAddress) as `0x${string}`,
+        snapshotBlock: weighted && snapshotBlock.trim() !== "" ? BigInt(snapshotBlock.trim()) : BigInt(0),
+        confidentialToken: weighted && confidentialToken,
+        delegationRegistry: (delegated ? registryAddress : ZeroAddress) as `0x${string}`,
+        allowlistRoot: (allowlist ? allowlist.root : ZeroHash) as `0x${string}`,
+        gatingCollection: (nftGated ? gatingCollection.trim() : ZeroAddress) as `0x${string}`,
+        inviteOnly,
+        anonymousVoting,
+        decryptionTimeout: parseInt(decryptionTimeout),
+        committee: committeeMembers as `0x${string}`[],
+        committeeThreshold: thresholdValue,
+        winnerOnly: winnerOnlyPoll,
+        winnerMargin: BigInt(winnerMarginValue),
+        passThreshold: passThresholdValue,
+        privacyEpsilon: privacyEpsilonValue,
+        minValue: numericMin,
+        maxValue: numericMax,
+      });
       
       // Reset form
       setTitle("");
       setOptions(["", ""]);
       setDuration("3600");
+      setBallotType(BallotType.SingleChoice);
+      setCreditBudget("100");
+      setMinValue("0");
+      setMaxValue("100");
+      setQuadraticCost(false);
+      setRevealPolicy(RevealPolicy.AfterEnd);
+      setGracePeriod("3600");
+      setDecryptionTimeout("0");
+      setUseCommittee(false);
+      setCommittee("");
+      setCommitteeThreshold("2");
+      setCreatorLiveView(false);
+      setWinnerOnly(false);
+      setIsDecision(false);
+      setPassThreshold("66");
+      setWinnerMargin("0");
+      setNoisyResults(false);
+      setPrivacyEpsilon("1");
+      setRevotable(false);
+      setTokenWeighted(false);
+      setVotingToken("");
+      setSnapshotBlock("");
+      setConfidentialToken(false);
+      setHonourDelegations(false);
+      setAllowlist(null);
+      setNftGated(false);
+      setGatingCollection("");
+      setInviteOnly(false);
+      setAnonymousVoting(false);
+      setRegistrationPeriod("600");
+      setMinVoters("3");
       
       if (onSuccess) onSuccess();
     } catch (err) {
@@ -88,45 +375,159 @@ export function CreatePollForm({ onSuccess }: { onSuccess?: () => void }) {
           />
         </div>
 
-        {/* Options */}
+        {/* Ballot type */}
         <div>
           <label className="mb-2 block text-sm font-semibold text-slate-600">
-            Options (2-16)
+            Ballot type
           </label>
-          <div className="space-y-2">
-            {options.map((option, index) => (
-              <div key={index} className="flex gap-2">
+          <select
+            value={ballotType}
+            onChange={(e) => setBallotType(Number(e.target.value) as BallotType)}
+            className="w-full rounded-xl border border-slate-200 bg-white px-4 py-3 text-slate-900 shadow-sm outline-none transition focus:border-emerald-400 focus:ring-4 focus:ring-emerald-300/40"
+          >
+            <option value={BallotType.SingleChoice}>Single choice</option>
+            <option value={BallotType.RankedChoice}>Ranked choice (instant runoff)</option>
+            <option value={BallotType.Approval}>Approval (pick any number)</option>
+            <option value={BallotType.Cumulative}>Cumulative (spread points)</option>
+            <option value={BallotType.Numeric}>Numeric answer (sum, mean and range)</option>
+          </select>
+          {isNumeric && (
+            <div className="mt-2 space-y-2">
+              <div className="flex items-center gap-3 text-sm text-slate-600">
+                <span>Answers from</span>
                 <input
-                  type="text"
-                  value={option}
-                  onChange={(e) => handleOptionChange(index, e.target.value)}
-                  className="flex-1 rounded-xl border border-slate-200 bg-white px-4 py-3 text-slate-900 shadow-sm outline-none transition focus:border-emerald-400 focus:ring-4 focus:ring-emerald-300/40 placeholder:text-slate-400"
-                  placeholder={`Option ${index + 1}`}
-                  maxLength={100}
+                  type="number"
+                  min={0}
+                  value={minValue}
+                  onChange={(e) => setMinValue(e.target.value)}
+                  className="w-28 rounded-xl border border-slate-200 bg-white px-3 py-2 text-slate-900 shadow-sm outline-none transition focus:border-emerald-400 focus:ring-4 focus:ring-emerald-300/40"
+                />
+                <span>to</span>
+                <input
+                  type="number"
+                  min={0}
+                  value={maxValue}
+                  onChange={(e) => setMaxValue(e.target.value)}
+                  className="w-28 rounded-xl border border-slate-200 bg-white px-3 py-2 text-slate-900 shadow-sm outline-none transition focus:border-emerald-400 focus:ring-4 focus:ring-emerald-300/40"
                 />
-                {options.length > 2 && (
-                  <button
-                    type="button"
-                    onClick={() => handleRemoveOption(index)}
-                    className="rounded-xl border border-rose-200 bg-rose-50 px-3 py-2 text-sm font-medium text-rose-500 transition hover:bg-rose-100"
-                  >
-                    Remove
-                  </button>
-                )}
               </div>
-            ))}
-          </div>
-          {options.length < 16 && (
-            <button
-              type="button"
-              onClick={handleAddOption}
-              className="mt-3 inline-flex items-center gap-2 rounded-xl border border-slate-200 bg-slate-100 px-4 py-2 text-sm font-medium text-slate-700 transition hover:border-emerald-300 hover:bg-emerald-50 hover:text-emerald-600"
-            >
-              + Add Option
-            </button>
+              <p className="text-xs text-slate-400">
+                Each voter submits one encrypted number. Answers outside the range are clamped to it, and only the
+                mean, minimum and maximum are ever revealed.
+              </p>
+            </div>
+          )}
+          {ballotType === BallotType.RankedChoice && (
+            <p className="mt-1 text-xs text-slate-400">
+              Voters rank every option. Only the number of ballots per ranking is revealed, and the winner is
+              found by instant runoff.
+            </p>
+          )}
+          {ballotType === BallotType.Cumulative && (
+            <div className="mt-2 space-y-2">
+              <input
+                type="number"
+                min={1}
+                max={10000}
+                value={creditBudget}
+                onChange={(e) => setCreditBudget(e.target.value)}
+                className="w-full rounded-xl border border-slate-200 bg-white px-4 py-3 text-slate-900 shadow-sm outline-none transition focus:border-emerald-400 focus:ring-4 focus:ring-emerald-300/40"
+                placeholder="Credits per voter"
+              />
+              <label className="flex items-center gap-2 text-sm text-slate-600">
+                <input
+                  type="checkbox"
+                  checked={quadraticCost}
+                  onChange={(e) => setQuadraticCost(e.target.checked)}
+                  className="h-4 w-4 accent-emerald-500"
+                />
+                Quadratic cost (n points on one option cost n² credits)
+              </label>
+              <p className="text-xs text-slate-400">
+                Over-budget ballots are zeroed on-chain without revealing anything about them.
+              </p>
+            </div>
+          )}
+          {ballotType === BallotType.SingleChoice && (
+            <div className="mt-2 space-y-2 rounded-xl border border-slate-200 bg-slate-50 p-4 text-sm text-slate-600">
+              <label className="flex items-start gap-3">
+                <input
+                  type="checkbox"
+                  checked={isDecision}
+                  onChange={(e) => setIsDecision(e.target.checked)}
+                  className="mt-1 h-4 w-4 accent-emerald-500"
+                />
+                <span>
+                  <span className="block font-semibold text-slate-700">Yes / No decision</span>
+                  Only whether the proposal passed is revealed, never the counts. Abstentions are left out.
+                </span>
+              </label>
+              {isDecision && (
+                <label className="flex items-center gap-3">
+                  <span>Passes with at least</span>
+                  <input
+                    type="number"
+                    min={1}
+                    max={100}
+                    value={passThreshold}
+                    onChange={(e) => setPassThreshold(e.target.value)}
+                    className="w-20 rounded-xl border border-slate-200 bg-white px-3 py-2 text-slate-900 shadow-sm outline-none transition focus:border-emerald-400 focus:ring-4 focus:ring-emerald-300/40"
+                  />
+                  <span>% Yes of the Yes and No votes</span>
+                </label>
+              )}
+            </div>
           )}
         </div>
 
+        {/* Options */}
+        {isNumeric ? null : isDecision && ballotType === BallotType.SingleChoice ? (
+          <div>
+            <label className="mb-2 block text-sm font-semibold text-slate-600">Options</label>
+            <p className="rounded-xl border border-slate-200 bg-slate-50 px-4 py-3 text-sm text-slate-600">
+              {DECISION_OPTIONS.join(" · ")}
+            </p>
+          </div>
+        ) : (
+          <div>
+            <label className="mb-2 block text-sm font-semibold text-slate-600">
+              Options (2-{maxOptions})
+            </label>
+            <div className="space-y-2">
+              {options.map((option, index) => (
+                <div key={index} className="flex gap-2">
+                  <input
+                    type="text"
+                    value={option}
+                    onChange={(e) => handleOptionChange(index, e.target.value)}
+                    className="flex-1 rounded-xl border border-slate-200 bg-white px-4 py-3 text-slate-900 shadow-sm outline-none transition focus:border-emerald-400 focus:ring-4 focus:ring-emerald-300/40 placeholder:text-slate-400"
+                    placeholder={`Option ${index + 1}`}
+                    maxLength={100}
+                  />
+                  {options.length > 2 && (
+                    <button
+                      type="button"
+                      onClick={() => handleRemoveOption(index)}
+                      className="rounded-xl border border-rose-200 bg-rose-50 px-3 py-2 text-sm font-medium text-rose-500 transition hover:bg-rose-100"
+                    >
+                      Remove
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+            {options.length < maxOptions && (
+              <button
+                type="button"
+                onClick={handleAddOption}
+                className="mt-3 inline-flex items-center gap-2 rounded-xl border border-slate-200 bg-slate-100 px-4 py-2 text-sm font-medium text-slate-700 transition hover:border-emerald-300 hover:bg-emerald-50 hover:text-emerald-600"
+              >
+                + Add Option
+              </button>
+            )}
+          </div>
+        )}
+
         {/* Duration */}
         <div>
           <label className="mb-2 block text-sm font-semibold text-slate-600">
@@ -150,6 +551,374 @@ export function CreatePollForm({ onSuccess }: { onSuccess?: () => void }) {
           </select>
         </div>
 
+        {/* Reveal policy */}
+        <div>
+          <label className="mb-2 block text-sm font-semibold text-slate-600">
+            Who can reveal results
+          </label>
+          <select
+            value={revealPolicy}
+            onChange={(e) => setRevealPolicy(Number(e.target.value) as RevealPolicy)}
+            className="w-full rounded-xl border border-slate-200 bg-white px-4 py-3 text-slate-900 shadow-sm outline-none transition focus:border-emerald-400 focus:ring-4 focus:ring-emerald-300/40"
+          >
+            <option value={RevealPolicy.AfterEnd}>Anyone, after voting ends</option>
+            <option value={RevealPolicy.CreatorEarly}>Me at any time, anyone after voting ends</option>
+            <option value={RevealPolicy.AnyoneAfterGrace}>Me after voting ends, anyone after a grace period</option>
+          </select>
+          {revealPolicy === RevealPolicy.AnyoneAfterGrace && (
+            <select
+              value={gracePeriod}
+              onChange={(e) => setGracePeriod(e.target.value)}
+              className="mt-2 w-full rounded-xl border border-slate-200 bg-white px-4 py-3 text-slate-900 shadow-sm outline-none transition focus:border-emerald-400 focus:ring-4 focus:ring-emerald-300/40"
+            >
+              <option value="60">🧪 Test: 1 minute grace</option>
+              <option value="3600">1 Hour grace</option>
+              <option value="86400">1 Day grace</option>
+              <option value="604800">1 Week grace</option>
+            </select>
+          )}
+        </div>
+
+        {/* Decryption timeout */}
+        <div>
+          <label className="mb-2 block text-sm font-semibold text-slate-600">
+            Retry a stuck reveal after
+          </label>
+          <select
+            value={decryptionTimeout}
+            onChange={(e) => setDecryptionTimeout(e.target.value)}
+            className="w-full rounded-xl border border-slate-200 bg-white px-4 py-3 text-slate-900 shadow-sm outline-none transition focus:border-emerald-400 focus:ring-4 focus:ring-emerald-300/40"
+          >
+            <option value="3600">1 Hour</option>
+            <option value="21600">6 Hours</option>
+            <option value="0">1 Day (default)</option>
+            <option value="604800">1 Week</option>
+          </select>
+          <p className="mt-1 text-xs text-slate-400">
+            If the decryption oracle hasn&apos;t answered by then, anyone can request the reveal again.
+          </p>
+        </div>
+
+        {/* Reveal committee */}
+        <div className="space-y-3 rounded-xl border border-slate-200 bg-slate-50 p-4 text-sm text-slate-600">
+          <label className="flex items-start gap-3">
+            <input
+              type="checkbox"
+              checked={useCommittee}
+              onChange={(e) => setUseCommittee(e.target.checked)}
+              className="mt-1 h-4 w-4 accent-emerald-500"
+            />
+            <span>
+              <span className="block font-semibold text-slate-700">Committee approval</span>
+              Results can only be revealed once enough committee members have approved.
+            </span>
+          </label>
+          {useCommittee && (
+            <>
+              <textarea
+                value={committee}
+                onChange={(e) => setCommittee(e.target.value)}
+                rows={3}
+                placeholder="Committee member addresses, one per line"
+                className="w-full rounded-xl border border-slate-200 bg-white px-4 py-3 font-mono text-xs text-slate-900 shadow-sm outline-none transition focus:border-emerald-400 focus:ring-4 focus:ring-emerald-300/40"
+              />
+              <label className="flex items-center gap-3">
+                <span>Approvals required</span>
+                <input
+                  type="number"
+                  min={1}
+                  value={committeeThreshold}
+                  onChange={(e) => setCommitteeThreshold(e.target.value)}
+                  className="w-24 rounded-xl border border-slate-200 bg-white px-3 py-2 text-slate-900 shadow-sm outline-none transition focus:border-emerald-400 focus:ring-4 focus:ring-emerald-300/40"
+                />
+              </label>
+            </>
+          )}
+        </div>
+
+        {/* Minimum turnout */}
+        <div>
+          <label className="mb-2 block text-sm font-semibold text-slate-600">
+            Minimum voters before reveal
+          </label>
+          <input
+            type="number"
+            min={0}
+            value={minVoters}
+            onChange={(e) => setMinVoters(e.target.value)}
+            className="w-full rounded-xl border border-slate-200 bg-white px-4 py-3 text-slate-900 shadow-sm outline-none transition focus:border-emerald-400 focus:ring-4 focus:ring-emerald-300/40"
+          />
+          <p className="mt-1 text-xs text-slate-400">
+            Below this turnout the poll closes without revealing any counts, so individual ballots can&apos;t be inferred.
+          </p>
+        </div>
+
+        {/* Tally privacy */}
+        <label className="flex items-start gap-3 rounded-xl border border-slate-200 bg-slate-50 p-4 text-sm text-slate-600">
+          <input
+            type="checkbox"
+            checked={creatorLiveView}
+            onChange={(e) => setCreatorLiveView(e.target.checked)}
+            className="mt-1 h-4 w-4 accent-emerald-500"
+          />
+          <span>
+            <span className="block font-semibold text-slate-700">Creator live view</span>
+            Let me decrypt the running tally while voting is open. Voters can never see it before the reveal.
+          </span>
+        </label>
+
+        {/* Winner-only reveal */}
+        {ballotType !== BallotType.RankedChoice && !isNumeric && (
+          <div className="space-y-3 rounded-xl border border-slate-200 bg-slate-50 p-4 text-sm text-slate-600">
+            <label className="flex items-start gap-3">
+              <input
+                type="checkbox"
+                checked={winnerOnly}
+                onChange={(e) => setWinnerOnly(e.target.checked)}
+                className="mt-1 h-4 w-4 accent-emerald-500"
+              />
+              <span>
+                <span className="block font-semibold text-slate-700">Reveal only the winner</span>
+                The winning option is found under encryption and announced alone; vote counts are never revealed.
+              </span>
+            </label>
+            {winnerOnly && (
+              <label className="flex items-center gap-3">
+                <span>Also reveal whether it wins by at least</span>
+                <input
+                  type="number"
+                  min={0}
+                  value={winnerMargin}
+                  onChange={(e) => setWinnerMargin(e.target.value)}
+                  className="w-24 rounded-xl border border-slate-200 bg-white px-3 py-2 text-slate-900 shadow-sm outline-none transition focus:border-emerald-400 focus:ring-4 focus:ring-emerald-300/40"
+                />
+                <span>votes (0 = don&apos;t)</span>
+              </label>
+            )}
+          </div>
+        )}
+
+        {/* Differentially private results */}
+        {ballotType === BallotType.SingleChoice && !isDecision && (
+          <div className="space-y-3 rounded-xl border border-slate-200 bg-slate-50 p-4 text-sm text-slate-600">
+            <label className="flex items-start gap-3">
+              <input
+                type="checkbox"
+                checked={noisyResults}
+                onChange={(e) => setNoisyResults(e.target.checked)}
+                className="mt-1 h-4 w-4 accent-emerald-500"
+              />
+              <span>
+                <span className="block font-semibold text-slate-700">Differentially private results</span>
+                Random noise is added to every count under encryption before the reveal, so the results reveal little
+                about any single ballot: changing one makes any result at most e^(2ε) times likelier, except with a
+                small chance (under 0.05%) that the noise reaches its cap. Counts are off by a few votes at most.
+              </span>
+            </label>
+            {noisyResults && (
+              <label className="flex items-center gap-3">
+                <span>Privacy budget ε</span>
+                <input
+                  type="number"
+                  min={1}
+                  max={10}
+                  step={0.01}
+                  value={privacyEpsilon}
+                  onChange={(e) => setPrivacyEpsilon(e.target.value)}
+                  className="w-24 rounded-xl border border-slate-200 bg-white px-3 py-2 text-slate-900 shadow-sm outline-none transition focus:border-emerald-400 focus:ring-4 focus:ring-emerald-300/40"
+                />
+                <span>(1 = most noise, 10 = least)</span>
+              </label>
+            )}
+          </div>
+        )}
+
+        {/* Revoting */}
+        {ballotType !== BallotType.RankedChoice && !isNumeric && (
+          <label className="flex items-start gap-3 rounded-xl border border-slate-200 bg-slate-50 p-4 text-sm text-slate-600">
+            <input
+              type="checkbox"
+              checked={revotable}
+              onChange={(e) => setRevotable(e.target.checked)}
+              className="mt-1 h-4 w-4 accent-emerald-500"
+            />
+            <span>
+              <span className="block font-semibold text-slate-700">Allow vote changes</span>
+              Voters can replace their ballot until voting ends. Only their latest ballot is counted.
+            </span>
+          </label>
+        )}
+
+        {/* Token weighting */}
+        {ballotType !== BallotType.RankedChoice && !isNumeric && (
+          <div className="space-y-3 rounded-xl border border-slate-200 bg-slate-50 p-4 text-sm text-slate-600">
+            <label className="flex items-start gap-3">
+              <input
+                type="checkbox"
+                checked={tokenWeighted}
+                onChange={(e) => setTokenWeighted(e.target.checked)}
+                className="mt-1 h-4 w-4 accent-emerald-500"
+              />
+              <span>
+                <span className="block font-semibold text-slate-700">Weight votes by token</span>
+                Each ballot counts once per whole token delegated to the voter at the snapshot block.
+              </span>
+            </label>
+            {tokenWeighted && (
+              <label className="flex items-start gap-3 pl-7">
+                <input
+                  type="checkbox"
+                  checked={confidentialToken}
+                  onChange={(e) => setConfidentialToken(e.target.checked)}
+                  className="mt-1 h-4 w-4 accent-emerald-500"
+                />
+                <span>
+                  <span className="block font-semibold text-slate-700">Confidential token</span>
+                  The token keeps balances encrypted, so each voter&apos;s weight is never revealed.
+                </span>
+              </label>
+            )}
+            {tokenWeighted && (
+              <div className="grid gap-3 sm:grid-cols-2">
+                <input
+                  type="text"
+                  value={votingToken}
+                  onChange={(e) => setVotingToken(e.target.value)}
+                  placeholder={confidentialToken ? "ConfidentialVotesToken address" : "ERC20Votes token address"}
+                  className="w-full rounded-xl border border-slate-200 bg-white px-4 py-3 font-mono text-xs text-slate-900 shadow-sm outline-none transition focus:border-emerald-400 focus:ring-4 focus:ring-emerald-300/40"
+                />
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  value={snapshotBlock}
+                  onChange={(e) => setSnapshotBlock(e.target.value)}
+                  placeholder="Snapshot block (default: latest)"
+                  className="w-full rounded-xl border border-slate-200 bg-white px-4 py-3 text-slate-900 shadow-sm outline-none transition focus:border-emerald-400 focus:ring-4 focus:ring-emerald-300/40"
+                />
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Delegation */}
+        {registryAddress &&
+          ballotType !== BallotType.RankedChoice &&
+          !isNumeric &&
+          !(tokenWeighted && confidentialToken) && (
+          <label className="flex items-start gap-3 rounded-xl border border-slate-200 bg-slate-50 p-4 text-sm text-slate-600">
+            <input
+              type="checkbox"
+              checked={honourDelegations}
+              onChange={(e) => setHonourDelegations(e.target.checked)}
+              className="mt-1 h-4 w-4 accent-emerald-500"
+            />
+            <span>
+              <span className="block font-semibold text-slate-700">Honour delegations</span>
+              A delegate&apos;s ballot also counts for everyone who delegated to them and has not voted themselves.
+            </span>
+          </label>
+        )}
+
+        {/* Allowlist */}
+        <div className="space-y-2 rounded-xl border border-slate-200 bg-slate-50 p-4 text-sm text-slate-600">
+          <span className="block font-semibold text-slate-700">Allowlist (optional)</span>
+          <p className="text-xs text-slate-400">
+            Upload a CSV with one voter address per line. Only those addresses can vote; share the proofs file with them.
+          </p>
+          <input
+            type="file"
+            accept=".csv,text/csv"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) void handleAllowlistCsv(file);
+            }}
+            className="text-xs file:mr-3 file:rounded-full file:border-0 file:bg-slate-200 file:px-3 file:py-1 file:text-slate-700"
+          />
+          {allowlist && allowlistDownload && (
+            <div className="flex flex-wrap items-center gap-3 text-xs">
+              <span>
+                {Object.keys(allowlist.proofs).length} addresses · root{" "}
+                <span className="font-mono">{allowlist.root.slice(0, 10)}…</span>
+              </span>
+              <a href={allowlistDownload} download="allowlist-proofs.json" className="font-semibold text-emerald-600">
+                Download proofs
+              </a>
+              <button type="button" onClick={() => setAllowlist(null)} className="text-rose-500">
+                Remove
+              </button>
+            </div>
+          )}
+        </div>
+
+        {/* NFT gating */}
+        <div className="space-y-3 rounded-xl border border-slate-200 bg-slate-50 p-4 text-sm text-slate-600">
+          <label className="flex items-start gap-3">
+            <input
+              type="checkbox"
+              checked={nftGated}
+              onChange={(e) => setNftGated(e.target.checked)}
+              className="mt-1 h-4 w-4 accent-emerald-500"
+            />
+            <span>
+              <span className="block font-semibold text-slate-700">NFT holders only</span>
+              Each token of an ERC-721 collection casts one ballot. A token that voted cannot vote again after a transfer.
+            </span>
+          </label>
+          {nftGated && (
+            <input
+              type="text"
+              value={gatingCollection}
+              onChange={(e) => setGatingCollection(e.target.value)}
+              placeholder="ERC-721 collection address"
+              className="w-full rounded-xl border border-slate-200 bg-white px-4 py-3 font-mono text-xs text-slate-900 shadow-sm outline-none transition focus:border-emerald-400 focus:ring-4 focus:ring-emerald-300/40"
+            />
+          )}
+        </div>
+
+        {/* Invite vouchers */}
+        <label className="flex items-start gap-3 rounded-xl border border-slate-200 bg-slate-50 p-4 text-sm text-slate-600">
+          <input
+            type="checkbox"
+            checked={inviteOnly}
+            onChange={(e) => setInviteOnly(e.target.checked)}
+            className="mt-1 h-4 w-4 accent-emerald-500"
+          />
+          <span>
+            <span className="block font-semibold text-slate-700">Invite only</span>
+            Voters need a one-time invite link signed by you. Generate them with{" "}
+            <span className="font-mono text-xs">npx hardhat task:invites</span>.
+          </span>
+        </label>
+
+        {/* Anonymous voting */}
+        <div className="space-y-3 rounded-xl border border-slate-200 bg-slate-50 p-4 text-sm text-slate-600">
+          <label className="flex items-start gap-3">
+            <input
+              type="checkbox"
+              checked={anonymousVoting}
+              onChange={(e) => setAnonymousVoting(e.target.checked)}
+              className="mt-1 h-4 w-4 accent-emerald-500"
+            />
+            <span>
+              <span className="block font-semibold text-slate-700">Anonymous voting</span>
+              Voters register a secret before voting starts and vote through the relayer, so nobody can tell who
+              voted. Single-choice only; registrations are public.
+            </span>
+          </label>
+          {anonymousVoting && (
+            <select
+              value={registrationPeriod}
+              onChange={(e) => setRegistrationPeriod(e.target.value)}
+              className="w-full rounded-xl border border-slate-200 bg-white px-4 py-3 text-slate-900 shadow-sm outline-none transition focus:border-emerald-400 focus:ring-4 focus:ring-emerald-300/40"
+            >
+              <option value="60">🧪 Test: register for 1 minute</option>
+              <option value="600">Register for 10 minutes</option>
+              <option value="3600">Register for 1 hour</option>
+              <option value="86400">Register for 1 day</option>
+            </select>
+          )}
+        </div>
+
         {/* Error message */}
         {error && (
           <div className="rounded-xl border border-rose-200 bg-rose-50 p-3 text-sm text-rose-500">
@@ -0,0 +1,116 @@
+"use client";
+
+import { useState } from "react";
+import { isAddress } from "ethers";
+import { useDelegation } from "@/hooks/useDelegation";
+
+export function DelegationPanel() {
+  const { registryAddress, currentDelegate, delegators, delegate, undelegate, isLoading, isConnected } =
+    useDelegation();
+  const [delegateInput, setDelegateInput] = useState("");
+  const [feedback, setFeedback] = useState<{ variant: "success" | "error"; message: string } | null>(null);
+
+  if (!isConnected || !registryAddress) {
+    return null;
+  }
+
+  const handleDelegate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setFeedback(null);
+
+    const to = delegateInput.trim();
+    if (!isAddress(to)) {
+      setFeedback({ variant: "error", message: "Enter a valid delegate address" });
+      return;
+    }
+
+    try {
+      await delegate(to as `0x${string}`);
+      setDelegateInput("");
+      setFeedback({ variant: "success", message: "Delegation saved" });
+    } catch (err) {
+      setFeedback({ variant: "error", message: err instanceof Error ? err.message : "Failed to delegate" });
+    }
+  };
+
+  const handleUndelegate = async () => {
+    setFeedback(null);
+    try {
+      await undelegate();
+      setFeedback({ variant: "success", message: "Delegation revoked, you vote for yourself again" });
+    } catch (err) {
+      setFeedback({ variant: "error", message: err instanceof Error ? err.message : "Failed to undelegate" });
+    }
+  };
+
+  return (
+    <div className="mb-8 rounded-2xl border border-white/10 bg-white/5 p-6 text-sm text-slate-200 shadow-lg backdrop-blur">
+      <div className="flex flex-col gap-1">
+        <h3 className="text-lg font-semibold text-slate-100">Delegation</h3>
+        <p className="text-xs text-slate-400">
+          On polls that honour delegations, your delegate&apos;s ballot carries your vote. Voting yourself always
+          overrides it.
+        </p>
+      </div>
+
+      <div className="mt-4 grid gap-4 sm:grid-cols-2">
+        <div className="rounded-xl border border-white/10 bg-white/5 p-4">
+          <span className="text-xs uppercase tracking-widest text-slate-300/70">You delegated to</span>
+          {currentDelegate ? (
+            <div className="mt-2 flex items-center justify-between gap-3">
+              <span className="truncate font-mono text-xs text-slate-100">{currentDelegate}</span>
+              <button
+                type="button"
+                onClick={handleUndelegate}
+                disabled={isLoading}
+                className="shrink-0 rounded-full border border-rose-300/40 px-3 py-1 text-xs font-medium text-rose-200 transition hover:bg-rose-500/10 disabled:cursor-not-allowed disabled:opacity-60"
+              >
+                Undelegate
+              </button>
+            </div>
+          ) : (
+            <p className="mt-2 text-slate-400">Nobody, you vote for yourself</p>
+          )}
+        </div>
+
+        <div className="rounded-xl border border-white/10 bg-white/5 p-4">
+          <span className="text-xs uppercase tracking-widest text-slate-300/70">Delegating to you</span>
+          {delegators.length > 0 ? (
+            <ul className="mt-2 space-y-1">
+              {delegators.map((delegator) => (
+                <li key={delegator} className="truncate font-mono text-xs text-slate-100">
+                  {delegator}
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="mt-2 text-slate-400">No delegators</p>
+          )}
+        </div>
+      </div>
+
+      <form onSubmit={handleDelegate} className="mt-4 flex flex-col gap-3 sm:flex-row">
+        <input
+          type="text"
+          value={delegateInput}
+          onChange={(e) => setDelegateInput(e.target.value)}
+          placeholder="Delegate address (0x...)"
+          className="w-full rounded-full border border-white/10 bg-slate-900/60 px-4 py-2 font-mono text-xs text-slate-100 outline-none transition focus:border-emerald-400 focus:ring-2 focus:ring-emerald-300/40"
+        />
+        <button
+          type="submit"
+          disabled={isLoading}
+          className="shrink-0 rounded-full bg-gradient-to-r from-emerald-400 via-sky-400 to-indigo-500 px-5 py-2 text-xs font-semibold text-slate-900 shadow-lg transition hover:-translate-y-[1px] disabled:cursor-not-allowed disabled:opacity-60"
+        >
+          {isLoading ? "Confirming..." : currentDelegate ? "Change delegate" : "Delegate"}
+        </button>
+      </form>
+
+      {feedback && (
+        <p className={`mt-3 text-xs ${feedback.variant === "success" ? "text-emerald-300" : "text-rose-300"}`}>
+          {feedback.message}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -1,9 +1,17 @@
 "use client";
 
-import { useEffect, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { useAccount, useReadContract } from "wagmi";
+import { AbiCoder, ZeroAddress, ZeroHash } from "ethers";
 import { MultiChoiceVotingABI } from "@/abi/MultiChoiceVotingABI";
-import { useMultiChoiceVoting } from "@/hooks/useMultiChoiceVoting";
+import { useAnonymousSecrets } from "@/hooks/useAnonymousSecrets";
+import { useGatingTokens } from "@/hooks/useGatingTokens";
+import { BallotType, useMultiChoiceVoting } from "@/hooks/useMultiChoiceVoting";
+import { PollCreatorMenu } from "./PollCreatorMenu";
+import { findAnonymousSecret, randomAnonymousSecret } from "@/lib/anonymousVoter";
+import { instantRunoff } from "@/lib/instantRunoff";
+import { encodeInviteVoucher, InviteVoucher, parseInviteQuery } from "@/lib/inviteVoucher";
+import { Allowlist, encodeAllowlistProof, findAllowlistProof } from "@/lib/merkleAllowlist";
 
 interface PollCardProps {
   pollId: number;
@@ -16,6 +24,10 @@ interface Feedback {
   message: string;
 }
 
+// Credits a point allocation spends under the poll's cost rule
+const allocationCost = (points: number[], quadraticCost: boolean) =>
+  points.reduce((sum, value) => sum + (quadraticCost ? value * value : value), 0);
+
 const Spinner = ({ className = "h-4 w-4" }: { className?: string }) => (
   <span
     className={`inline-flex ${className} animate-spin rounded-full border-[2px] border-current border-t-transparent`}
@@ -24,13 +36,50 @@ const Spinner = ({ className = "h-4 w-4" }: { className?: string }) => (
 
 export function PollCard({ pollId }: PollCardProps) {
   const { address, chain } = useAccount();
-  const { vote, requestFinalization, fhevmReady, contractAddress } = useMultiChoiceVoting();
+  const {
+    vote,
+    voteRanked,
+    voteCumulative,
+    submitValue,
+    registerAnonymous,
+    voteAnonymous,
+    requestFinalization,
+    retryFinalization,
+    approveFinalization,
+    decryptLiveTally,
+    decryptMyBallot,
+    fhevmReady,
+    canSponsor,
+    canRelay,
+    contractAddress,
+  } = useMultiChoiceVoting();
+  const { secrets, saveSecret, exportSecrets, importSecrets } = useAnonymousSecrets(chain?.id, contractAddress);
 
   const [selectedOption, setSelectedOption] = useState<number | null>(null);
+  const [rankingOrder, setRankingOrder] = useState<number[] | null>(null);
+  const [approvals, setApprovals] = useState<boolean[] | null>(null);
+  const [points, setPoints] = useState<number[] | null>(null);
+  const [numericAnswer, setNumericAnswer] = useState("");
   const [isVoting, setIsVoting] = useState(false);
+  const [isRegistering, setIsRegistering] = useState(false);
+  const [isChangingVote, setIsChangingVote] = useState(false);
   const [isFinalizing, setIsFinalizing] = useState(false);
   const [showResults, setShowResults] = useState(false);
+  const [liveTally, setLiveTally] = useState<{ counts: number[]; invalidBallots: number } | null>(null);
+  const [isPeeking, setIsPeeking] = useState(false);
+  const [myBallot, setMyBallot] = useState<{ amounts: number[]; invalid: boolean } | null>(null);
+  const [isVerifying, setIsVerifying] = useState(false);
   const [feedback, setFeedback] = useState<Feedback | null>(null);
+  const [eligibilityProof, setEligibilityProof] = useState<`0x${string}` | null>(null);
+  const [selectedToken, setSelectedToken] = useState<bigint | null>(null);
+  const [invite, setInvite] = useState<InviteVoucher | null>(null);
+  const [sponsored, setSponsored] = useState(false);
+
+  // Invite links carry a voucher for one poll in the page's query string
+  useEffect(() => {
+    const voucher = parseInviteQuery(window.location.search);
+    setInvite(voucher && Number(voucher.pollId) === pollId ? voucher : null);
+  }, [pollId]);
 
   useEffect(() => {
     if (!feedback) return;
@@ -66,16 +115,210 @@ export function PollCard({ pollId }: PollCardProps) {
     },
   });
 
+  const { data: canFinalizeData, refetch: refetchCanFinalize } = useReadContract({
+    address: contractAddress as `0x${string}`,
+    abi: MultiChoiceVotingABI,
+    functionName: "canFinalize",
+    args: [BigInt(pollId), address as `0x${string}`],
+    query: {
+      enabled: Boolean(address && contractAddress),
+      refetchInterval: 5000,
+    },
+  });
+
+  const { data: pollSettings } = useReadContract({
+    address: contractAddress as `0x${string}`,
+    abi: MultiChoiceVotingABI,
+    functionName: "getPollSettings",
+    args: [BigInt(pollId)],
+    query: {
+      enabled: Boolean(contractAddress),
+    },
+  });
+
+  const { data: cancelled, refetch: refetchCancelled } = useReadContract({
+    address: contractAddress as `0x${string}`,
+    abi: MultiChoiceVotingABI,
+    functionName: "isCancelled",
+    args: [BigInt(pollId)],
+    query: {
+      enabled: Boolean(contractAddress),
+      refetchInterval: 5000,
+    },
+  });
+
+  const { data: decryptionStatus } = useReadContract({
+    address: contractAddress as `0x${string}`,
+    abi: MultiChoiceVotingABI,
+    functionName: "getDecryptionStatus",
+    args: [BigInt(pollId)],
+    query: {
+      enabled: Boolean(contractAddress && pollInfo?.[6]),
+      refetchInterval: 5000,
+    },
+  });
+
+  const committee = pollSettings?.committee ?? [];
+  const committeeThreshold = Number(pollSettings?.committeeThreshold ?? 0);
+
+  const { data: committeeApprovals, refetch: refetchCommitteeApprovals } = useReadContract({
+    address: contractAddress as `0x${string}`,
+    abi: MultiChoiceVotingABI,
+    functionName: "getFinalizationApprovals",
+    args: [BigInt(pollId)],
+    query: {
+      enabled: Boolean(contractAddress) && committee.length > 0,
+      refetchInterval: 5000,
+    },
+  });
+
+  const { data: approvedByMe, refetch: refetchApprovedByMe } = useReadContract({
+    address: contractAddress as `0x${string}`,
+    abi: MultiChoiceVotingABI,
+    functionName: "hasApprovedFinalization",
+    args: [BigInt(pollId), address as `0x${string}`],
+    query: {
+      enabled: Boolean(contractAddress && address) && committee.length > 0,
+    },
+  });
+
+  const anonymousPoll = Boolean(pollSettings?.anonymousVoting);
+
+  const { data: isAnonymousVoter, refetch: refetchIsAnonymousVoter } = useReadContract({
+    address: contractAddress as `0x${string}`,
+    abi: MultiChoiceVotingABI,
+    functionName: "isAnonymousVoter",
+    args: [BigInt(pollId), address as `0x${string}`],
+    query: {
+      enabled: Boolean(address && contractAddress && anonymousPoll),
+    },
+  });
+
+  const { data: anonymousVoterCount, refetch: refetchAnonymousVoterCount } = useReadContract({
+    address: contractAddress as `0x${string}`,
+    abi: MultiChoiceVotingABI,
+    functionName: "getAnonymousVoterCount",
+    args: [BigInt(pollId)],
+    query: {
+      enabled: Boolean(contractAddress && anonymousPoll),
+    },
+  });
+
+  // Turnout as the minimum counts it: one per address, however many tokens it voted with
+  const { data: turnout } = useReadContract({
+    address: contractAddress as `0x${string}`,
+    abi: MultiChoiceVotingABI,
+    functionName: "getTurnout",
+    args: [BigInt(pollId)],
+    query: {
+      enabled: Boolean(contractAddress) && Number(pollSettings?.minVoters ?? 0) > 0,
+      refetchInterval: 5000,
+    },
+  });
+
+  const { data: insufficientTurnout } = useReadContract({
+    address: contractAddress as `0x${string}`,
+    abi: MultiChoiceVotingABI,
+    functionName: "isInsufficientTurnout",
+    args: [BigInt(pollId)],
+    query: {
+      enabled: Boolean(contractAddress && pollInfo?.[5] === true),
+    },
+  });
+
   const { data: results } = useReadContract({
     address: contractAddress as `0x${string}`,
     abi: MultiChoiceVotingABI,
     functionName: "getResults",
     args: [BigInt(pollId)],
     query: {
-      enabled: Boolean(contractAddress && pollInfo?.[5] === true),
+      enabled: Boolean(
+        contractAddress &&
+          pollInfo?.[5] === true &&
+          insufficientTurnout === false &&
+          pollSettings?.winnerOnly === false &&
+          pollSettings?.passThreshold === 0 &&
+          pollSettings?.ballotType !== BallotType.Numeric
+      ),
     },
   });
 
+  // Winner-only polls reveal the leading option instead of the counts
+  const { data: winnerResult } = useReadContract({
+    address: contractAddress as `0x${string}`,
+    abi: MultiChoiceVotingABI,
+    functionName: "getWinner",
+    args: [BigInt(pollId)],
+    query: {
+      enabled: Boolean(
+        contractAddress && pollInfo?.[5] === true && insufficientTurnout === false && pollSettings?.winnerOnly
+      ),
+    },
+  });
+
+  // Decision polls reveal only whether the proposal passed
+  const passThreshold = Number(pollSettings?.passThreshold ?? 0);
+  const { data: decision } = useReadContract({
+    address: contractAddress as `0x${string}`,
+    abi: MultiChoiceVotingABI,
+    functionName: "getDecision",
+    args: [BigInt(pollId)],
+    query: {
+      enabled: Boolean(contractAddress && pollInfo?.[5] === true && insufficientTurnout === false && passThreshold > 0),
+    },
+  });
+
+  // Differentially private polls reveal noisy counts, each within the noise bound of the true count
+  const privacyEpsilon = Number(pollSettings?.privacyEpsilon ?? 0) / 100;
+  const { data: noiseBound } = useReadContract({
+    address: contractAddress as `0x${string}`,
+    abi: MultiChoiceVotingABI,
+    functionName: "getNoiseBound",
+    args: [BigInt(pollId)],
+    query: {
+      enabled: Boolean(contractAddress && pollInfo?.[5] === true && privacyEpsilon > 0),
+    },
+  });
+
+  const gatingCollection =
+    pollSettings && pollSettings.gatingCollection !== ZeroAddress ? pollSettings.gatingCollection : null;
+  const { tokens: heldTokens, isListable, refetch: refetchHeldTokens } = useGatingTokens(
+    contractAddress,
+    pollId,
+    gatingCollection
+  );
+
+  const isRanked = pollSettings?.ballotType === BallotType.RankedChoice;
+  const isApproval = pollSettings?.ballotType === BallotType.Approval;
+  const isCumulative = pollSettings?.ballotType === BallotType.Cumulative;
+  const isNumeric = pollSettings?.ballotType === BallotType.Numeric;
+
+  // Numeric polls reveal only the aggregates of their answers
+  const { data: numericResults } = useReadContract({
+    address: contractAddress as `0x${string}`,
+    abi: MultiChoiceVotingABI,
+    functionName: "getNumericResults",
+    args: [BigInt(pollId)],
+    query: {
+      enabled: Boolean(contractAddress && isNumeric && pollInfo?.[5] === true && insufficientTurnout === false),
+    },
+  });
+
+  const { data: rankingResults } = useReadContract({
+    address: contractAddress as `0x${string}`,
+    abi: MultiChoiceVotingABI,
+    functionName: "getRankingResults",
+    args: [BigInt(pollId)],
+    query: {
+      enabled: Boolean(contractAddress && isRanked && pollInfo?.[5] === true && insufficientTurnout === false),
+    },
+  });
+
+  const runoff = useMemo(
+    () => (pollInfo && rankingResults ? instantRunoff(pollInfo[1].length, rankingResults) : null),
+    [pollInfo, rankingResults]
+  );
+
   useEffect(() => {
     console.log(`[PollCard ${pollId}] Debug:`, {
       contractAddress,
@@ -119,14 +362,71 @@ export function PollCard({ pollId }: PollCardProps) {
   const hasStarted = now >= Number(startTime);
   const hasEnded = now > Number(endTime);
   const hasVoted = Boolean(hasVotedData);
-  const canVote = hasStarted && !hasEnded && !finalized && !hasVoted;
+  // An early reveal closes voting as soon as it is requested
+  const votingOpen = hasStarted && !hasEnded && !finalized && !decryptionPending && !cancelled;
+  const votingToken = pollSettings && pollSettings.votingToken !== ZeroAddress ? pollSettings.votingToken : null;
+  const canChangeVote = votingOpen && hasVoted && Boolean(pollSettings?.revotable);
+  // On NFT-gated polls every unused token the wallet holds may still cast a ballot
+  const unusedTokens = heldTokens.filter((token) => !token.used);
+  // Anonymous ballots need the secret registered from this browser (or imported into it), and go out once
+  const mySecret = anonymousPoll ? findAnonymousSecret(secrets, pollId, address) : undefined;
+  const canRegister = anonymousPoll && !hasStarted && !cancelled && Boolean(address) && isAnonymousVoter === false;
+  const canVote = anonymousPoll
+    ? votingOpen && canRelay && Boolean(mySecret) && !mySecret?.voted
+    : gatingCollection
+      ? votingOpen && unusedTokens.length > 0
+      : votingOpen && (!hasVoted || (canChangeVote && isChangingVote));
+  // On anonymous polls the gates below admit voters at registration instead
+  const needsAdmission = anonymousPoll ? canRegister : canVote;
+  const allowlistRoot = pollSettings?.allowlistRoot;
+  const isGated = Boolean(allowlistRoot && allowlistRoot !== ZeroHash);
+  // A voucher admits its voter once; after that they may revote without it
+  const inviteOnly = Boolean(pollSettings?.inviteOnly);
+  const inviteForMe = Boolean(invite && address && invite.voter.toLowerCase() === address.toLowerCase());
+  const missingProof =
+    anonymousPoll && !canRegister
+      ? false
+      : isGated
+        ? eligibilityProof === null
+        : gatingCollection
+          ? selectedToken === null
+          : inviteOnly && !hasVoted && !inviteForMe;
+  const canFinalize = Boolean(canFinalizeData);
+  const isCreator = Boolean(address && String(creator).toLowerCase() === address.toLowerCase());
+  const canPeek = isCreator && Boolean(pollSettings?.creatorLiveView) && !finalized && !cancelled;
+  const canManage = isCreator && !finalized && !decryptionPending && cancelled === false;
+  const isCommitteeMember = Boolean(
+    address && committee.some((member) => member.toLowerCase() === address.toLowerCase())
+  );
+  const approvalCount = Number(committeeApprovals ?? 0);
+  const canApprove =
+    isCommitteeMember && approvedByMe === false && !finalized && !decryptionPending && cancelled === false;
+  const minVoters = Number(pollSettings?.minVoters ?? 0);
+  const turnoutCount = Number(turnout ?? 0);
+  const belowThreshold = turnoutCount < minVoters;
 
   const formatTime = (timestamp: bigint) =>
     new Date(Number(timestamp) * 1000).toLocaleString("en-US", {
       hour12: false,
     });
 
+  const formatElapsed = (seconds: number) => {
+    const hours = Math.floor(seconds / 3600);
+    const minutes = Math.floor((seconds % 3600) / 60);
+    return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+  };
+
+  // Anyone may re-request a decryption the oracle has not answered within the poll's timeout
+  const [decryptionRequestedAt, retryAfter] = decryptionStatus ?? [BigInt(0), BigInt(0)];
+  const canRetryDecryption = Boolean(decryptionPending) && retryAfter > BigInt(0) && now > Number(retryAfter);
+
   const statusBadge = (() => {
+    if (cancelled) {
+      return { label: "Cancelled", className: "bg-zinc-500/15 text-zinc-300 border-zinc-400/40" };
+    }
+    if (finalized && insufficientTurnout) {
+      return { label: "Insufficient turnout", className: "bg-slate-500/15 text-slate-300 border-slate-300/30" };
+    }
     if (finalized) {
       return { label: "Finalized", className: "bg-emerald-500/15 text-emerald-300 border-emerald-400/40" };
     }
@@ -142,20 +442,157 @@ export function PollCard({ pollId }: PollCardProps) {
     return { label: "Upcoming", className: "bg-slate-500/15 text-slate-200 border-slate-300/30" };
   })();
 
-  const resultValues = Array.isArray(results) ? results.map(Number) : [];
+  const [resultCounts, invalidBallots] = results ?? [[], 0];
+  const resultValues = resultCounts.map(Number);
   const maxVotes = resultValues.length > 0 ? Math.max(...resultValues, 1) : 1;
 
+  // Ranked ballots start in option order and are rearranged with the arrow buttons
+  const order = rankingOrder ?? (options as string[]).map((_, index) => index);
+  const moveRanked = (position: number, offset: number) => {
+    const next = [...order];
+    [next[position], next[position + offset]] = [next[position + offset], next[position]];
+    setRankingOrder(next);
+  };
+
+  const approved = approvals ?? (options as string[]).map(() => false);
+  const toggleApproval = (index: number) => {
+    setApprovals(approved.map((value, i) => (i === index ? !value : value)));
+  };
+
+  const allocation = points ?? (options as string[]).map(() => 0);
+  const creditBudget = Number(pollSettings?.creditBudget ?? 0);
+  const quadraticCost = Boolean(pollSettings?.quadraticCost);
+  const remainingCredits = creditBudget - allocationCost(allocation, quadraticCost);
+  const setOptionPoints = (index: number, value: string) => {
+    const parsed = Math.max(0, Math.floor(Number(value) || 0));
+    setPoints(allocation.map((current, i) => (i === index ? parsed : current)));
+  };
+
+  const needsSelection = !isRanked && !isApproval && !isCumulative && !isNumeric;
+  // Out-of-range answers are accepted and clamped by the contract; only a whole, non-negative number is required
+  const numericAnswerValid = numericAnswer.trim() !== "" && /^\d+$/.test(numericAnswer.trim());
+
+  // Look up the connected address in a proofs file written by `task:allowlist`
+  const handleProofsFile = async (file: File) => {
+    try {
+      const allowlist = JSON.parse(await file.text()) as Allowlist;
+      if (String(allowlist.root).toLowerCase() !== String(allowlistRoot).toLowerCase()) {
+        setEligibilityProof(null);
+        setFeedback({ variant: "error", message: "This proofs file is for a different allowlist." });
+        return;
+      }
+      const proof = address ? findAllowlistProof(allowlist, address) : null;
+      if (!proof) {
+        setEligibilityProof(null);
+        setFeedback({ variant: "error", message: "Your address is not on this poll's allowlist." });
+        return;
+      }
+      setEligibilityProof(encodeAllowlistProof(proof));
+      setFeedback({ variant: "success", message: "Allowlist proof loaded, you can vote." });
+    } catch (err) {
+      console.error("Failed to read proofs file:", err);
+      setEligibilityProof(null);
+      setFeedback({ variant: "error", message: "Could not read the proofs file." });
+    }
+  };
+
+  // The token, voucher or allowlist proof admitting the connected wallet, or "0x" on an open poll
+  const admissionProof = () =>
+    gatingCollection && selectedToken !== null
+      ? (AbiCoder.defaultAbiCoder().encode(["uint256"], [selectedToken]) as `0x${string}`)
+      : inviteOnly && invite && !hasVoted
+        ? encodeInviteVoucher(invite)
+        : (eligibilityProof ?? "0x");
+
+  // The secret is stored before the transaction is sent, so a registration that goes through is never lost
+  const handleRegister = async () => {
+    if (!address || missingProof) return;
+    const secret = randomAnonymousSecret();
+    try {
+      setIsRegistering(true);
+      saveSecret({ pollId, voter: address, secret: secret.toString() });
+      setFeedback({ variant: "info", message: "Registering your secret, please confirm in your wallet." });
+      await registerAnonymous(pollId, secret, admissionProof());
+      setSelectedToken(null);
+      await refetchIsAnonymousVoter();
+      await refetchAnonymousVoterCount();
+      if (gatingCollection) await refetchHeldTokens();
+      setFeedback({
+        variant: "success",
+        message: "Registered. Your secret is stored in this browser; export a backup before voting starts.",
+      });
+    } catch (err: any) {
+      console.error("Registration failed:", err);
+      setFeedback({ variant: "error", message: err?.message ?? "Registration failed. Please try again." });
+    } finally {
+      setIsRegistering(false);
+    }
+  };
+
+  const handleAnonymousVote = async () => {
+    if (!mySecret || selectedOption === null) return;
+    try {
+      setIsVoting(true);
+      setFeedback({ variant: "info", message: "Encrypting your ballot for the relayer..." });
+      await voteAnonymous(pollId, selectedOption, BigInt(mySecret.secret));
+      saveSecret({ ...mySecret, voted: true });
+      setSelectedOption(null);
+      await refetchPollInfo();
+      setFeedback({ variant: "success", message: "Anonymous ballot sent by the relayer." });
+    } catch (err: any) {
+      console.error("Anonymous vote failed:", err);
+      setFeedback({ variant: "error", message: err?.message ?? "Vote failed. Please try again." });
+    } finally {
+      setIsVoting(false);
+    }
+  };
+
+  const handleSecretsFile = async (file: File) => {
+    try {
+      const count = importSecrets(await file.text());
+      setFeedback({ variant: "success", message: `Imported ${count} secret${count === 1 ? "" : "s"}.` });
+    } catch (err) {
+      console.error("Failed to import secrets:", err);
+      setFeedback({ variant: "error", message: err instanceof Error ? err.message : "Could not read the file." });
+    }
+  };
+
   const handleVote = async () => {
-    if (selectedOption === null) return;
+    if (anonymousPoll) return handleAnonymousVote();
+    if (needsSelection && selectedOption === null) return;
+    if (isCumulative && remainingCredits < 0) return;
+    if (isNumeric && !numericAnswerValid) return;
+    if (missingProof) return;
+    const proof = admissionProof();
     try {
       setIsVoting(true);
       setFeedback({
         variant: "info",
-        message: "Submitting vote, please confirm in your wallet.",
+        message: sponsored
+          ? "Sign the vote request in your wallet; the relayer pays the gas."
+          : "Submitting vote, please confirm in your wallet.",
       });
-      await vote(pollId, selectedOption);
-      setSelectedOption(null);
+      if (isRanked) {
+        await voteRanked(pollId, order, proof, sponsored);
+        setRankingOrder(null);
+      } else if (isApproval) {
+        await vote(pollId, approved, proof, sponsored);
+        setApprovals(null);
+      } else if (isCumulative) {
+        await voteCumulative(pollId, allocation, proof, sponsored);
+        setPoints(null);
+      } else if (isNumeric) {
+        await submitValue(pollId, Number(numericAnswer.trim()), proof, sponsored);
+        setNumericAnswer("");
+      } else {
+        await vote(pollId, selectedOption as number, proof, sponsored);
+        setSelectedOption(null);
+      }
+      setIsChangingVote(false);
+      setMyBallot(null);
+      setSelectedToken(null);
       await refetchHasVoted();
+      if (gatingCollection) await refetchHeldTokens();
       await refetchPollInfo();
       setFeedback({
         variant: "success",
@@ -172,15 +609,65 @@ export function PollCard({ pollId }: PollCardProps) {
     }
   };
 
-  const handleFinalize = async () => {
-    if (!fhevmReady) {
+  const handlePeek = async () => {
+    try {
+      setIsPeeking(true);
       setFeedback({
         variant: "info",
-        message: "FHE engine is still initialising. Please try again shortly.",
+        message: "Decrypting the running tally, please sign the decryption request.",
       });
-      return;
+      setLiveTally(await decryptLiveTally(pollId));
+      setFeedback(null);
+    } catch (err: any) {
+      console.error("Live view failed:", err);
+      setFeedback({
+        variant: "error",
+        message: err?.message ?? "Live view failed. Please try again.",
+      });
+    } finally {
+      setIsPeeking(false);
+    }
+  };
+
+  const handleVerify = async () => {
+    try {
+      setIsVerifying(true);
+      setFeedback({
+        variant: "info",
+        message: "Decrypting your ballot, please sign the decryption request.",
+      });
+      setMyBallot(await decryptMyBallot(pollId));
+      setFeedback(null);
+    } catch (err: any) {
+      console.error("Ballot verification failed:", err);
+      setFeedback({
+        variant: "error",
+        message: err?.message ?? "Could not decrypt your ballot. Please try again.",
+      });
+    } finally {
+      setIsVerifying(false);
     }
+  };
+
+  // Describe a decrypted receipt in terms of the poll's ballot type
+  const receiptLines = (() => {
+    if (!myBallot) return [];
+    if (myBallot.invalid) return ["Your ballot was counted as invalid / blank."];
+    if (isNumeric) {
+      return [`Your answer, as counted: ${myBallot.amounts[0]}`];
+    }
+    const optionNames = options as string[];
+    const chosen = optionNames.filter((_, index) => myBallot.amounts[index] > 0);
+    if (isCumulative) {
+      return optionNames.map((option, index) => `${option}: ${myBallot.amounts[index]} points`);
+    }
+    if (isApproval) {
+      return [`You approved: ${chosen.join(", ")}`];
+    }
+    return [`${isRanked ? "Your first preference" : "You voted for"}: ${chosen.join(", ")}`];
+  })();
 
+  const handleFinalize = async () => {
     try {
       setIsFinalizing(true);
       setFeedback({
@@ -189,11 +676,13 @@ export function PollCard({ pollId }: PollCardProps) {
       });
       await requestFinalization(pollId);
       await refetchPollInfo();
+      await refetchCanFinalize();
       setFeedback({
         variant: "success",
-        message:
-          chain?.id === 31337
-            ? "Local auto-decryption completed. Results will refresh shortly."
+        message: belowThreshold
+          ? "Poll closed. Turnout was below the minimum, so no results were revealed."
+          : chain?.id === 31337
+            ? "Decryption request sent. Make sure `npx hardhat task:oracle --network localhost` is running."
             : "Decryption request sent. Waiting for the oracle to finish.",
       });
     } catch (err: any) {
@@ -207,6 +696,38 @@ export function PollCard({ pollId }: PollCardProps) {
     }
   };
 
+  const handleApproveFinalize = async () => {
+    try {
+      setIsFinalizing(true);
+      setFeedback({ variant: "info", message: "Submitting your approval, please confirm in your wallet." });
+      await approveFinalization(pollId);
+      await refetchCommitteeApprovals();
+      await refetchApprovedByMe();
+      await refetchCanFinalize();
+      setFeedback({ variant: "success", message: "Approval recorded." });
+    } catch (err: any) {
+      console.error("Approval failed:", err);
+      setFeedback({ variant: "error", message: err?.message ?? "Approval failed. Please try again." });
+    } finally {
+      setIsFinalizing(false);
+    }
+  };
+
+  const handleRetryFinalize = async () => {
+    try {
+      setIsFinalizing(true);
+      setFeedback({ variant: "info", message: "Requesting decryption again, please confirm in your wallet." });
+      await retryFinalization(pollId);
+      await refetchPollInfo();
+      setFeedback({ variant: "success", message: "New decryption request sent. Waiting for the oracle to finish." });
+    } catch (err: any) {
+      console.error("Retry failed:", err);
+      setFeedback({ variant: "error", message: err?.message ?? "Retry failed. Please try again." });
+    } finally {
+      setIsFinalizing(false);
+    }
+  };
+
   const feedbackClasses: Record<FeedbackVariant, string> = {
     success: "border-emerald-400/40 bg-emerald-500/10 text-emerald-100",
     error: "border-rose-500/40 bg-rose-500/10 text-rose-100",
@@ -248,40 +769,335 @@ export function PollCard({ pollId }: PollCardProps) {
         </div>
         <div className="flex items-center gap-2 text-xs text-slate-300 sm:col-span-2">
           <span className="rounded-full bg-white/10 px-2 py-1 font-medium text-slate-100">
-            Total voters: {String(voterCount)}
+            {anonymousPoll ? "Ballots received" : "Total voters"}: {String(voterCount)}
           </span>
+          {anonymousPoll && (
+            <span
+              className="rounded-full bg-violet-500/20 px-2 py-1 font-medium text-violet-100"
+              title="Registrations are public; who cast which ballot is not"
+            >
+              Anonymous · {String(anonymousVoterCount ?? 0)} registered
+            </span>
+          )}
+          {votingToken && (
+            <span
+              className="rounded-full bg-indigo-500/20 px-2 py-1 font-medium text-indigo-100"
+              title={`Weighted by ${votingToken} at block ${String(pollSettings?.snapshotBlock)}`}
+            >
+              {pollSettings?.confidentialToken ? "Private weights" : "Token-weighted"} · block{" "}
+              {String(pollSettings?.snapshotBlock)}
+            </span>
+          )}
+          {isGated && (
+            <span className="rounded-full bg-amber-500/20 px-2 py-1 font-medium text-amber-100">Allowlist only</span>
+          )}
+          {inviteOnly && (
+            <span className="rounded-full bg-amber-500/20 px-2 py-1 font-medium text-amber-100">Invite only</span>
+          )}
+          {gatingCollection && (
+            <span
+              className="rounded-full bg-fuchsia-500/20 px-2 py-1 font-medium text-fuchsia-100"
+              title={`One vote per token of ${gatingCollection}`}
+            >
+              NFT holders · 1 vote per token
+            </span>
+          )}
+          {pollSettings && pollSettings.delegationRegistry !== ZeroAddress && (
+            <span className="rounded-full bg-sky-500/20 px-2 py-1 font-medium text-sky-100">Delegation on</span>
+          )}
+          {passThreshold > 0 && (
+            <span
+              className="rounded-full bg-emerald-500/20 px-2 py-1 font-medium text-emerald-100"
+              title="Only whether Yes cleared the threshold is revealed; abstentions are left out"
+            >
+              Decision · {passThreshold}% to pass
+            </span>
+          )}
+          {isNumeric && (
+            <span
+              className="rounded-full bg-emerald-500/20 px-2 py-1 font-medium text-emerald-100"
+              title="Voters submit one encrypted number; only the mean, minimum and maximum are revealed"
+            >
+              Numeric · {pollSettings?.minValue}-{pollSettings?.maxValue}
+            </span>
+          )}
+          {privacyEpsilon > 0 && (
+            <span
+              className="rounded-full bg-emerald-500/20 px-2 py-1 font-medium text-emerald-100"
+              title="Random noise is added to every count under encryption before the reveal"
+            >
+              Noisy counts · ε = {privacyEpsilon}
+            </span>
+          )}
+          {pollSettings?.winnerOnly && (
+            <span
+              className="rounded-full bg-emerald-500/20 px-2 py-1 font-medium text-emerald-100"
+              title="Only the winning option is revealed, never the vote counts"
+            >
+              Winner only
+            </span>
+          )}
+          {committee.length > 0 && (
+            <span
+              className="rounded-full bg-amber-500/20 px-2 py-1 font-medium text-amber-100"
+              title="Committee members must approve before results can be revealed"
+            >
+              Committee {committeeThreshold}-of-{committee.length}
+            </span>
+          )}
           {decryptionPending && <span className="text-amber-200">Decryption in progress...</span>}
         </div>
+        {votingToken && pollSettings?.confidentialToken && (
+          <p className="text-xs text-indigo-100/80 sm:col-span-2">
+            Each ballot is weighted by the voter&apos;s encrypted token balance at the snapshot block. Weights are
+            added to the tally without being decrypted, so nobody can tell how much influence any voter has; only
+            the final totals are revealed.
+          </p>
+        )}
+        {minVoters > 0 && (
+          <div className="flex flex-col gap-2 text-xs text-slate-300 sm:col-span-2">
+            <div className="flex items-center justify-between">
+              <span>Turnout needed to reveal</span>
+              <span className="font-medium text-slate-100">
+                {Math.min(turnoutCount, minVoters)} / {minVoters}
+              </span>
+            </div>
+            <div className="h-1.5 w-full rounded-full bg-slate-700/50">
+              <div
+                className={`h-1.5 rounded-full transition-all ${belowThreshold ? "bg-amber-400" : "bg-emerald-400"}`}
+                style={{ width: `${Math.min((turnoutCount / minVoters) * 100, 100)}%` }}
+              />
+            </div>
+          </div>
+        )}
       </div>
 
       {/* Options / Results */}
       <div className="mt-6 space-y-3">
-        {finalized && showResults && results ? (
-          (options as string[]).map((option, index) => {
-            const count = Number(results[index] ?? 0n);
-            const percentage =
-              maxVotes > 0 ? Math.round((count / maxVotes) * 100 * 10) / 10 : 0;
+        {finalized && decision && (
+          <div
+            className={`rounded-2xl border p-4 text-center ${
+              decision[0]
+                ? "border-emerald-400/40 bg-emerald-500/15 text-emerald-100"
+                : "border-rose-400/40 bg-rose-500/15 text-rose-100"
+            }`}
+          >
+            <div className="text-lg font-semibold">{decision[0] ? "✅ Passed" : "❌ Did not pass"}</div>
+            <p className="mt-1 text-xs opacity-80">
+              {decision[0] ? "Yes reached" : "Yes fell short of"} {passThreshold}% of the Yes and No votes ·{" "}
+              {Number(decision[1])} {Number(decision[1]) === 1 ? "ballot" : "ballots"} cast. Counts stay encrypted.
+            </p>
+          </div>
+        )}
 
-            return (
+        {finalized && showResults && numericResults ? (
+          <div className="space-y-3 rounded-2xl border border-emerald-400/30 bg-emerald-500/10 p-4 text-sm text-emerald-100">
+            <div className="text-xs uppercase tracking-widest text-emerald-200/80">Result</div>
+            {numericResults[1] === 0 ? (
+              <div>No answers were submitted.</div>
+            ) : (
+              <div className="grid grid-cols-3 gap-3 text-center">
+                {[
+                  { label: "Mean", value: (Number(numericResults[0]) / numericResults[1]).toFixed(2) },
+                  { label: "Min", value: numericResults[2] },
+                  { label: "Max", value: numericResults[3] },
+                ].map(({ label, value }) => (
+                  <div key={label} className="rounded-xl border border-white/10 bg-white/5 px-3 py-2">
+                    <div className="text-xs text-emerald-200/70">{label}</div>
+                    <div className="text-lg font-semibold">{value}</div>
+                  </div>
+                ))}
+              </div>
+            )}
+            <p className="text-xs text-emerald-100/60">
+              {numericResults[1]} {numericResults[1] === 1 ? "answer" : "answers"}, clamped to{" "}
+              {pollSettings?.minValue}-{pollSettings?.maxValue}. Individual answers stay encrypted.
+            </p>
+          </div>
+        ) : finalized && showResults && winnerResult ? (
+          <div className="space-y-2 rounded-2xl border border-emerald-400/30 bg-emerald-500/10 p-4 text-sm text-emerald-100">
+            <div className="text-xs uppercase tracking-widest text-emerald-200/80">Result</div>
+            <div className="text-lg font-semibold">Winner: {(options as string[])[winnerResult[0]]}</div>
+            {Number(pollSettings?.winnerMargin ?? 0) > 0 && (
+              <p className="text-xs text-emerald-100/80">
+                {winnerResult[1]
+                  ? `Leads every other option by at least ${pollSettings?.winnerMargin} ${isCumulative ? "points" : "votes"}.`
+                  : `Leads by fewer than ${pollSettings?.winnerMargin} ${isCumulative ? "points" : "votes"}, or is tied (ties go to the first option).`}
+              </p>
+            )}
+            <p className="text-xs text-emerald-100/60">This poll reveals only the winner; vote counts stay encrypted.</p>
+          </div>
+        ) : finalized && showResults && results ? (
+          <>
+            {isRanked && (
+              <div className="text-xs uppercase tracking-widest text-slate-300/70">First preferences</div>
+            )}
+            {(options as string[]).map((option, index) => {
+              const count = resultValues[index] ?? 0;
+              const percentage =
+                maxVotes > 0 ? Math.round((count / maxVotes) * 100 * 10) / 10 : 0;
+
+              return (
+                <div
+                  key={index}
+                  className="rounded-2xl border border-white/10 bg-white/5 p-4 text-sm text-slate-100"
+                >
+                  <div className="flex items-center justify-between">
+                    <span>{option}</span>
+                    <span className="font-semibold">
+                      {noiseBound ? "≈ " : ""}
+                      {count} {isCumulative ? "points" : "votes"}
+                      {noiseBound ? ` ± ${noiseBound}` : ""} · {percentage}%
+                    </span>
+                  </div>
+                  <div className="mt-3 h-2 w-full rounded-full bg-slate-700/50">
+                    <div
+                      className="h-2 rounded-full bg-gradient-to-r from-emerald-400 via-sky-400 to-indigo-500 transition-all"
+                      style={{ width: `${Math.min(percentage, 100)}%` }}
+                    />
+                  </div>
+                </div>
+              );
+            })}
+            <div className="flex items-center justify-between rounded-2xl border border-dashed border-white/10 px-4 py-3 text-xs text-slate-300">
+              <span>Invalid / blank ballots</span>
+              <span className="font-semibold">
+                {noiseBound ? "≈ " : ""}
+                {Number(invalidBallots)}
+                {noiseBound ? ` ± ${noiseBound}` : ""}
+              </span>
+            </div>
+            {noiseBound ? (
+              <p className="text-xs text-slate-400">
+                Differentially private results (ε = {privacyEpsilon}): each count carries random noise of at most ±
+                {noiseBound}, floored at zero. Changing one ballot makes any result at most e^(2ε) times likelier,
+                except with a small chance that the noise reached its cap.
+              </p>
+            ) : null}
+            {runoff && (
+              <div className="rounded-2xl border border-sky-400/30 bg-sky-500/10 p-4 text-xs text-sky-100">
+                <div className="mb-2 uppercase tracking-widest text-sky-200/80">Instant-runoff rounds</div>
+                {runoff.rounds.map((round, roundIndex) => (
+                  <div key={roundIndex} className="border-t border-white/10 py-2 first:border-t-0">
+                    <div className="mb-1 font-semibold">Round {roundIndex + 1}</div>
+                    {(options as string[]).map((option, index) =>
+                      runoff.rounds.slice(0, roundIndex).some((earlier) => earlier.eliminated === index) ? null : (
+                        <div key={index} className="flex items-center justify-between py-0.5">
+                          <span className={round.eliminated === index ? "text-rose-200 line-through" : undefined}>
+                            {option}
+                          </span>
+                          <span className="font-semibold">{round.tallies[index]} votes</span>
+                        </div>
+                      )
+                    )}
+                  </div>
+                ))}
+                <div className="mt-2 flex items-center justify-between border-t border-white/10 pt-2 text-sm">
+                  <span>Winner</span>
+                  <span className="font-semibold text-emerald-200">
+                    {runoff.winner !== null ? (options as string[])[runoff.winner] : "No valid ballots"}
+                  </span>
+                </div>
+              </div>
+            )}
+          </>
+        ) : canVote && isRanked ? (
+          order.map((optionIndex, position) => (
+            <div
+              key={optionIndex}
+              className="flex items-center gap-3 rounded-2xl border border-white/10 bg-white/5 px-4 py-3 text-sm font-medium text-slate-200"
+            >
+              <span className="flex h-6 w-6 items-center justify-center rounded-full bg-emerald-500/20 text-xs text-emerald-200">
+                {position + 1}
+              </span>
+              <span className="flex-1">{(options as string[])[optionIndex]}</span>
+              <button
+                onClick={() => moveRanked(position, -1)}
+                disabled={position === 0}
+                aria-label="Move up"
+                className="rounded-full border border-white/10 px-2 py-1 text-xs transition hover:border-emerald-400/40 disabled:opacity-30"
+              >
+                ↑
+              </button>
+              <button
+                onClick={() => moveRanked(position, 1)}
+                disabled={position === order.length - 1}
+                aria-label="Move down"
+                className="rounded-full border border-white/10 px-2 py-1 text-xs transition hover:border-emerald-400/40 disabled:opacity-30"
+              >
+                ↓
+              </button>
+            </div>
+          ))
+        ) : canVote && isCumulative ? (
+          <>
+            {(options as string[]).map((option, index) => (
               <div
                 key={index}
-                className="rounded-2xl border border-white/10 bg-white/5 p-4 text-sm text-slate-100"
+                className="flex items-center gap-3 rounded-2xl border border-white/10 bg-white/5 px-4 py-3 text-sm font-medium text-slate-200"
               >
-                <div className="flex items-center justify-between">
-                  <span>{option}</span>
-                  <span className="font-semibold">
-                    {count} votes · {percentage}%
-                  </span>
-                </div>
-                <div className="mt-3 h-2 w-full rounded-full bg-slate-700/50">
-                  <div
-                    className="h-2 rounded-full bg-gradient-to-r from-emerald-400 via-sky-400 to-indigo-500 transition-all"
-                    style={{ width: `${Math.min(percentage, 100)}%` }}
-                  />
-                </div>
+                <span className="flex-1">{option}</span>
+                <input
+                  type="number"
+                  min={0}
+                  value={allocation[index]}
+                  onChange={(e) => setOptionPoints(index, e.target.value)}
+                  className="w-20 rounded-xl border border-white/10 bg-slate-900/40 px-3 py-1 text-right text-slate-100 outline-none focus:border-emerald-400/60"
+                />
+                <span className="w-16 text-right text-xs text-slate-400">
+                  {quadraticCost ? `${allocation[index] * allocation[index]} cr` : "pts"}
+                </span>
               </div>
-            );
-          })
+            ))}
+            <div
+              className={`flex items-center justify-between rounded-2xl border border-dashed px-4 py-3 text-xs ${
+                remainingCredits < 0 ? "border-rose-400/40 text-rose-200" : "border-white/10 text-slate-300"
+              }`}
+            >
+              <span>Remaining credits{quadraticCost ? " (quadratic cost)" : ""}</span>
+              <span className="font-semibold">
+                {remainingCredits} / {creditBudget}
+              </span>
+            </div>
+          </>
+        ) : canVote && isNumeric ? (
+          <div className="space-y-2 rounded-2xl border border-white/10 bg-white/5 px-4 py-3 text-sm text-slate-200">
+            <label className="flex items-center gap-3">
+              <span className="flex-1">Your answer</span>
+              <input
+                type="number"
+                min={0}
+                step={1}
+                value={numericAnswer}
+                onChange={(e) => setNumericAnswer(e.target.value)}
+                placeholder={`${pollSettings?.minValue}-${pollSettings?.maxValue}`}
+                className="w-32 rounded-xl border border-white/10 bg-slate-900/40 px-3 py-1 text-right text-slate-100 outline-none focus:border-emerald-400/60"
+              />
+            </label>
+            <p className="text-xs text-slate-400">
+              Encrypted in your browser. Answers outside {pollSettings?.minValue}-{pollSettings?.maxValue} count as
+              the nearest bound.
+            </p>
+          </div>
+        ) : canVote && isApproval ? (
+          (options as string[]).map((option, index) => (
+            <label
+              key={index}
+              className={`flex w-full cursor-pointer items-center gap-3 rounded-2xl border px-4 py-3 text-left text-sm font-medium transition-all duration-200 ${
+                approved[index]
+                  ? "border-emerald-400/60 bg-emerald-500/20 text-emerald-50"
+                  : "border-white/10 bg-white/5 text-slate-200 hover:border-emerald-400/40 hover:bg-emerald-500/10"
+              }`}
+            >
+              <input
+                type="checkbox"
+                checked={approved[index]}
+                onChange={() => toggleApproval(index)}
+                className="h-4 w-4 accent-emerald-500"
+              />
+              <span>{option}</span>
+            </label>
+          ))
         ) : canVote ? (
           (options as string[]).map((option, index) => {
             const isSelected = selectedOption === index;
@@ -314,6 +1130,23 @@ export function PollCard({ pollId }: PollCardProps) {
         )}
       </div>
 
+      {/* Creator live view */}
+      {canPeek && liveTally && (
+        <div className="mt-4 rounded-2xl border border-indigo-400/30 bg-indigo-500/10 p-4 text-xs text-indigo-100">
+          <div className="mb-2 uppercase tracking-widest text-indigo-200/80">Creator live view</div>
+          {(options as string[]).map((option, index) => (
+            <div key={index} className="flex items-center justify-between py-1">
+              <span>{option}</span>
+              <span className="font-semibold">{liveTally.counts[index] ?? 0} votes</span>
+            </div>
+          ))}
+          <div className="flex items-center justify-between py-1 text-indigo-200/80">
+            <span>Invalid / blank ballots</span>
+            <span className="font-semibold">{liveTally.invalidBallots}</span>
+          </div>
+        </div>
+      )}
+
       {/* Actions */}
       <div className="mt-6 space-y-3">
         {feedback && (
@@ -327,10 +1160,151 @@ export function PollCard({ pollId }: PollCardProps) {
           </div>
         )}
 
+        {needsAdmission && isGated && (
+          <label className="flex flex-col gap-2 rounded-2xl border border-white/10 bg-white/5 px-4 py-3 text-xs text-slate-300">
+            <span>
+              Only allowlisted addresses may vote.{" "}
+              {eligibilityProof ? "Your proof is loaded." : "Load the proofs file shared by the poll creator."}
+            </span>
+            <input
+              type="file"
+              accept="application/json,.json"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) void handleProofsFile(file);
+              }}
+              className="text-xs text-slate-300 file:mr-3 file:rounded-full file:border-0 file:bg-white/10 file:px-3 file:py-1 file:text-slate-100"
+            />
+          </label>
+        )}
+
+        {needsAdmission && inviteOnly && !hasVoted && (
+          <div className="rounded-2xl border border-white/10 bg-white/5 px-4 py-3 text-xs text-slate-300">
+            {inviteForMe
+              ? "Your invite is loaded, you can vote."
+              : invite
+                ? `This invite is for ${invite.voter}. Connect that wallet to vote.`
+                : "Only invited addresses may vote. Open the invite link the poll creator sent you."}
+          </div>
+        )}
+
+        {gatingCollection && (anonymousPoll ? canRegister : votingOpen) && (
+          <div className="flex flex-col gap-2 rounded-2xl border border-white/10 bg-white/5 px-4 py-3 text-xs text-slate-300">
+            {!isListable ? (
+              <span>This collection does not list tokens by owner, so your tokens cannot be shown.</span>
+            ) : heldTokens.length === 0 ? (
+              <span>You hold no tokens of this poll&apos;s collection.</span>
+            ) : (
+              <>
+                <span>Each of your tokens casts its own ballot. Pick the token to vote with:</span>
+                <div className="flex flex-wrap gap-2">
+                  {heldTokens.map(({ tokenId, used }) => (
+                    <button
+                      key={tokenId.toString()}
+                      type="button"
+                      disabled={used}
+                      onClick={() => setSelectedToken(tokenId)}
+                      className={`rounded-full border px-3 py-1 font-mono transition disabled:cursor-not-allowed disabled:opacity-50 ${
+                        selectedToken === tokenId
+                          ? "border-emerald-400 bg-emerald-500/20 text-emerald-100"
+                          : "border-white/15 bg-white/5 text-slate-200 hover:border-emerald-300/60"
+                      }`}
+                    >
+                      #{tokenId.toString()}
+                      {used ? " · voted" : ""}
+                    </button>
+                  ))}
+                </div>
+              </>
+            )}
+          </div>
+        )}
+
+        {anonymousPoll && address && !finalized && !cancelled && (
+          <div className="flex flex-col gap-3 rounded-2xl border border-violet-400/30 bg-violet-500/10 px-4 py-3 text-xs text-violet-100">
+            <span>
+              {!hasStarted
+                ? isAnonymousVoter
+                  ? mySecret
+                    ? "You are registered. Your secret is stored in this browser; export a backup to vote elsewhere."
+                    : "You are registered, but your secret is not in this browser. Import your backup to vote."
+                  : "Register a secret before voting starts. The relayer sends your ballot, so nobody can tell whether or how you voted."
+                : mySecret?.voted
+                  ? "Your anonymous ballot was sent."
+                  : !mySecret
+                    ? "No secret for this poll is stored in this browser. Import your backup to vote."
+                    : !canRelay
+                      ? "Anonymous ballots need a relayer, and none is configured for this network."
+                      : votingOpen
+                        ? "Pick an option; the relayer sends your ballot from its own address."
+                        : "Voting has ended."}
+            </span>
+            {canRegister && (
+              <button
+                onClick={handleRegister}
+                disabled={missingProof || isRegistering || !fhevmReady}
+                className="flex w-full items-center justify-center gap-2 rounded-full border border-violet-300/40 bg-violet-500/20 px-6 py-2 text-sm font-semibold text-violet-50 transition hover:bg-violet-500/30 disabled:cursor-not-allowed disabled:opacity-60"
+              >
+                {isRegistering ? (
+                  <>
+                    <Spinner className="h-4 w-4 border-violet-100" />
+                    Registering...
+                  </>
+                ) : (
+                  "Register to vote anonymously"
+                )}
+              </button>
+            )}
+            <div className="flex flex-wrap gap-2">
+              <a
+                href={`data:application/json;charset=utf-8,${encodeURIComponent(exportSecrets())}`}
+                download="anonymous-secrets.json"
+                className="rounded-full border border-violet-300/40 px-3 py-1 font-medium transition hover:bg-violet-500/20"
+              >
+                Export secrets
+              </a>
+              <label className="cursor-pointer rounded-full border border-violet-300/40 px-3 py-1 font-medium transition hover:bg-violet-500/20">
+                Import secrets
+                <input
+                  type="file"
+                  accept="application/json,.json"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) void handleSecretsFile(file);
+                  }}
+                  className="hidden"
+                />
+              </label>
+            </div>
+          </div>
+        )}
+
+        {canVote && canSponsor && !anonymousPoll && (
+          <label className="flex items-center gap-3 rounded-2xl border border-white/10 bg-white/5 px-4 py-3 text-xs text-slate-300">
+            <input
+              type="checkbox"
+              checked={sponsored}
+              onChange={(e) => setSponsored(e.target.checked)}
+              className="h-4 w-4 accent-emerald-400"
+            />
+            <span>
+              <span className="font-semibold text-slate-100">Sponsored vote</span> · sign instead of sending a
+              transaction; the relayer pays the gas
+            </span>
+          </label>
+        )}
+
         {canVote && (
           <button
             onClick={handleVote}
-            disabled={selectedOption === null || isVoting || !fhevmReady}
+            disabled={
+              (needsSelection && selectedOption === null) ||
+              (isCumulative && remainingCredits < 0) ||
+              (isNumeric && !numericAnswerValid) ||
+              missingProof ||
+              isVoting ||
+              !fhevmReady
+            }
             className="flex w-full items-center justify-center gap-2 rounded-full bg-gradient-to-r from-emerald-400 via-sky-400 to-indigo-500 px-6 py-3 text-sm font-semibold text-slate-900 shadow-lg shadow-emerald-500/30 transition-all duration-200 hover:-translate-y-[2px] focus:outline-none focus-visible:ring-2 focus-visible:ring-emerald-300 disabled:cursor-not-allowed disabled:opacity-60 disabled:shadow-none"
           >
             {isVoting ? (
@@ -343,43 +1317,188 @@ export function PollCard({ pollId }: PollCardProps) {
                 <Spinner className="h-4 w-4 border-slate-900" />
                 FHE engine warming up...
               </>
+            ) : isRanked ? (
+              "Submit ranking"
+            ) : isApproval ? (
+              `Submit approvals (${approved.filter(Boolean).length} selected)`
+            ) : isCumulative ? (
+              remainingCredits < 0 ? "Over budget" : "Submit points"
+            ) : isNumeric ? (
+              "Submit answer"
+            ) : anonymousPoll ? (
+              "Submit anonymous vote"
             ) : (
               "Submit vote"
             )}
           </button>
         )}
 
-        {hasVoted && !finalized && (
+        {hasVoted && !finalized && !canVote && (
           <div className="flex items-center justify-center rounded-full border border-emerald-400/30 bg-emerald-500/10 px-4 py-3 text-xs font-medium text-emerald-200">
             ✓ Vote recorded
           </div>
         )}
 
-        {!finalized && (
+        {hasVoted && myBallot && (
+          <div className="rounded-2xl border border-emerald-400/30 bg-emerald-500/10 p-4 text-xs text-emerald-100">
+            <div className="mb-2 uppercase tracking-widest text-emerald-200/80">Your ballot</div>
+            {receiptLines.map((line, index) => (
+              <div key={index} className="py-0.5">
+                {line}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {hasVoted && (
+          <button
+            onClick={handleVerify}
+            disabled={isVerifying || !fhevmReady}
+            title="Privately decrypt the ballot the contract counted for you."
+            className="flex w-full items-center justify-center gap-2 rounded-full border border-white/15 bg-white/5 px-6 py-3 text-sm font-semibold text-slate-200 transition-all duration-200 hover:border-emerald-300/60 hover:bg-emerald-500/10 disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            {isVerifying ? (
+              <>
+                <Spinner className="h-4 w-4 border-slate-200" />
+                Decrypting...
+              </>
+            ) : (
+              "🔍 Verify my vote"
+            )}
+          </button>
+        )}
+
+        {canChangeVote && (
+          <button
+            onClick={() => setIsChangingVote((prev) => !prev)}
+            disabled={isVoting}
+            className="flex w-full items-center justify-center gap-2 rounded-full border border-white/15 bg-white/5 px-6 py-3 text-sm font-semibold text-slate-200 transition-all duration-200 hover:border-emerald-300/60 hover:bg-emerald-500/10 disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            {isChangingVote ? "Keep my current vote" : "✎ Change my vote"}
+          </button>
+        )}
+
+        {canPeek && (
+          <button
+            onClick={handlePeek}
+            disabled={isPeeking || !fhevmReady}
+            className="flex w-full items-center justify-center gap-2 rounded-full border border-indigo-400/40 bg-indigo-500/20 px-6 py-3 text-sm font-semibold text-indigo-100 transition-all duration-200 hover:border-indigo-300/80 hover:bg-indigo-500/30 disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            {isPeeking ? (
+              <>
+                <Spinner className="h-4 w-4 border-indigo-200" />
+                Decrypting...
+              </>
+            ) : liveTally ? (
+              "👁 Refresh live tally"
+            ) : (
+              "👁 Creator live view"
+            )}
+          </button>
+        )}
+
+        {canManage && (
+          <PollCreatorMenu
+            pollId={pollId}
+            title={String(title)}
+            options={options as string[]}
+            numeric={isNumeric}
+            startTime={Number(startTime)}
+            endTime={Number(endTime)}
+            voterCount={Number(voterCount)}
+            onChanged={async (message) => {
+              await refetchPollInfo();
+              await refetchCancelled();
+              await refetchCanFinalize();
+              setFeedback({ variant: "success", message });
+            }}
+            onError={(message) => setFeedback({ variant: "error", message })}
+          />
+        )}
+
+        {cancelled && (
+          <div className="flex items-center justify-center rounded-full border border-zinc-400/30 bg-zinc-500/10 px-4 py-3 text-xs font-medium text-zinc-300">
+            The creator cancelled this poll. Its ballots will never be revealed.
+          </div>
+        )}
+
+        {committee.length > 0 && !finalized && !cancelled && (
+          <div className="space-y-2 rounded-2xl border border-amber-300/30 bg-amber-500/10 p-4 text-xs text-amber-100">
+            <div className="flex items-center justify-between">
+              <span className="uppercase tracking-widest text-amber-100/70">Reveal approvals</span>
+              <span className="font-semibold">
+                {Math.min(approvalCount, committeeThreshold)} / {committeeThreshold}
+              </span>
+            </div>
+            <div className="h-1.5 overflow-hidden rounded-full bg-amber-100/10">
+              <div
+                className="h-full rounded-full bg-amber-300/80 transition-all"
+                style={{ width: `${(Math.min(approvalCount, committeeThreshold) / committeeThreshold) * 100}%` }}
+              />
+            </div>
+            {canApprove ? (
+              <button
+                onClick={handleApproveFinalize}
+                disabled={isFinalizing}
+                className="w-full rounded-full border border-amber-300/50 px-4 py-2 font-semibold transition hover:bg-amber-500/20 disabled:cursor-not-allowed disabled:opacity-60"
+              >
+                ✓ Approve the reveal as a committee member
+              </button>
+            ) : (
+              isCommitteeMember && approvedByMe && <p className="text-amber-100/70">You have approved the reveal.</p>
+            )}
+          </div>
+        )}
+
+        {(canFinalize || decryptionPending) && (
           <button
             onClick={handleFinalize}
-            disabled={isFinalizing || !fhevmReady}
-            title={
-              fhevmReady
-                ? "Trigger auto-decryption (localhost completes instantly)."
-                : "The FHE engine is still preparing. Please wait a moment."
-            }
+            disabled={isFinalizing || decryptionPending}
+            title="Ask the decryption oracle to reveal the final tally."
             className="flex w-full items-center justify-center gap-2 rounded-full border border-amber-400/40 bg-amber-500/20 px-6 py-3 text-sm font-semibold text-amber-100 transition-all duration-200 hover:border-amber-300/80 hover:bg-amber-500/30 disabled:cursor-not-allowed disabled:opacity-60"
           >
             {isFinalizing ? (
               <>
                 <Spinner className="h-4 w-4 border-amber-200" />
-                Decrypting...
+                Requesting...
               </>
-            ) : fhevmReady ? (
-              "🔓 Decrypt and reveal results"
+            ) : decryptionPending ? (
+              "⏳ Waiting for decryption oracle"
+            ) : belowThreshold ? (
+              "🔒 Close poll (insufficient turnout)"
             ) : (
-              "⏳ Waiting for FHE engine"
+              "🔓 Decrypt and reveal results"
             )}
           </button>
         )}
 
-        {finalized && (
+        {decryptionPending && decryptionRequestedAt > BigInt(0) && (
+          <div className="space-y-2 rounded-2xl border border-amber-300/30 bg-amber-500/10 p-4 text-xs text-amber-100">
+            <p>Decryption requested {formatElapsed(Math.max(now - Number(decryptionRequestedAt), 0))} ago.</p>
+            {canRetryDecryption ? (
+              <button
+                onClick={handleRetryFinalize}
+                disabled={isFinalizing}
+                className="w-full rounded-full border border-amber-300/50 px-4 py-2 font-semibold transition hover:bg-amber-500/20 disabled:cursor-not-allowed disabled:opacity-60"
+              >
+                ↻ Oracle timed out: request decryption again
+              </button>
+            ) : (
+              <p className="text-amber-100/70">
+                If the oracle hasn&apos;t answered in {formatElapsed(Number(retryAfter) - now)}, anyone can request it
+                again.
+              </p>
+            )}
+          </div>
+        )}
+
+        {finalized && insufficientTurnout && (
+          <div className="flex items-center justify-center rounded-full border border-slate-400/30 bg-slate-500/10 px-4 py-3 text-xs font-medium text-slate-300">
+            Fewer than {minVoters} people voted, so no results were revealed.
+          </div>
+        )}
+
+        {finalized && insufficientTurnout === false && passThreshold === 0 && (
           <button
             onClick={() => setShowResults((prev) => !prev)}
             className="flex w-full items-center justify-center gap-2 rounded-full border border-emerald-400/40 bg-emerald-500/20 px-6 py-3 text-sm font-semibold text-emerald-100 transition-all duration-200 hover:border-emerald-300/80 hover:bg-emerald-500/30"
@@ -0,0 +1,184 @@
+"use client";
+
+import { useState } from "react";
+import { useReadContract } from "wagmi";
+import { MultiChoiceVotingABI } from "@/abi/MultiChoiceVotingABI";
+import { useMultiChoiceVoting } from "@/hooks/useMultiChoiceVoting";
+
+interface PollCreatorMenuProps {
+  pollId: number;
+  title: string;
+  options: string[];
+  numeric: boolean; // numeric polls have no options to edit
+  startTime: number;
+  endTime: number;
+  voterCount: number;
+  onChanged: (message: string) => void;
+  onError: (message: string) => void;
+}
+
+const EXTENSIONS = [
+  { label: "+1 hour", seconds: 3600 },
+  { label: "+1 day", seconds: 86400 },
+  { label: "+1 week", seconds: 604800 },
+];
+
+// Creator-only actions on a poll that is neither finalized nor cancelled: edit before it starts, extend before it
+// ends, cancel at any time
+export function PollCreatorMenu({
+  pollId,
+  title,
+  options,
+  numeric,
+  startTime,
+  endTime,
+  voterCount,
+  onChanged,
+  onError,
+}: PollCreatorMenuProps) {
+  const { cancelPoll, extendEndTime, editPoll, contractAddress, isLoading } = useMultiChoiceVoting();
+  const [isOpen, setIsOpen] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [draftTitle, setDraftTitle] = useState(title);
+  const [draftOptions, setDraftOptions] = useState(options.join("\n"));
+
+  const { data: maxEndTime } = useReadContract({
+    address: contractAddress as `0x${string}`,
+    abi: MultiChoiceVotingABI,
+    functionName: "getMaxEndTime",
+    args: [BigInt(pollId)],
+    query: {
+      enabled: Boolean(contractAddress && isOpen),
+    },
+  });
+
+  const now = Math.floor(Date.now() / 1000);
+  const canEdit = now < startTime && voterCount === 0;
+  const canExtend = now <= endTime;
+  const extensions = EXTENSIONS.filter(({ seconds }) => maxEndTime !== undefined && endTime + seconds <= maxEndTime);
+
+  const run = async (action: () => Promise<unknown>, message: string) => {
+    try {
+      await action();
+      onChanged(message);
+      return true;
+    } catch (err) {
+      onError(err instanceof Error ? err.message : "Transaction failed");
+      return false;
+    }
+  };
+
+  const handleEdit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const nextOptions = draftOptions
+      .split("\n")
+      .map((option) => option.trim())
+      .filter((option) => option !== "");
+    if (!draftTitle.trim() || (!numeric && nextOptions.length < 2)) {
+      onError(numeric ? "A title is required" : "A title and at least 2 options are required");
+      return;
+    }
+    if (await run(() => editPoll(pollId, draftTitle.trim(), nextOptions), "Poll updated.")) {
+      setIsEditing(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!window.confirm("Cancel this poll? Ballots already cast will never be revealed.")) return;
+    await run(() => cancelPoll(pollId), "Poll cancelled.");
+  };
+
+  if (!isOpen) {
+    return (
+      <button
+        onClick={() => setIsOpen(true)}
+        className="flex w-full items-center justify-center gap-2 rounded-full border border-white/15 bg-white/5 px-6 py-3 text-sm font-semibold text-slate-200 transition-all duration-200 hover:border-white/30 hover:bg-white/10"
+      >
+        ⚙ Manage poll
+      </button>
+    );
+  }
+
+  return (
+    <div className="space-y-3 rounded-2xl border border-white/15 bg-white/5 p-4 text-xs text-slate-300">
+      <div className="flex items-center justify-between">
+        <span className="uppercase tracking-widest text-slate-300/70">Manage poll</span>
+        <button onClick={() => setIsOpen(false)} className="text-slate-400 transition hover:text-slate-200">
+          Close
+        </button>
+      </div>
+
+      {canEdit &&
+        (isEditing ? (
+          <form onSubmit={handleEdit} className="space-y-2">
+            <input
+              type="text"
+              value={draftTitle}
+              onChange={(e) => setDraftTitle(e.target.value)}
+              className="w-full rounded-xl border border-white/10 bg-slate-900/60 px-3 py-2 text-sm text-slate-100 outline-none focus:border-emerald-400"
+            />
+            {!numeric && (
+              <textarea
+                value={draftOptions}
+                onChange={(e) => setDraftOptions(e.target.value)}
+                rows={Math.max(options.length, 2)}
+                placeholder="One option per line"
+                className="w-full rounded-xl border border-white/10 bg-slate-900/60 px-3 py-2 text-sm text-slate-100 outline-none focus:border-emerald-400"
+              />
+            )}
+            <div className="flex gap-2">
+              <button
+                type="submit"
+                disabled={isLoading}
+                className="rounded-full bg-emerald-500/80 px-4 py-1.5 font-semibold text-slate-900 transition hover:bg-emerald-400 disabled:opacity-60"
+              >
+                Save changes
+              </button>
+              <button
+                type="button"
+                onClick={() => setIsEditing(false)}
+                className="rounded-full border border-white/15 px-4 py-1.5 transition hover:bg-white/10"
+              >
+                Discard
+              </button>
+            </div>
+          </form>
+        ) : (
+          <button
+            onClick={() => setIsEditing(true)}
+            className="w-full rounded-full border border-white/15 px-4 py-2 font-semibold text-slate-100 transition hover:bg-white/10"
+          >
+            {numeric ? "✎ Edit title" : "✎ Edit title and options"}
+          </button>
+        ))}
+
+      {canExtend && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span>Extend voting:</span>
+          {extensions.length === 0 ? (
+            <span className="text-slate-400">the end time cannot be pushed back any further</span>
+          ) : (
+            extensions.map(({ label, seconds }) => (
+              <button
+                key={seconds}
+                onClick={() => run(() => extendEndTime(pollId, endTime + seconds), `Voting extended (${label}).`)}
+                disabled={isLoading}
+                className="rounded-full border border-sky-300/40 px-3 py-1 font-medium text-sky-100 transition hover:bg-sky-500/20 disabled:opacity-60"
+              >
+                {label}
+              </button>
+            ))
+          )}
+        </div>
+      )}
+
+      <button
+        onClick={handleCancel}
+        disabled={isLoading}
+        className="w-full rounded-full border border-rose-300/40 px-4 py-2 font-semibold text-rose-200 transition hover:bg-rose-500/10 disabled:opacity-60"
+      >
+        Cancel poll
+      </button>
+    </div>
+  );
+}
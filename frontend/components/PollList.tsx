@@ -1,7 +1,7 @@
 "use client";
 
 import { useEffect, useMemo, useState } from "react";
-import { useAccount, useReadContract } from "wagmi";
+import { useAccount, useReadContract, useReadContracts } from "wagmi";
 import { MultiChoiceVotingABI } from "@/abi/MultiChoiceVotingABI";
 import { useMultiChoiceVoting } from "@/hooks/useMultiChoiceVoting";
 import { PollCard } from "./PollCard";
@@ -53,6 +53,25 @@ export function PollList({ refreshTrigger }: PollListProps) {
     }
   }, [pollCount, refreshTrigger]);
 
+  const { data: cancelledData } = useReadContracts({
+    contracts: pollIds.map((id) => ({
+      address: contractAddress as `0x${string}`,
+      abi: MultiChoiceVotingABI,
+      functionName: "isCancelled" as const,
+      args: [BigInt(id)],
+    })),
+    query: {
+      enabled: Boolean(contractAddress) && pollIds.length > 0,
+      refetchInterval: 10000,
+    },
+  });
+
+  // Cancelled polls are listed after the rest; a poll whose status has not loaded yet counts as active
+  const [activeIds, cancelledIds] = useMemo(() => {
+    const isCancelled = (index: number) => cancelledData?.[index]?.result === true;
+    return [pollIds.filter((_, i) => !isCancelled(i)), pollIds.filter((_, i) => isCancelled(i))];
+  }, [pollIds, cancelledData]);
+
   const emptyState = useMemo(() => {
     if (!isConnected) {
       return {
@@ -133,10 +152,21 @@ export function PollList({ refreshTrigger }: PollListProps) {
       </div>
 
       <div className="grid gap-6 md:grid-cols-2 xl:grid-cols-3">
-        {pollIds.map((id) => (
+        {activeIds.map((id) => (
           <PollCard key={id} pollId={id} />
         ))}
       </div>
+
+      {cancelledIds.length > 0 && (
+        <>
+          <h2 className="text-xl font-semibold text-slate-300">Cancelled polls</h2>
+          <div className="grid gap-6 opacity-70 md:grid-cols-2 xl:grid-cols-3">
+            {cancelledIds.map((id) => (
+              <PollCard key={id} pollId={id} />
+            ))}
+          </div>
+        </>
+      )}
     </div>
   );
 }
@@ -15,3 +15,45 @@ export function getContractAddress(chainId: number): string {
   }
 }
 
+
+// DelegationRegistry deployed alongside the voting contract (empty where not deployed yet)
+export const DELEGATION_REGISTRY_ADDRESSES = {
+  localhost: "0x8A791620dd6260079BF849Dc5567aDC3F2FdC318", // Hardhat localhost deployment
+  sepolia: "",
+} as const;
+
+export function getDelegationRegistryAddress(chainId: number): `0x${string}` | null {
+  switch (chainId) {
+    case 31337: // Localhost
+      return DELEGATION_REGISTRY_ADDRESSES.localhost;
+    case 11155111: // Sepolia
+      return DELEGATION_REGISTRY_ADDRESSES.sepolia || null;
+    default:
+      return null;
+  }
+}
+
+// Trusted ERC-2771 forwarder of the voting contract, and the relayer that pays for sponsored votes through it
+export const VOTE_FORWARDER_ADDRESSES = {
+  localhost: "0x0165878A594ca255338adfa4d48449f69242Eb8F", // Hardhat localhost deployment
+  sepolia: "",
+} as const;
+
+export function getForwarderAddress(chainId: number): `0x${string}` | null {
+  switch (chainId) {
+    case 31337: // Localhost
+      return VOTE_FORWARDER_ADDRESSES.localhost;
+    case 11155111: // Sepolia
+      return VOTE_FORWARDER_ADDRESSES.sepolia || null;
+    default:
+      return null;
+  }
+}
+
+// `npx hardhat task:relayer` listens on port 8787 by default
+export function getRelayerUrl(chainId: number): string | null {
+  if (process.env.NEXT_PUBLIC_RELAYER_URL) {
+    return process.env.NEXT_PUBLIC_RELAYER_URL;
+  }
+  return chainId === 31337 ? "http://localhost:8787" : null;
+}
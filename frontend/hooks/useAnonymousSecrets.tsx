@@ -0,0 +1,60 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import {
+  AnonymousSecret,
+  AnonymousSecretsFile,
+  mergeAnonymousSecrets,
+  parseAnonymousSecretsFile,
+} from "@/lib/anonymousVoter";
+
+const storageKey = (chainId: number, contractAddress: string) =>
+  `anonymous-secrets:${chainId}:${contractAddress.toLowerCase()}`;
+
+// Anonymous-poll secrets for one deployment, kept in local storage. They are the only way to cast a registered
+// voter's ballot, so the UI offers a backup file to export and import.
+export function useAnonymousSecrets(chainId: number | undefined, contractAddress: string | null) {
+  const [secrets, setSecrets] = useState<AnonymousSecret[]>([]);
+  const key = chainId && contractAddress ? storageKey(chainId, contractAddress) : null;
+
+  useEffect(() => {
+    const stored = key ? localStorage.getItem(key) : null;
+    setSecrets(stored ? (JSON.parse(stored) as AnonymousSecret[]) : []);
+  }, [key]);
+
+  // Merge into what is stored now, which another poll card may have changed since this one loaded
+  const store = useCallback(
+    (added: AnonymousSecret[]) => {
+      if (!key) {
+        throw new Error("Wallet not connected or contract not available");
+      }
+      const stored = localStorage.getItem(key);
+      const next = mergeAnonymousSecrets(stored ? (JSON.parse(stored) as AnonymousSecret[]) : [], added);
+      localStorage.setItem(key, JSON.stringify(next));
+      setSecrets(next);
+    },
+    [key]
+  );
+
+  const saveSecret = useCallback((entry: AnonymousSecret) => store([entry]), [store]);
+
+  const exportSecrets = useCallback(() => {
+    const file: AnonymousSecretsFile = { chainId: chainId ?? 0, contract: contractAddress ?? "", secrets };
+    return JSON.stringify(file, null, 2);
+  }, [chainId, contractAddress, secrets]);
+
+  // Returns how many secrets the file held
+  const importSecrets = useCallback(
+    (json: string) => {
+      if (!chainId || !contractAddress) {
+        throw new Error("Wallet not connected or contract not available");
+      }
+      const imported = parseAnonymousSecretsFile(json, chainId, contractAddress);
+      store(imported);
+      return imported.length;
+    },
+    [chainId, contractAddress, store]
+  );
+
+  return { secrets, saveSecret, exportSecrets, importSecrets };
+}
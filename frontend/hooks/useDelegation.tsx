@@ -0,0 +1,94 @@
+"use client";
+
+import { useCallback, useMemo, useState } from "react";
+import { useAccount, useReadContract, useWriteContract } from "wagmi";
+import { ZeroAddress } from "ethers";
+import { getDelegationRegistryAddress } from "@/config/contract";
+import { DelegationRegistryABI } from "@/abi/DelegationRegistryABI";
+
+export function useDelegation() {
+  const { address, chain, isConnected } = useAccount();
+  const { writeContractAsync } = useWriteContract();
+
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const registryAddress = useMemo(() => (chain ? getDelegationRegistryAddress(chain.id) : null), [chain]);
+  const enabled = Boolean(registryAddress && address);
+
+  const { data: delegateData, refetch: refetchDelegate } = useReadContract({
+    address: registryAddress ?? undefined,
+    abi: DelegationRegistryABI,
+    functionName: "delegateOf",
+    args: address ? [address] : undefined,
+    query: { enabled },
+  });
+
+  const { data: delegatorsData, refetch: refetchDelegators } = useReadContract({
+    address: registryAddress ?? undefined,
+    abi: DelegationRegistryABI,
+    functionName: "delegatorsOf",
+    args: address ? [address] : undefined,
+    query: { enabled, refetchInterval: 10000 },
+  });
+
+  const currentDelegate = delegateData && delegateData !== ZeroAddress ? delegateData : null;
+  const delegators = useMemo(() => [...(delegatorsData ?? [])], [delegatorsData]);
+
+  // Send a registry transaction and refresh the panel once it is mined
+  const run = useCallback(
+    async (action: string, write: (registry: `0x${string}`) => Promise<`0x${string}`>) => {
+      if (!registryAddress || !isConnected) {
+        throw new Error("Wallet not connected or delegation registry not available");
+      }
+
+      try {
+        setIsLoading(true);
+        setError(null);
+
+        const hash = await write(registryAddress);
+
+        const { waitForTransactionReceipt } = await import("wagmi/actions");
+        const { config } = await import("@/config/wagmi");
+        await waitForTransactionReceipt(config, { hash });
+        await Promise.all([refetchDelegate(), refetchDelegators()]);
+
+        return hash;
+      } catch (err: any) {
+        const errorMsg = err.message || `Failed to ${action}`;
+        setError(errorMsg);
+        throw new Error(errorMsg);
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [registryAddress, isConnected, refetchDelegate, refetchDelegators]
+  );
+
+  const delegate = useCallback(
+    (to: `0x${string}`) =>
+      run("delegate", (registry) =>
+        writeContractAsync({ address: registry, abi: DelegationRegistryABI, functionName: "delegate", args: [to] })
+      ),
+    [run, writeContractAsync]
+  );
+
+  const undelegate = useCallback(
+    () =>
+      run("undelegate", (registry) =>
+        writeContractAsync({ address: registry, abi: DelegationRegistryABI, functionName: "undelegate" })
+      ),
+    [run, writeContractAsync]
+  );
+
+  return {
+    registryAddress,
+    currentDelegate,
+    delegators,
+    delegate,
+    undelegate,
+    isLoading,
+    error,
+    isConnected,
+  };
+}
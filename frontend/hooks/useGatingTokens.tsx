@@ -0,0 +1,73 @@
+"use client";
+
+import { useMemo } from "react";
+import { useAccount, useReadContract, useReadContracts } from "wagmi";
+import { ERC721EnumerableABI } from "@/abi/ERC721EnumerableABI";
+import { MultiChoiceVotingABI } from "@/abi/MultiChoiceVotingABI";
+
+// Cap on listed tokens so a large holder does not trigger hundreds of reads per poll card
+const MAX_LISTED_TOKENS = 50;
+
+export interface GatingToken {
+  tokenId: bigint;
+  used: boolean;
+}
+
+// Tokens of an NFT-gated poll's collection held by the connected wallet, and whether each has voted yet.
+// The collection must implement ERC721Enumerable to be listed.
+export function useGatingTokens(
+  contractAddress: string | null,
+  pollId: number,
+  collection: `0x${string}` | null
+) {
+  const { address } = useAccount();
+  const enabled = Boolean(contractAddress && collection && address);
+
+  const { data: balance, isError: notEnumerable } = useReadContract({
+    address: collection ?? undefined,
+    abi: ERC721EnumerableABI,
+    functionName: "balanceOf",
+    args: address ? [address] : undefined,
+    query: { enabled, refetchInterval: 10000 },
+  });
+
+  const count = Math.min(Number(balance ?? 0n), MAX_LISTED_TOKENS);
+  const { data: tokenIdData, isError: listingFailed } = useReadContracts({
+    contracts: Array.from({ length: count }, (_, index) => ({
+      address: collection as `0x${string}`,
+      abi: ERC721EnumerableABI,
+      functionName: "tokenOfOwnerByIndex" as const,
+      args: [address as `0x${string}`, BigInt(index)] as const,
+    })),
+    query: { enabled: enabled && count > 0 },
+  });
+
+  const tokenIds = useMemo(
+    () =>
+      (tokenIdData ?? [])
+        .map((entry) => entry.result)
+        .filter((tokenId): tokenId is bigint => typeof tokenId === "bigint"),
+    [tokenIdData]
+  );
+
+  const { data: usedData, refetch } = useReadContracts({
+    contracts: tokenIds.map((tokenId) => ({
+      address: contractAddress as `0x${string}`,
+      abi: MultiChoiceVotingABI,
+      functionName: "usedToken" as const,
+      args: [BigInt(pollId), tokenId] as const,
+    })),
+    query: { enabled: enabled && tokenIds.length > 0 },
+  });
+
+  const tokens: GatingToken[] = useMemo(
+    () => tokenIds.map((tokenId, index) => ({ tokenId, used: usedData?.[index]?.result === true })),
+    [tokenIds, usedData]
+  );
+
+  return {
+    tokens,
+    isListable: !notEnumerable && !listingFailed,
+    refetch,
+  };
+}
@@ -1,16 +1,74 @@
 "use client";
 
 import { useState, useCallback, useMemo } from "react";
-import { useAccount, useReadContract, useWriteContract, useWaitForTransactionReceipt } from "wagmi";
-import { hexlify } from "ethers";
+import { useAccount, useReadContract, useSignTypedData, useWriteContract, useWaitForTransactionReceipt } from "wagmi";
+import { encodeFunctionData } from "viem";
+import { BrowserProvider, Eip1193Provider, hexlify, ZeroHash } from "ethers";
 import { useFhevmContext } from "./useFhevmProvider";
-import { CONTRACT_ADDRESSES } from "@/config/contract";
+import { useInMemoryStorage } from "./useInMemoryStorage";
+import { CONTRACT_ADDRESSES, getForwarderAddress, getRelayerUrl } from "@/config/contract";
 import { MultiChoiceVotingABI } from "@/abi/MultiChoiceVotingABI";
+import { VoteForwarderABI } from "@/abi/VoteForwarderABI";
+import { FhevmDecryptionSignature } from "@/fhevm/FhevmDecryptionSignature";
+import { fetchAnonymousRelayer, postAnonymousBallot } from "@/lib/anonymousVoter";
+import {
+  FORWARD_REQUEST_TYPES,
+  postToRelayer,
+  SPONSORED_VOTE_GAS,
+  SPONSORED_VOTE_TTL_SECONDS,
+} from "@/lib/forwardRequest";
+import { ranksFromOrder } from "@/lib/instantRunoff";
+
+// Mirrors MultiChoiceVoting.RevealPolicy
+export enum RevealPolicy {
+  AfterEnd = 0,
+  CreatorEarly = 1,
+  AnyoneAfterGrace = 2,
+}
+
+// Mirrors MultiChoiceVoting.BallotType
+export enum BallotType {
+  SingleChoice = 0,
+  RankedChoice = 1, // 2-4 options, tallied by instant runoff
+  Approval = 2, // approve any subset of the options
+  Cumulative = 3, // spread points within a credit budget
+  Numeric = 4, // one number within a range; only the sum, count, min and max are revealed
+}
+
+export interface PollSettings {
+  revealPolicy: RevealPolicy;
+  revealGracePeriod: number; // seconds after endTime
+  creatorLiveView: boolean; // creator may decrypt the running tally
+  minVoters: number; // minimum turnout before results may be decrypted (0 = none)
+  ballotType: BallotType;
+  creditBudget: number; // credits per voter (Cumulative only)
+  quadraticCost: boolean; // n points on one option cost n * n credits (Cumulative only)
+  revotable: boolean; // voters may change their ballot until endTime (not RankedChoice)
+  votingToken: `0x${string}`; // ERC20Votes token weighting each ballot, or the zero address for one vote each
+  snapshotBlock: bigint; // block whose delegated votes set each weight (0 = the block before creation)
+  confidentialToken: boolean; // votingToken is a ConfidentialVotesToken, so weights stay encrypted
+  delegationRegistry: `0x${string}`; // DelegationRegistry the poll honours, or the zero address for none
+  allowlistRoot: `0x${string}`; // Merkle root of the addresses allowed to vote, or zero for an open poll
+  gatingCollection: `0x${string}`; // ERC-721 collection whose holders vote once per token, or zero address
+  inviteOnly: boolean; // voters need a one-time voucher signed by the creator
+  anonymousVoting: boolean; // voters register a secret before start and vote with it through the relayer
+  decryptionTimeout: number; // seconds before a stuck reveal may be retried (0 = the contract's default of 1 day)
+  committee: `0x${string}`[]; // members who must approve the reveal, or empty for none
+  committeeThreshold: number; // approvals needed before the reveal may be requested
+  winnerOnly: boolean; // only the leading option is revealed, never the counts
+  winnerMargin: bigint; // winner-only polls: also reveal whether the winner leads by this much (0 = no)
+  passThreshold: number; // decision polls: percent Yes of the Yes and No votes needed to pass (0 = not a decision)
+  privacyEpsilon: number; // differential privacy: epsilon in hundredths for the noise on each count (0 = exact counts)
+  minValue: number; // numeric polls: smallest answer; lower answers count as it
+  maxValue: number; // numeric polls: largest answer; higher answers count as it
+}
 
 export function useMultiChoiceVoting() {
   const { address, chain, isConnected } = useAccount();
   const { instance: fhevm, isReady: fhevmReady, error: fhevmError } = useFhevmContext();
   const { writeContractAsync } = useWriteContract();
+  const { signTypedDataAsync } = useSignTypedData();
+  const { storage } = useInMemoryStorage();
   
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -23,13 +81,56 @@ export function useMultiChoiceVoting() {
     return null;
   }, [chain]);
 
+  // Sponsored votes are signed as ERC-2771 requests and submitted by the relayer, which pays the gas
+  const forwarderAddress = useMemo(() => (chain ? getForwarderAddress(chain.id) : null), [chain]);
+  const relayerUrl = useMemo(() => (chain ? getRelayerUrl(chain.id) : null), [chain]);
+  const canSponsor = Boolean(forwarderAddress && relayerUrl);
+
+  // Sign a call to the voting contract as a forward request and have the relayer submit it
+  const relay = useCallback(
+    async (data: `0x${string}`) => {
+      if (!contractAddress || !address || !chain || !forwarderAddress || !relayerUrl) {
+        throw new Error("Sponsored voting is not available on this network");
+      }
+
+      const { readContract } = await import("wagmi/actions");
+      const { config } = await import("@/config/wagmi");
+      const nonce = await readContract(config, {
+        address: forwarderAddress,
+        abi: VoteForwarderABI,
+        functionName: "nonces",
+        args: [address],
+      });
+      const deadline = Math.floor(Date.now() / 1000) + SPONSORED_VOTE_TTL_SECONDS;
+
+      const signature = await signTypedDataAsync({
+        domain: { name: "VoteForwarder", version: "1", chainId: chain.id, verifyingContract: forwarderAddress },
+        types: FORWARD_REQUEST_TYPES,
+        primaryType: "ForwardRequest",
+        message: { from: address, to: contractAddress, value: BigInt(0), gas: SPONSORED_VOTE_GAS, nonce, deadline, data },
+      });
+
+      return postToRelayer(relayerUrl, {
+        from: address,
+        to: contractAddress,
+        value: "0",
+        gas: SPONSORED_VOTE_GAS.toString(),
+        deadline: deadline.toString(),
+        data,
+        signature,
+      });
+    },
+    [contractAddress, address, chain, forwarderAddress, relayerUrl, signTypedDataAsync]
+  );
+
   // Create Poll
   const createPoll = useCallback(
     async (
       title: string,
       options: string[],
       startTime: number,
-      endTime: number
+      endTime: number,
+      settings: PollSettings
     ) => {
       if (!contractAddress || !isConnected) {
         throw new Error("Wallet not connected or contract not available");
@@ -43,7 +144,39 @@ export function useMultiChoiceVoting() {
           address: contractAddress,
           abi: MultiChoiceVotingABI,
           functionName: "createPoll",
-          args: [title, options, BigInt(startTime), BigInt(endTime)],
+          args: [
+            title,
+            options,
+            BigInt(startTime),
+            BigInt(endTime),
+            {
+              revealPolicy: settings.revealPolicy,
+              revealGracePeriod: BigInt(settings.revealGracePeriod),
+              creatorLiveView: settings.creatorLiveView,
+              minVoters: settings.minVoters,
+              ballotType: settings.ballotType,
+              creditBudget: settings.creditBudget,
+              quadraticCost: settings.quadraticCost,
+              revotable: settings.revotable,
+              votingToken: settings.votingToken,
+              snapshotBlock: settings.snapshotBlock,
+              confidentialToken: settings.confidentialToken,
+              delegationRegistry: settings.delegationRegistry,
+              allowlistRoot: settings.allowlistRoot,
+              gatingCollection: settings.gatingCollection,
+              inviteOnly: settings.inviteOnly,
+              anonymousVoting: settings.anonymousVoting,
+              decryptionTimeout: BigInt(settings.decryptionTimeout),
+              committee: settings.committee,
+              committeeThreshold: settings.committeeThreshold,
+              winnerOnly: settings.winnerOnly,
+              winnerMargin: settings.winnerMargin,
+              passThreshold: settings.passThreshold,
+              privacyEpsilon: settings.privacyEpsilon,
+              minValue: settings.minValue,
+              maxValue: settings.maxValue,
+            },
+          ],
         });
 
         return hash;
@@ -58,9 +191,16 @@ export function useMultiChoiceVoting() {
     [contractAddress, isConnected, writeContractAsync]
   );
 
-  // Vote
+  // Vote: an option index for single-choice polls, or one approval flag per option for approval polls.
+  // `eligibilityProof` is the encoded allowlist proof on gated polls and "0x" on open ones; `sponsored` has the
+  // relayer pay for the transaction.
   const vote = useCallback(
-    async (pollId: number, optionIndex: number) => {
+    async (
+      pollId: number,
+      choice: number | boolean[],
+      eligibilityProof: `0x${string}` = "0x",
+      sponsored = false
+    ) => {
       if (!contractAddress || !fhevm || !isConnected || !address) {
         throw new Error("Wallet not connected or FHEVM not ready");
       }
@@ -69,64 +209,329 @@ export function useMultiChoiceVoting() {
         setIsLoading(true);
         setError(null);
 
-        // Create encrypted input
+        // Create encrypted input, bound to the voter even when relayed; an approval selection is encrypted whole
+        // under a single input proof
         const input = fhevm.createEncryptedInput(contractAddress, address);
-        input.add32(optionIndex);
+        if (typeof choice === "number") {
+          input.add32(choice);
+        } else {
+          choice.forEach((approved) => input.addBool(approved));
+        }
         const encryptedInput = await input.encrypt();
 
         // Convert Uint8Array to hex string for wagmi
-        const encryptedChoice = hexlify(encryptedInput.handles[0]) as `0x${string}`;
+        const handles = encryptedInput.handles.map((handle) => hexlify(handle) as `0x${string}`);
         const proof = hexlify(encryptedInput.inputProof) as `0x${string}`;
 
         console.log("[Vote] Encrypted input:", {
-          encryptedChoice,
+          handles,
           proof,
-          choiceLength: encryptedChoice.length,
+          handleCount: handles.length,
           proofLength: proof.length,
         });
 
         // Submit vote
-        const hash = await writeContractAsync({
+        if (typeof choice === "number") {
+          const call = {
+            abi: MultiChoiceVotingABI,
+            functionName: "vote",
+            args: [BigInt(pollId), handles[0], proof, eligibilityProof],
+          } as const;
+          return sponsored
+            ? await relay(encodeFunctionData(call))
+            : await writeContractAsync({ address: contractAddress, ...call });
+        }
+
+        const call = {
+          abi: MultiChoiceVotingABI,
+          functionName: "voteApproval",
+          args: [BigInt(pollId), handles, proof, eligibilityProof],
+        } as const;
+        return sponsored
+          ? await relay(encodeFunctionData(call))
+          : await writeContractAsync({ address: contractAddress, ...call });
+      } catch (err: any) {
+        const errorMsg = err.message || "Failed to vote";
+        setError(errorMsg);
+        throw new Error(errorMsg);
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [contractAddress, fhevm, isConnected, address, writeContractAsync, relay]
+  );
+
+  // Vote on a ranked-choice poll; `order` lists option indices from most to least preferred
+  const voteRanked = useCallback(
+    async (pollId: number, order: number[], eligibilityProof: `0x${string}` = "0x", sponsored = false) => {
+      if (!contractAddress || !fhevm || !isConnected || !address) {
+        throw new Error("Wallet not connected or FHEVM not ready");
+      }
+
+      try {
+        setIsLoading(true);
+        setError(null);
+
+        // One encrypted rank per option, all covered by a single input proof
+        const input = fhevm.createEncryptedInput(contractAddress, address);
+        ranksFromOrder(order).forEach((rank) => input.add8(rank));
+        const encryptedInput = await input.encrypt();
+
+        const encryptedRanks = encryptedInput.handles.map((handle) => hexlify(handle) as `0x${string}`);
+        const proof = hexlify(encryptedInput.inputProof) as `0x${string}`;
+
+        const call = {
+          abi: MultiChoiceVotingABI,
+          functionName: "voteRanked",
+          args: [BigInt(pollId), encryptedRanks, proof, eligibilityProof],
+        } as const;
+        return sponsored
+          ? await relay(encodeFunctionData(call))
+          : await writeContractAsync({ address: contractAddress, ...call });
+      } catch (err: any) {
+        const errorMsg = err.message || "Failed to vote";
+        setError(errorMsg);
+        throw new Error(errorMsg);
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [contractAddress, fhevm, isConnected, address, writeContractAsync, relay]
+  );
+
+  // Vote on a cumulative poll with the points given to each option
+  const voteCumulative = useCallback(
+    async (pollId: number, points: number[], eligibilityProof: `0x${string}` = "0x", sponsored = false) => {
+      if (!contractAddress || !fhevm || !isConnected || !address) {
+        throw new Error("Wallet not connected or FHEVM not ready");
+      }
+
+      try {
+        setIsLoading(true);
+        setError(null);
+
+        const input = fhevm.createEncryptedInput(contractAddress, address);
+        points.forEach((value) => input.add32(value));
+        const encryptedInput = await input.encrypt();
+
+        const encryptedPoints = encryptedInput.handles.map((handle) => hexlify(handle) as `0x${string}`);
+        const proof = hexlify(encryptedInput.inputProof) as `0x${string}`;
+
+        const call = {
+          abi: MultiChoiceVotingABI,
+          functionName: "voteCumulative",
+          args: [BigInt(pollId), encryptedPoints, proof, eligibilityProof],
+        } as const;
+        return sponsored
+          ? await relay(encodeFunctionData(call))
+          : await writeContractAsync({ address: contractAddress, ...call });
+      } catch (err: any) {
+        const errorMsg = err.message || "Failed to vote";
+        setError(errorMsg);
+        throw new Error(errorMsg);
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [contractAddress, fhevm, isConnected, address, writeContractAsync, relay]
+  );
+
+  // Answer a numeric poll; the contract clamps `value` to the poll's range without revealing it
+  const submitValue = useCallback(
+    async (pollId: number, value: number, eligibilityProof: `0x${string}` = "0x", sponsored = false) => {
+      if (!contractAddress || !fhevm || !isConnected || !address) {
+        throw new Error("Wallet not connected or FHEVM not ready");
+      }
+
+      try {
+        setIsLoading(true);
+        setError(null);
+
+        const input = fhevm.createEncryptedInput(contractAddress, address);
+        input.add32(value);
+        const encryptedInput = await input.encrypt();
+
+        const call = {
+          abi: MultiChoiceVotingABI,
+          functionName: "submitValue",
+          args: [
+            BigInt(pollId),
+            hexlify(encryptedInput.handles[0]) as `0x${string}`,
+            hexlify(encryptedInput.inputProof) as `0x${string}`,
+            eligibilityProof,
+          ],
+        } as const;
+        return sponsored
+          ? await relay(encodeFunctionData(call))
+          : await writeContractAsync({ address: contractAddress, ...call });
+      } catch (err: any) {
+        const errorMsg = err.message || "Failed to submit value";
+        setError(errorMsg);
+        throw new Error(errorMsg);
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [contractAddress, fhevm, isConnected, address, writeContractAsync, relay]
+  );
+
+  // Anonymous polls: register an encrypted secret before voting starts. The caller keeps the secret, which is
+  // the only way to vote later; `eligibilityProof` admits the caller on gated polls.
+  const registerAnonymous = useCallback(
+    async (pollId: number, secret: bigint, eligibilityProof: `0x${string}` = "0x") => {
+      if (!contractAddress || !fhevm || !isConnected || !address) {
+        throw new Error("Wallet not connected or FHEVM not ready");
+      }
+
+      try {
+        setIsLoading(true);
+        setError(null);
+
+        const encryptedInput = await fhevm.createEncryptedInput(contractAddress, address).add64(secret).encrypt();
+        return await writeContractAsync({
           address: contractAddress,
           abi: MultiChoiceVotingABI,
-          functionName: "vote",
-          args: [BigInt(pollId), encryptedChoice, proof],
+          functionName: "registerAnonymous",
+          args: [
+            BigInt(pollId),
+            hexlify(encryptedInput.handles[0]) as `0x${string}`,
+            hexlify(encryptedInput.inputProof) as `0x${string}`,
+            eligibilityProof,
+          ],
+        });
+      } catch (err: any) {
+        const errorMsg = err.message || "Failed to register";
+        setError(errorMsg);
+        throw new Error(errorMsg);
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [contractAddress, fhevm, isConnected, address, writeContractAsync]
+  );
+
+  // Anonymous polls: hand a ballot carrying the registered secret to the relayer, which sends it from its own
+  // address. The inputs are encrypted for that address, and the connected wallet signs nothing.
+  const voteAnonymous = useCallback(
+    async (pollId: number, choice: number, secret: bigint) => {
+      if (!contractAddress || !fhevm) {
+        throw new Error("Contract not available or FHEVM not ready");
+      }
+      if (!relayerUrl) {
+        throw new Error("Anonymous voting needs a relayer on this network");
+      }
+
+      try {
+        setIsLoading(true);
+        setError(null);
+
+        const relayer = await fetchAnonymousRelayer(relayerUrl);
+        const encryptedInput = await fhevm
+          .createEncryptedInput(contractAddress, relayer)
+          .add32(choice)
+          .add64(secret)
+          .encrypt();
+        return await postAnonymousBallot(relayerUrl, {
+          pollId,
+          encryptedOptionIndex: hexlify(encryptedInput.handles[0]),
+          encryptedSecret: hexlify(encryptedInput.handles[1]),
+          inputProof: hexlify(encryptedInput.inputProof),
         });
+      } catch (err: any) {
+        const errorMsg = err.message || "Failed to submit anonymous ballot";
+        setError(errorMsg);
+        throw new Error(errorMsg);
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [contractAddress, fhevm, relayerUrl]
+  );
 
+  // Creator actions: cancel a poll, extend its end time, or edit its title and options before it starts.
+  // Each waits for the transaction so the poll card can refetch the new state.
+  const managePoll = useCallback(
+    async (send: (address: `0x${string}`) => Promise<`0x${string}`>) => {
+      if (!contractAddress || !isConnected) {
+        throw new Error("Wallet not connected or contract not available");
+      }
+
+      try {
+        setIsLoading(true);
+        setError(null);
+
+        const hash = await send(contractAddress);
+        const { waitForTransactionReceipt } = await import("wagmi/actions");
+        const { config } = await import("@/config/wagmi");
+        await waitForTransactionReceipt(config, { hash });
         return hash;
       } catch (err: any) {
-        const errorMsg = err.message || "Failed to vote";
+        const errorMsg = err.message || "Failed to update poll";
         setError(errorMsg);
         throw new Error(errorMsg);
       } finally {
         setIsLoading(false);
       }
     },
-    [contractAddress, fhevm, isConnected, address, writeContractAsync]
+    [contractAddress, isConnected]
   );
 
-  // Request finalization (with auto-decryption in mock mode)
-  const requestFinalization = useCallback(
-    async (pollId: number) => {
-      // Debug: Log all conditions
-      console.log("[Finalization] Checking prerequisites:", {
-        contractAddress: !!contractAddress,
-        isConnected,
-        fhevm: !!fhevm,
-        fhevmReady,
-        address: !!address,
-        chain: chain?.id,
-      });
+  const cancelPoll = useCallback(
+    (pollId: number) =>
+      managePoll((address) =>
+        writeContractAsync({ address, abi: MultiChoiceVotingABI, functionName: "cancelPoll", args: [BigInt(pollId)] })
+      ),
+    [managePoll, writeContractAsync]
+  );
 
+  const extendEndTime = useCallback(
+    (pollId: number, newEndTime: number) =>
+      managePoll((address) =>
+        writeContractAsync({
+          address,
+          abi: MultiChoiceVotingABI,
+          functionName: "extendEndTime",
+          args: [BigInt(pollId), BigInt(newEndTime)],
+        })
+      ),
+    [managePoll, writeContractAsync]
+  );
+
+  const editPoll = useCallback(
+    (pollId: number, title: string, options: string[]) =>
+      managePoll((address) =>
+        writeContractAsync({
+          address,
+          abi: MultiChoiceVotingABI,
+          functionName: "editPoll",
+          args: [BigInt(pollId), title, options],
+        })
+      ),
+    [managePoll, writeContractAsync]
+  );
+
+  const approveFinalization = useCallback(
+    (pollId: number) =>
+      managePoll((address) =>
+        writeContractAsync({
+          address,
+          abi: MultiChoiceVotingABI,
+          functionName: "approveFinalization",
+          args: [BigInt(pollId)],
+        })
+      ),
+    [managePoll, writeContractAsync]
+  );
+
+  // Request finalization, or request it again once the oracle has timed out (the oracle completes it asynchronously)
+  const sendFinalization = useCallback(
+    async (pollId: number, functionName: "requestFinalization" | "retryFinalization") => {
       if (!contractAddress) {
         throw new Error("Contract address not found");
       }
       if (!isConnected || !address) {
         throw new Error("Wallet not connected");
       }
-      if (!fhevm || !fhevmReady) {
-        throw new Error("FHEVM not ready. Please wait a few seconds and try again.");
-      }
 
       try {
         setIsLoading(true);
@@ -134,143 +539,158 @@ export function useMultiChoiceVoting() {
 
         console.log(`[Finalization] Starting for Poll #${pollId}...`);
 
-        // Step 1: Request finalization
         const hash = await writeContractAsync({
           address: contractAddress,
           abi: MultiChoiceVotingABI,
-          functionName: "requestFinalization",
+          functionName,
           args: [BigInt(pollId)],
         });
 
-        console.log(`[Finalization] Request submitted: ${hash}`);
+        console.log(`[Finalization] ${functionName} submitted: ${hash}`);
 
         // Wait for transaction confirmation
         const { waitForTransactionReceipt } = await import("wagmi/actions");
         const { config } = await import("@/config/wagmi");
         await waitForTransactionReceipt(config, { hash });
 
-        console.log(`[Finalization] Request confirmed`);
+        console.log(`[Finalization] Request confirmed, waiting for oracle on chain ${chain?.id}...`);
+
+        return hash;
+      } catch (err: any) {
+        console.error("[Finalization] Error:", err);
+        const errorMsg = err.message || "Failed to request finalization";
+        setError(errorMsg);
+        throw new Error(errorMsg);
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [contractAddress, isConnected, address, chain, writeContractAsync]
+  );
+
+  const requestFinalization = useCallback(
+    (pollId: number) => sendFinalization(pollId, "requestFinalization"),
+    [sendFinalization]
+  );
 
-        // Step 2: For localhost (mock mode), auto-complete decryption
-        if (chain?.id === 31337) {
-          console.log(`[Finalization] Mock mode - auto-decrypting...`);
+  const retryFinalization = useCallback(
+    (pollId: number) => sendFinalization(pollId, "retryFinalization"),
+    [sendFinalization]
+  );
 
-          // Read contract to get encrypted counts
-          const { readContract } = await import("wagmi/actions");
-          
-          const encryptedCounts = await readContract(config, {
-            address: contractAddress,
-            abi: MultiChoiceVotingABI,
-            functionName: "getEncryptedCounts",
-            args: [BigInt(pollId)],
-          }) as any[];
-
-          console.log(`[Finalization] Found ${encryptedCounts.length} encrypted counts`);
-
-          // Decrypt all counts at once using Mock SDK
-          // Generate a keypair for decryption
-          const keypair = fhevm.generateKeypair();
-          
-          // Prepare all handles for batch decryption
-          const handleContractPairs = encryptedCounts.map(handle => ({
-            handle: handle,
-            contractAddress: contractAddress,
-          }));
-
-          const startTimeStamp = Math.floor(Date.now() / 1000).toString();
-          const durationDays = "10";
-          const contractAddresses = [contractAddress];
-
-          // Create EIP712 signature request (once for all handles)
-          const eip712 = fhevm.createEIP712(
-            keypair.publicKey,
-            contractAddresses,
-            startTimeStamp,
-            durationDays
-          );
-
-          console.log(`[Finalization] Requesting signature for batch decryption...`);
-
-          // Sign the message using wallet (only once!)
-          const { signTypedData } = await import("wagmi/actions");
-          const signature = await signTypedData(config, {
-            domain: {
-              ...eip712.domain,
-              verifyingContract: eip712.domain.verifyingContract as `0x${string}`,
-            },
-            types: eip712.types as any,
-            primaryType: 'UserDecryptRequestVerification',
-            message: eip712.message,
-          });
-
-          console.log(`[Finalization] Signature received, decrypting...`);
-
-          // Decrypt all handles at once
-          const result = await fhevm.userDecrypt(
-            handleContractPairs,
-            keypair.privateKey,
-            keypair.publicKey,
-            signature.replace("0x", ""),
-            contractAddresses,
-            address,
-            startTimeStamp,
-            durationDays,
-          );
-
-          // Extract decrypted values
-          const decryptedCounts: number[] = [];
-          for (let i = 0; i < encryptedCounts.length; i++) {
-            const decrypted = result[encryptedCounts[i]];
-            decryptedCounts.push(Number(decrypted));
-            console.log(`[Finalization] Option ${i}: ${decrypted} votes`);
-          }
-
-          // Get request ID
-          const requestId = await readContract(config, {
-            address: contractAddress,
-            abi: MultiChoiceVotingABI,
-            functionName: "getRequestId",
-            args: [BigInt(pollId)],
-          }) as bigint;
+  // User-decrypt handles the contract has granted the connected wallet access to
+  const userDecryptHandles = useCallback(
+    async (handles: string[]) => {
+      if (!contractAddress || !fhevm || !address || typeof window === "undefined" || !window.ethereum) {
+        throw new Error("Wallet not connected or FHEVM not ready");
+      }
 
-          console.log(`[Finalization] Request ID: ${requestId}`);
+      const signer = await new BrowserProvider(window.ethereum as Eip1193Provider).getSigner(address);
+      const sig = await FhevmDecryptionSignature.loadOrSign(fhevm, [contractAddress], signer, storage);
+      if (!sig) {
+        throw new Error("Unable to build FHEVM decryption signature");
+      }
 
-          // Encode decrypted results
-          const { AbiCoder } = await import("ethers");
-          const abiCoder = AbiCoder.defaultAbiCoder();
-          const cleartexts = abiCoder.encode(["uint32[]"], [decryptedCounts]) as `0x${string}`;
+      // Uninitialised handles have never been written and decrypt to zero
+      const initialised = handles.filter((handle) => handle !== ZeroHash);
+      const result =
+        initialised.length > 0
+          ? await fhevm.userDecrypt(
+              initialised.map((handle) => ({ handle, contractAddress })),
+              sig.privateKey,
+              sig.publicKey,
+              sig.signature,
+              sig.contractAddresses,
+              sig.userAddress,
+              sig.startTimestamp,
+              sig.durationDays
+            )
+          : {};
+
+      return handles.map((handle) => (handle === ZeroHash ? 0n : BigInt(result[handle] as bigint)));
+    },
+    [contractAddress, fhevm, address, storage]
+  );
 
-          console.log(`[Finalization] Calling decryption callback...`);
+  // Creator live view: decrypt the running tally (requires creatorLiveView on the poll)
+  const decryptLiveTally = useCallback(
+    async (pollId: number) => {
+      if (!contractAddress) {
+        throw new Error("Contract address not found");
+      }
 
-          // Call decryption callback
-          const callbackHash = await writeContractAsync({
-            address: contractAddress,
-            abi: MultiChoiceVotingABI,
-            functionName: "decryptionCallback",
-            args: [requestId, cleartexts, []],
-          });
+      try {
+        setIsLoading(true);
+        setError(null);
 
-          console.log(`[Finalization] Callback submitted: ${callbackHash}`);
+        const { readContract } = await import("wagmi/actions");
+        const { config } = await import("@/config/wagmi");
+        const encryptedCounts = await readContract(config, {
+          address: contractAddress,
+          abi: MultiChoiceVotingABI,
+          functionName: "getEncryptedCounts",
+          args: [BigInt(pollId)],
+        });
 
-          // Wait for callback confirmation
-          await waitForTransactionReceipt(config, { hash: callbackHash });
+        const encryptedInvalidCount = await readContract(config, {
+          address: contractAddress,
+          abi: MultiChoiceVotingABI,
+          functionName: "getEncryptedInvalidCount",
+          args: [BigInt(pollId)],
+        });
 
-          console.log(`[Finalization] ✅ Decryption complete!`);
-        } else {
-          console.log(`[Finalization] Testnet mode - waiting for oracle...`);
-        }
+        const decrypted = await userDecryptHandles([...encryptedCounts, encryptedInvalidCount]);
+        return {
+          counts: decrypted.slice(0, encryptedCounts.length).map(Number),
+          invalidBallots: Number(decrypted[encryptedCounts.length]),
+        };
+      } catch (err: any) {
+        const errorMsg = err.message || "Failed to decrypt live tally";
+        setError(errorMsg);
+        throw new Error(errorMsg);
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [contractAddress, userDecryptHandles]
+  );
 
-        return hash;
+  // Voter receipt: decrypt the caller's own counted ballot
+  const decryptMyBallot = useCallback(
+    async (pollId: number) => {
+      if (!contractAddress || !address) {
+        throw new Error("Wallet not connected or contract not available");
+      }
+
+      try {
+        setIsLoading(true);
+        setError(null);
+
+        const { readContract } = await import("wagmi/actions");
+        const { config } = await import("@/config/wagmi");
+        const [amounts, invalidAmount] = await readContract(config, {
+          address: contractAddress,
+          abi: MultiChoiceVotingABI,
+          functionName: "getMyBallot",
+          args: [BigInt(pollId)],
+          account: address,
+        });
+
+        const decrypted = await userDecryptHandles([...amounts, invalidAmount]);
+        return {
+          amounts: decrypted.slice(0, amounts.length).map(Number),
+          // Summed over every token on NFT-gated polls, so any number of invalid ballots counts
+          invalid: decrypted[amounts.length] > 0n,
+        };
       } catch (err: any) {
-        console.error("[Finalization] Error:", err);
-        const errorMsg = err.message || "Failed to request finalization";
+        const errorMsg = err.message || "Failed to decrypt ballot";
         setError(errorMsg);
         throw new Error(errorMsg);
       } finally {
         setIsLoading(false);
       }
     },
-    [contractAddress, isConnected, fhevm, address, chain, writeContractAsync]
+    [contractAddress, address, userDecryptHandles]
   );
 
   return {
@@ -284,10 +704,26 @@ export function useMultiChoiceVoting() {
     fhevmReady,
     fhevmError,
 
+    // Sponsored (gasless) voting and anonymous ballots through the relayer
+    canSponsor,
+    canRelay: Boolean(relayerUrl),
+
     // Contract functions
     createPoll,
     vote,
+    voteRanked,
+    voteCumulative,
+    submitValue,
+    registerAnonymous,
+    voteAnonymous,
+    cancelPoll,
+    extendEndTime,
+    editPoll,
     requestFinalization,
+    retryFinalization,
+    approveFinalization,
+    decryptLiveTally,
+    decryptMyBallot,
 
     // Loading state
     isLoading,
@@ -0,0 +1,89 @@
+import { hexlify, randomBytes } from "ethers";
+
+/**
+ * Voter secrets and relayed ballots for anonymous polls.
+ *
+ * A voter registers an encrypted random secret before the poll starts, then votes with the same secret through the
+ * relayer, whose address sends the ballot. The secret is the only link between the two, so it never leaves the
+ * voter's browser unencrypted except in a backup file. Shared by the relayer task, the tests and the frontend.
+ */
+
+// A secret as kept by the voter; `voter` is the address that registered it
+export interface AnonymousSecret {
+  pollId: number;
+  voter: string;
+  secret: string; // decimal
+  voted?: boolean; // a ballot with this secret was handed to the relayer
+}
+
+// An anonymous ballot as posted to the relayer, encrypted for the relayer's address
+export interface AnonymousBallot {
+  pollId: number;
+  encryptedOptionIndex: string;
+  encryptedSecret: string;
+  inputProof: string;
+}
+
+// Backup file of every secret for one deployment
+export interface AnonymousSecretsFile {
+  chainId: number;
+  contract: string;
+  secrets: AnonymousSecret[];
+}
+
+// Random non-zero 64-bit secret, the size of the contract's euint64
+export function randomAnonymousSecret(): bigint {
+  const secret = BigInt(hexlify(randomBytes(8)));
+  return secret === BigInt(0) ? randomAnonymousSecret() : secret;
+}
+
+// `secrets` with `added` replacing any entry for the same poll and voter
+export function mergeAnonymousSecrets(secrets: AnonymousSecret[], added: AnonymousSecret[]): AnonymousSecret[] {
+  const key = (entry: AnonymousSecret) => `${entry.pollId}:${entry.voter.toLowerCase()}`;
+  const replaced = new Set(added.map(key));
+  return [...secrets.filter((entry) => !replaced.has(key(entry))), ...added];
+}
+
+// The secret for a poll, preferring the one `voter` registered
+export function findAnonymousSecret(
+  secrets: AnonymousSecret[],
+  pollId: number,
+  voter?: string,
+): AnonymousSecret | undefined {
+  const forPoll = secrets.filter((entry) => entry.pollId === pollId);
+  return forPoll.find((entry) => entry.voter.toLowerCase() === voter?.toLowerCase()) ?? forPoll[0];
+}
+
+// Secrets from a backup file, which must belong to the same deployment
+export function parseAnonymousSecretsFile(json: string, chainId: number, contract: string): AnonymousSecret[] {
+  const file = JSON.parse(json) as AnonymousSecretsFile;
+  if (file.chainId !== chainId || file.contract?.toLowerCase() !== contract.toLowerCase()) {
+    throw new Error("Secrets file belongs to another network or contract");
+  }
+  return file.secrets;
+}
+
+async function relayerRequest<T>(relayerUrl: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(`${relayerUrl.replace(/\/$/, "")}/anonymous`, init);
+  const body = (await response.json()) as T & { error?: string };
+  if (!response.ok) {
+    throw new Error(body.error ?? `Relayer responded with ${response.status}`);
+  }
+  return body;
+}
+
+// Address that sends anonymous ballots, which their encrypted inputs must be created for
+export async function fetchAnonymousRelayer(relayerUrl: string): Promise<`0x${string}`> {
+  const { relayer } = await relayerRequest<{ relayer: `0x${string}` }>(relayerUrl);
+  return relayer;
+}
+
+// Post an anonymous ballot to the relayer and return the hash of the transaction it sent
+export async function postAnonymousBallot(relayerUrl: string, ballot: AnonymousBallot): Promise<`0x${string}`> {
+  const { hash } = await relayerRequest<{ hash: `0x${string}` }>(relayerUrl, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(ballot),
+  });
+  return hash;
+}
@@ -0,0 +1,59 @@
+import { TypedDataDomain } from "ethers";
+
+/**
+ * ERC-2771 forward requests for sponsored (gasless) votes.
+ *
+ * The voter signs a `ForwardRequest` for `VoteForwarder` as EIP-712 typed data and posts it to the relayer, which
+ * submits it and pays the gas. Shared by the relayer task, the tests and the frontend.
+ */
+
+// A signed request as posted to the relayer; numbers travel as decimal strings
+export interface ForwardRequest {
+  from: string;
+  to: string;
+  value: string;
+  gas: string;
+  deadline: string;
+  data: string;
+  signature: string;
+}
+
+export const FORWARD_REQUEST_TYPES = {
+  ForwardRequest: [
+    { name: "from", type: "address" },
+    { name: "to", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "gas", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint48" },
+    { name: "data", type: "bytes" },
+  ],
+};
+
+// Gas forwarded to a relayed vote; the relayer refuses requests asking for more
+export const SPONSORED_VOTE_GAS = BigInt(10_000_000);
+
+// How long a signed request stays valid
+export const SPONSORED_VOTE_TTL_SECONDS = 600;
+
+// The only calls the relayer pays for: every ballot cast for its sender. The tests check this list against the
+// contract's voting entry points, so a new ballot type cannot be left out.
+export const SPONSORED_FUNCTIONS = ["vote", "voteRanked", "voteApproval", "voteCumulative", "submitValue"];
+
+export function forwarderDomain(chainId: bigint | number, forwarder: string): TypedDataDomain {
+  return { name: "VoteForwarder", version: "1", chainId, verifyingContract: forwarder };
+}
+
+// Post a signed request to the relayer and return the hash of the transaction it sent
+export async function postToRelayer(relayerUrl: string, request: ForwardRequest): Promise<`0x${string}`> {
+  const response = await fetch(`${relayerUrl.replace(/\/$/, "")}/relay`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(request),
+  });
+  const body = (await response.json()) as { hash?: `0x${string}`; error?: string };
+  if (!response.ok || !body.hash) {
+    throw new Error(body.error ?? `Relayer responded with ${response.status}`);
+  }
+  return body.hash;
+}
@@ -0,0 +1,100 @@
+/**
+ * Instant-runoff tally for ranked-choice polls.
+ *
+ * MultiChoiceVoting reveals how many ballots chose each complete ranking of the options, with
+ * rankings indexed in lexicographic order (see RankedChoiceBallot.ranking). That is enough to
+ * replay every elimination round exactly, here in the browser and in the Hardhat tasks.
+ */
+
+export interface RunoffRound {
+  tallies: number[]; // votes per option this round (0 for options already eliminated)
+  eliminated: number | null; // option dropped after this round, null for the deciding round
+}
+
+export interface RunoffResult {
+  rounds: RunoffRound[];
+  winner: number | null; // null when no valid ballot was cast
+}
+
+/** Number of complete rankings of `optionCount` options (n!) */
+export function rankingCount(optionCount: number): number {
+  let count = 1;
+  for (let i = 2; i <= optionCount; i++) {
+    count *= i;
+  }
+  return count;
+}
+
+/** The `index`-th ranking of option indices in lexicographic order, most preferred first */
+export function ranking(optionCount: number, index: number): number[] {
+  const remaining = Array.from({ length: optionCount }, (_, i) => i);
+  const order: number[] = [];
+  let stride = rankingCount(optionCount);
+  for (let position = 0; position < optionCount; position++) {
+    stride /= optionCount - position;
+    order.push(remaining.splice(Math.floor(index / stride), 1)[0]);
+    index %= stride;
+  }
+  return order;
+}
+
+/** Per-option ranks (0 = first preference) for a ballot listing options from most to least preferred */
+export function ranksFromOrder(order: readonly number[]): number[] {
+  const ranks = new Array<number>(order.length);
+  order.forEach((option, position) => {
+    ranks[option] = position;
+  });
+  return ranks;
+}
+
+/**
+ * Run instant-runoff rounds until an option holds a majority of the continuing ballots.
+ *
+ * Each round the option with the fewest votes is eliminated. Ties for last place are broken by the
+ * fewest votes in the most recent earlier round where the tied options differ, then by eliminating
+ * the option listed last.
+ */
+export function instantRunoff(optionCount: number, rankingCounts: readonly (number | bigint)[]): RunoffResult {
+  if (rankingCounts.length !== rankingCount(optionCount)) {
+    throw new Error(`Expected ${rankingCount(optionCount)} ranking counts, got ${rankingCounts.length}`);
+  }
+
+  const orders = rankingCounts.map((_, index) => ranking(optionCount, index));
+  const continuing = new Set(Array.from({ length: optionCount }, (_, i) => i));
+  const rounds: RunoffRound[] = [];
+
+  for (;;) {
+    const tallies = new Array<number>(optionCount).fill(0);
+    rankingCounts.forEach((count, index) => {
+      const top = orders[index].find((option) => continuing.has(option));
+      if (top !== undefined) {
+        tallies[top] += Number(count);
+      }
+    });
+
+    const total = tallies.reduce((sum, votes) => sum + votes, 0);
+    if (total === 0) {
+      rounds.push({ tallies, eliminated: null });
+      return { rounds, winner: null };
+    }
+
+    const candidates = [...continuing];
+    const leader = candidates.reduce((best, option) => (tallies[option] > tallies[best] ? option : best));
+    if (tallies[leader] * 2 > total || continuing.size === 1) {
+      rounds.push({ tallies, eliminated: null });
+      return { rounds, winner: leader };
+    }
+
+    const fewest = Math.min(...candidates.map((option) => tallies[option]));
+    let tied = candidates.filter((option) => tallies[option] === fewest);
+    for (let r = rounds.length - 1; r >= 0 && tied.length > 1; r--) {
+      const earlier = rounds[r].tallies;
+      const earlierFewest = Math.min(...tied.map((option) => earlier[option]));
+      tied = tied.filter((option) => earlier[option] === earlierFewest);
+    }
+    const eliminated = tied[tied.length - 1];
+
+    rounds.push({ tallies, eliminated });
+    continuing.delete(eliminated);
+  }
+}
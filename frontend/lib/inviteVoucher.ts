@@ -0,0 +1,70 @@
+import { AbiCoder, getAddress, hexlify, randomBytes, Signer, TypedDataDomain } from "ethers";
+
+/**
+ * One-time invite vouchers for invite-only polls.
+ *
+ * The poll creator signs `Voucher(pollId, voter, nonce)` as EIP-712 typed data under the voting contract's domain;
+ * the voter passes it to the vote functions as their `eligibilityProof`. Vouchers travel as JSON or as links whose
+ * query string carries the voucher. Shared by the Hardhat tasks, the tests and the frontend.
+ */
+
+export interface InviteVoucher {
+  pollId: string;
+  voter: string;
+  nonce: string;
+  signature: string;
+}
+
+export const VOUCHER_TYPES = {
+  Voucher: [
+    { name: "pollId", type: "uint256" },
+    { name: "voter", type: "address" },
+    { name: "nonce", type: "uint256" },
+  ],
+};
+
+export function voucherDomain(chainId: bigint | number, verifyingContract: string): TypedDataDomain {
+  return { name: "MultiChoiceVoting", version: "1", chainId, verifyingContract };
+}
+
+// Random nonce, so vouchers from separate batches never collide
+export function randomVoucherNonce(): bigint {
+  return BigInt(hexlify(randomBytes(16)));
+}
+
+export async function signInviteVoucher(
+  creator: Signer,
+  domain: TypedDataDomain,
+  pollId: bigint | number,
+  voter: string,
+  nonce: bigint = randomVoucherNonce()
+): Promise<InviteVoucher> {
+  const value = { pollId: BigInt(pollId), voter: getAddress(voter), nonce };
+  const signature = await creator.signTypedData(domain, VOUCHER_TYPES, value);
+  return { pollId: value.pollId.toString(), voter: value.voter, nonce: nonce.toString(), signature };
+}
+
+// The `eligibilityProof` argument the vote functions expect for an invite-only poll
+export function encodeInviteVoucher(voucher: InviteVoucher): `0x${string}` {
+  return AbiCoder.defaultAbiCoder().encode(["uint256", "bytes"], [voucher.nonce, voucher.signature]) as `0x${string}`;
+}
+
+// Shareable link to the voting page carrying the voucher in its query string
+export function inviteLink(baseUrl: string, voucher: InviteVoucher): string {
+  const url = new URL(baseUrl);
+  url.searchParams.set("poll", voucher.pollId);
+  url.searchParams.set("voter", voucher.voter);
+  url.searchParams.set("nonce", voucher.nonce);
+  url.searchParams.set("sig", voucher.signature);
+  return url.toString();
+}
+
+// Voucher carried by an invite link's query string, or null if it has none
+export function parseInviteQuery(search: string): InviteVoucher | null {
+  const params = new URLSearchParams(search);
+  const [pollId, voter, nonce, signature] = ["poll", "voter", "nonce", "sig"].map((key) => params.get(key));
+  if (!pollId || !voter || !nonce || !signature || !/^\d+$/.test(pollId) || !/^\d+$/.test(nonce)) {
+    return null;
+  }
+  return { pollId, voter, nonce, signature };
+}
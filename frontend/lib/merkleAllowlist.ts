@@ -0,0 +1,76 @@
+import { AbiCoder, concat, getAddress, isAddress, keccak256 } from "ethers";
+
+/**
+ * Merkle allowlists for gated polls, compatible with OpenZeppelin's `MerkleProof.verify`.
+ *
+ * Leaves are double-hashed, `keccak256(keccak256(abi.encode(address)))`, and pairs are hashed in sorted order,
+ * so a proof is just the sibling hashes from leaf to root. Shared by the Hardhat tasks, the tests and the frontend.
+ */
+
+export interface Allowlist {
+  root: string;
+  proofs: Record<string, string[]>; // checksummed address => sibling hashes
+}
+
+export function allowlistLeaf(address: string): string {
+  return keccak256(keccak256(AbiCoder.defaultAbiCoder().encode(["address"], [address])));
+}
+
+function hashPair(a: string, b: string): string {
+  return BigInt(a) < BigInt(b) ? keccak256(concat([a, b])) : keccak256(concat([b, a]));
+}
+
+// Build the tree over the given addresses (duplicates are ignored) and every address's proof
+export function buildAllowlist(addresses: string[]): Allowlist {
+  const members = [...new Set(addresses.map((address) => getAddress(address)))];
+  if (members.length === 0) {
+    throw new Error("Allowlist is empty");
+  }
+
+  // An odd node out is carried up to the next layer unchanged
+  const layers: string[][] = [members.map(allowlistLeaf)];
+  while (layers[layers.length - 1].length > 1) {
+    const layer = layers[layers.length - 1];
+    const next: string[] = [];
+    for (let i = 0; i < layer.length; i += 2) {
+      next.push(i + 1 < layer.length ? hashPair(layer[i], layer[i + 1]) : layer[i]);
+    }
+    layers.push(next);
+  }
+
+  const proofs: Record<string, string[]> = {};
+  members.forEach((address, leafIndex) => {
+    const proof: string[] = [];
+    let index = leafIndex;
+    for (const layer of layers.slice(0, -1)) {
+      const sibling = index ^ 1;
+      if (sibling < layer.length) {
+        proof.push(layer[sibling]);
+      }
+      index = Math.floor(index / 2);
+    }
+    proofs[address] = proof;
+  });
+
+  return { root: layers[layers.length - 1][0], proofs };
+}
+
+// Addresses from CSV text: the first column of every row, skipping headers and blank lines
+export function parseAllowlistCsv(csv: string): string[] {
+  return csv
+    .split(/\r?\n/)
+    .map((line) => line.split(",")[0].trim())
+    .filter((value) => isAddress(value));
+}
+
+// Proof for `address` in a proofs file, or null if it is not on the allowlist
+export function findAllowlistProof(allowlist: Allowlist, address: string): string[] | null {
+  const checksummed = getAddress(address);
+  const entry = Object.entries(allowlist.proofs).find(([member]) => getAddress(member) === checksummed);
+  return entry ? entry[1] : null;
+}
+
+// The `eligibilityProof` argument the vote functions expect for an allowlisted poll
+export function encodeAllowlistProof(proof: string[]): `0x${string}` {
+  return AbiCoder.defaultAbiCoder().encode(["bytes32[]"], [proof]) as `0x${string}`;
+}
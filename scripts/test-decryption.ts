@@ -29,11 +29,12 @@ async function main() {
   // Check if already finalized
   if (pollInfo[5]) {
     console.log("✅ Poll already finalized!");
-    const results = await voting.getResults(pollId);
+    const [results, invalidBallots] = await voting.getResults(pollId);
     console.log("\n📈 Results:");
     pollInfo[1].forEach((option: string, idx: number) => {
       console.log(`  ${option}: ${results[idx]} votes`);
     });
+    console.log(`  Invalid ballots: ${invalidBallots}`);
     return;
   }
 
@@ -65,11 +66,12 @@ async function main() {
     console.log("✅ Poll finalized!\n");
     
     // Get results
-    const results = await voting.getResults(pollId);
+    const [results, invalidBallots] = await voting.getResults(pollId);
     console.log("📈 Decrypted Results:");
     pollInfo[1].forEach((option: string, idx: number) => {
       console.log(`  ${option}: ${results[idx]} votes`);
     });
+    console.log(`  Invalid ballots: ${invalidBallots}`);
   } else {
     console.log("⚠️  Decryption pending. Check back in a moment.");
   }
@@ -114,11 +116,12 @@ async function main() {
   // Check if already finalized
   if (pollInfo[5]) {
     console.log("✅ Poll already finalized!");
-    const results = await voting.getResults(pollId);
+    const [results, invalidBallots] = await voting.getResults(pollId);
     console.log("\n📈 Results:");
     pollInfo[1].forEach((option: string, idx: number) => {
       console.log(`  ${option}: ${results[idx]} votes`);
     });
+    console.log(`  Invalid ballots: ${invalidBallots}`);
     return;
   }
 
@@ -150,11 +153,12 @@ async function main() {
     console.log("✅ Poll finalized!\n");
     
     // Get results
-    const results = await voting.getResults(pollId);
+    const [results, invalidBallots] = await voting.getResults(pollId);
     console.log("📈 Decrypted Results:");
     pollInfo[1].forEach((option: string, idx: number) => {
       console.log(`  ${option}: ${results[idx]} votes`);
     });
+    console.log(`  Invalid ballots: ${invalidBallots}`);
   } else {
     console.log("⚠️  Decryption pending. Check back in a moment.");
   }
@@ -5,6 +5,35 @@
 
 import { ethers } from "hardhat";
 
+// Anyone may reveal once voting has ended
+const defaultSettings = {
+  revealPolicy: 0,
+  revealGracePeriod: 0,
+  creatorLiveView: false,
+  minVoters: 0,
+  ballotType: 0,
+  creditBudget: 0,
+  quadraticCost: false,
+  revotable: false,
+  votingToken: ethers.ZeroAddress,
+  snapshotBlock: 0,
+  confidentialToken: false,
+  delegationRegistry: ethers.ZeroAddress,
+  allowlistRoot: ethers.ZeroHash,
+  gatingCollection: ethers.ZeroAddress,
+  inviteOnly: false,
+  anonymousVoting: false,
+  decryptionTimeout: 0,
+  committee: [] as string[],
+  committeeThreshold: 0,
+  winnerOnly: false,
+  winnerMargin: 0,
+  passThreshold: 0,
+  privacyEpsilon: 0,
+  minValue: 0,
+  maxValue: 0,
+};
+
 async function main() {
   const contractAddress = "0xf5c1F62b602cCf3545ff5ed90e7eC7032915fE8D";
   
@@ -31,7 +60,7 @@ async function main() {
     const startTime = Math.floor(Date.now() / 1000); // Now
     const endTime = startTime + 3600; // 1 hour from now
 
-    const createTx = await voting.createPoll(title, options, startTime, endTime);
+    const createTx = await voting.createPoll(title, options, startTime, endTime, defaultSettings);
     console.log(`📤 Transaction sent: ${createTx.hash}`);
     console.log(`   Etherscan: https://sepolia.etherscan.io/tx/${createTx.hash}`);
     
@@ -97,7 +126,7 @@ async function main() {
     const startTime = Math.floor(Date.now() / 1000); // Now
     const endTime = startTime + 3600; // 1 hour from now
 
-    const createTx = await voting.createPoll(title, options, startTime, endTime);
+    const createTx = await voting.createPoll(title, options, startTime, endTime, defaultSettings);
     console.log(`📤 Transaction sent: ${createTx.hash}`);
     console.log(`   Etherscan: https://sepolia.etherscan.io/tx/${createTx.hash}`);
     
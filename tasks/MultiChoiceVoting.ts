@@ -1,25 +1,127 @@
+import fs from "fs";
 import { task } from "hardhat/config";
 import type { TaskArguments } from "hardhat/types";
+import { instantRunoff } from "../frontend/lib/instantRunoff";
+import { InviteVoucher, inviteLink, signInviteVoucher, voucherDomain } from "../frontend/lib/inviteVoucher";
+import { buildAllowlist, parseAllowlistCsv } from "../frontend/lib/merkleAllowlist";
+
+const REVEAL_POLICIES: Record<string, number> = {
+  afterEnd: 0,
+  creatorEarly: 1,
+  afterGrace: 2,
+};
+
+const BALLOT_TYPES: Record<string, number> = {
+  single: 0,
+  ranked: 1,
+  approval: 2,
+  cumulative: 3,
+  numeric: 4,
+};
 
 task("task:createPoll", "Create a new poll")
   .addParam("title", "The poll title")
-  .addParam("options", "Comma-separated list of options")
+  .addOptionalParam("options", "Comma-separated list of options (decision polls get Yes, No and Abstain; numeric none)")
   .addParam("duration", "Duration in seconds", "3600")
+  .addParam("reveal", "Reveal policy: afterEnd, creatorEarly or afterGrace", "afterEnd")
+  .addParam("grace", "Reveal grace period in seconds (afterGrace only)", "0")
+  .addFlag("liveview", "Let the creator decrypt the running tally before finalization")
+  .addParam("minvoters", "Minimum turnout before results may be decrypted", "0")
+  .addParam("ballot", "Ballot type: single, ranked (2-4 options), approval, cumulative or numeric", "single")
+  .addOptionalParam("range", "Numeric polls: smallest and largest answer, comma-separated (e.g. 0,100)")
+  .addParam("budget", "Credits per voter (cumulative only, 1-10000)", "0")
+  .addFlag("quadratic", "Charge n * n credits for n points on one option (cumulative only)")
+  .addFlag("revotable", "Let voters change their ballot until the poll ends (not for ranked polls)")
+  .addOptionalParam("token", "ERC20Votes token whose delegated votes weight each ballot (not for ranked polls)")
+  .addParam("snapshot", "Block at which voting power is read (0 = the block before creation)", "0")
+  .addFlag("confidential", "Treat --token as a ConfidentialVotesToken so vote weights stay encrypted (not with --liveview)")
+  .addFlag("delegation", "Honour delegations from the deployed DelegationRegistry (2-4 options; not ranked/confidential/allowlisted/invite-only)")
+  .addOptionalParam("allowlist", "Merkle root of the allowed voters, as printed by task:allowlist")
+  .addOptionalParam("collection", "ERC-721 collection whose holders vote once per token (local networks deploy MockNFT)")
+  .addFlag("invite", "Only voters holding an invite voucher signed by the creator may vote (see task:invites)")
+  .addOptionalParam("anonymous", "Make the poll anonymous, with this many seconds of registration before voting")
+  .addOptionalParam("committee", "Comma-separated committee members who must approve the reveal")
+  .addOptionalParam("threshold", "Committee approvals required before the reveal (default: all members)")
+  .addFlag("winneronly", "Reveal only the winning option, never the counts")
+  .addOptionalParam("margin", "Winner-only polls: also reveal whether the winner leads by at least this much", "0")
+  .addOptionalParam("decision", "Make a Yes/No/Abstain decision passing with this percent Yes of the Yes and No votes")
+  .addOptionalParam("timeout", "Seconds before a stuck decryption may be retried (0 = the contract's 1-day default)", "0")
+  .addOptionalParam("epsilon", "Add differentially private noise to the revealed counts with this epsilon (1-10)")
   .setAction(async function (taskArguments: TaskArguments, { ethers, deployments }) {
     const { deployer } = await ethers.getNamedSigners();
     const MultiChoiceVoting = await deployments.get("MultiChoiceVoting");
     const contract = await ethers.getContractAt("MultiChoiceVoting", MultiChoiceVoting.address);
 
-    const options = taskArguments.options.split(",").map((opt: string) => opt.trim());
-    const startTime = Math.floor(Date.now() / 1000);
+    const numeric = taskArguments.ballot === "numeric";
+    if (!taskArguments.decision && !numeric && !taskArguments.options) {
+      throw new Error("--options is required unless the poll is a --decision or numeric");
+    }
+    if (numeric && !taskArguments.range) {
+      throw new Error("--range is required for numeric polls");
+    }
+    // Decision polls always offer Yes, No and Abstain, in that order; numeric polls have no options
+    const options = taskArguments.decision
+      ? ["Yes", "No", "Abstain"]
+      : numeric
+        ? []
+        : taskArguments.options.split(",").map((opt: string) => opt.trim());
+    const [minValue, maxValue] = numeric ? taskArguments.range.split(",").map((bound: string) => parseInt(bound)) : [0, 0];
+    const registrationPeriod = taskArguments.anonymous ? parseInt(taskArguments.anonymous) : 0;
+    const startTime = Math.floor(Date.now() / 1000) + registrationPeriod;
     const endTime = startTime + parseInt(taskArguments.duration);
 
+    const revealPolicy = REVEAL_POLICIES[taskArguments.reveal];
+    if (revealPolicy === undefined) {
+      throw new Error(`Unknown reveal policy "${taskArguments.reveal}"`);
+    }
+    const ballotType = BALLOT_TYPES[taskArguments.ballot];
+    if (ballotType === undefined) {
+      throw new Error(`Unknown ballot type "${taskArguments.ballot}"`);
+    }
+    const committee: string[] = taskArguments.committee
+      ? taskArguments.committee.split(",").map((member: string) => member.trim())
+      : [];
+    const delegationRegistry = taskArguments.delegation
+      ? (await deployments.get("DelegationRegistry")).address
+      : ethers.ZeroAddress;
+    const settings = {
+      revealPolicy,
+      revealGracePeriod: parseInt(taskArguments.grace),
+      creatorLiveView: Boolean(taskArguments.liveview),
+      minVoters: parseInt(taskArguments.minvoters),
+      ballotType,
+      creditBudget: parseInt(taskArguments.budget),
+      quadraticCost: Boolean(taskArguments.quadratic),
+      revotable: Boolean(taskArguments.revotable),
+      votingToken: taskArguments.token ?? ethers.ZeroAddress,
+      snapshotBlock: parseInt(taskArguments.snapshot),
+      confidentialToken: Boolean(taskArguments.confidential),
+      delegationRegistry,
+      allowlistRoot: taskArguments.allowlist ?? ethers.ZeroHash,
+      gatingCollection: taskArguments.collection ?? ethers.ZeroAddress,
+      inviteOnly: Boolean(taskArguments.invite),
+      anonymousVoting: registrationPeriod > 0,
+      decryptionTimeout: parseInt(taskArguments.timeout),
+      committee,
+      committeeThreshold: taskArguments.threshold ? parseInt(taskArguments.threshold) : committee.length,
+      winnerOnly: Boolean(taskArguments.winneronly),
+      winnerMargin: parseInt(taskArguments.margin),
+      passThreshold: taskArguments.decision ? parseInt(taskArguments.decision) : 0,
+      privacyEpsilon: taskArguments.epsilon ? Math.round(parseFloat(taskArguments.epsilon) * 100) : 0,
+      minValue,
+      maxValue,
+    };
+
     console.log("Creating poll...");
     console.log("Title:", taskArguments.title);
     console.log("Options:", options);
     console.log("Duration:", taskArguments.duration, "seconds");
+    console.log("Reveal policy:", taskArguments.reveal);
+    console.log("Ballot type:", taskArguments.ballot);
 
-    const tx = await contract.connect(deployer).createPoll(taskArguments.title, options, startTime, endTime);
+    const tx = await contract
+      .connect(deployer)
+      .createPoll(taskArguments.title, options, startTime, endTime, settings);
     const receipt = await tx.wait();
 
     console.log(`Poll created! Transaction: ${receipt.hash}`);
@@ -33,6 +135,13 @@ task("task:getPollInfo", "Get poll information")
 
     const pollId = parseInt(taskArguments.pollid);
     const pollInfo = await contract.getPollInfo(pollId);
+    const settings = await contract.getPollSettings(pollId);
+    const revealPolicyName = Object.keys(REVEAL_POLICIES).find(
+      (name) => REVEAL_POLICIES[name] === Number(settings.revealPolicy),
+    );
+    const ballotTypeName = Object.keys(BALLOT_TYPES).find(
+      (name) => BALLOT_TYPES[name] === Number(settings.ballotType),
+    );
 
     console.log("\n=== Poll Information ===");
     console.log("Title:", pollInfo[0]);
@@ -40,9 +149,52 @@ task("task:getPollInfo", "Get poll information")
     console.log("Start Time:", new Date(Number(pollInfo[2]) * 1000).toLocaleString());
     console.log("End Time:", new Date(Number(pollInfo[3]) * 1000).toLocaleString());
     console.log("Creator:", pollInfo[4]);
+    console.log("Cancelled:", await contract.isCancelled(pollId));
     console.log("Finalized:", pollInfo[5]);
     console.log("Decryption Pending:", pollInfo[6]);
+    console.log(
+      "Decryption Timeout:",
+      `${settings.decryptionTimeout > 0n ? settings.decryptionTimeout : await contract.DEFAULT_DECRYPTION_TIMEOUT()}s`,
+    );
     console.log("Total Voters:", pollInfo[7].toString());
+    console.log("Reveal Policy:", revealPolicyName, `(grace ${settings.revealGracePeriod.toString()}s)`);
+    console.log("Creator Live View:", settings.creatorLiveView);
+    console.log("Minimum Voters:", settings.minVoters.toString());
+    console.log("Ballot Type:", ballotTypeName);
+    if (Number(settings.ballotType) === BALLOT_TYPES.numeric) {
+      console.log("Answer Range:", `${settings.minValue}-${settings.maxValue}`);
+    }
+    console.log("Revotable:", settings.revotable);
+    if (settings.delegationRegistry !== ethers.ZeroAddress) {
+      console.log("Delegation Registry:", settings.delegationRegistry);
+    }
+    if (settings.allowlistRoot !== ethers.ZeroHash) {
+      console.log("Allowlist Root:", settings.allowlistRoot);
+    }
+    if (settings.gatingCollection !== ethers.ZeroAddress) {
+      console.log("NFT Collection (one vote per token):", settings.gatingCollection);
+    }
+    console.log("Invite Only:", settings.inviteOnly);
+    if (settings.committee.length > 0) {
+      console.log(
+        "Reveal Committee:",
+        `${await contract.getFinalizationApprovals(pollId)} of ${settings.committeeThreshold} approvals`,
+        `(members: ${settings.committee.join(", ")})`,
+      );
+    }
+    if (settings.anonymousVoting) {
+      console.log("Anonymous Voters Registered:", (await contract.getAnonymousVoterCount(pollId)).toString());
+    }
+    if (settings.votingToken !== ethers.ZeroAddress) {
+      console.log(
+        settings.confidentialToken ? "Confidential Voting Token:" : "Voting Token:",
+        settings.votingToken,
+        `(snapshot block ${settings.snapshotBlock})`,
+      );
+    }
+    if (Number(settings.ballotType) === BALLOT_TYPES.cumulative) {
+      console.log("Credit Budget:", `${settings.creditBudget}${settings.quadraticCost ? " (quadratic cost)" : ""}`);
+    }
   });
 
 task("task:getPollCount", "Get total number of polls").setAction(
@@ -71,6 +223,90 @@ task("task:requestFinalization", "Request poll finalization")
     console.log(`Finalization requested! Transaction: ${receipt.hash}`);
   });
 
+task("task:approveFinalization", "Approve a committee poll's reveal as one of its committee members")
+  .addParam("pollid", "The poll ID")
+  .addParam("from", "Index of the committee member's signer", "0")
+  .setAction(async function (taskArguments: TaskArguments, { ethers, deployments }) {
+    const signers = await ethers.getSigners();
+    const signer = signers[parseInt(taskArguments.from)];
+    const MultiChoiceVoting = await deployments.get("MultiChoiceVoting");
+    const contract = await ethers.getContractAt("MultiChoiceVoting", MultiChoiceVoting.address);
+
+    const pollId = parseInt(taskArguments.pollid);
+    const tx = await contract.connect(signer).approveFinalization(pollId);
+    const receipt = await tx.wait();
+
+    const settings = await contract.getPollSettings(pollId);
+    const approvals = await contract.getFinalizationApprovals(pollId);
+    console.log(`${signer.address} approved the reveal of poll ${pollId}. Transaction: ${receipt.hash}`);
+    console.log(`Approvals: ${approvals} of ${settings.committeeThreshold} required`);
+  });
+
+task("task:retryFinalization", "Request a poll's decryption again after the oracle has timed out")
+  .addParam("pollid", "The poll ID")
+  .setAction(async function (taskArguments: TaskArguments, { ethers, deployments }) {
+    const { deployer } = await ethers.getNamedSigners();
+    const MultiChoiceVoting = await deployments.get("MultiChoiceVoting");
+    const contract = await ethers.getContractAt("MultiChoiceVoting", MultiChoiceVoting.address);
+
+    const pollId = parseInt(taskArguments.pollid);
+    const [requestedAt, retryAfter] = await contract.getDecryptionStatus(pollId);
+    console.log(`Decryption of poll ${pollId} was requested ${new Date(Number(requestedAt) * 1000).toLocaleString()}`);
+    console.log(`Retry allowed after ${new Date(Number(retryAfter) * 1000).toLocaleString()}`);
+
+    const tx = await contract.connect(deployer).retryFinalization(pollId);
+    const receipt = await tx.wait();
+
+    console.log(`Decryption requested again (request ${await contract.getRequestId(pollId)}). Transaction: ${receipt.hash}`);
+  });
+
+task("task:cancelPoll", "Cancel a poll (creator only)")
+  .addParam("pollid", "The poll ID")
+  .setAction(async function (taskArguments: TaskArguments, { ethers, deployments }) {
+    const { deployer } = await ethers.getNamedSigners();
+    const MultiChoiceVoting = await deployments.get("MultiChoiceVoting");
+    const contract = await ethers.getContractAt("MultiChoiceVoting", MultiChoiceVoting.address);
+
+    const tx = await contract.connect(deployer).cancelPoll(parseInt(taskArguments.pollid));
+    const receipt = await tx.wait();
+
+    console.log(`Poll cancelled! Transaction: ${receipt.hash}`);
+  });
+
+task("task:extendPoll", "Push a poll's end time back (creator only)")
+  .addParam("pollid", "The poll ID")
+  .addParam("seconds", "Seconds to add to the current end time")
+  .setAction(async function (taskArguments: TaskArguments, { ethers, deployments }) {
+    const { deployer } = await ethers.getNamedSigners();
+    const MultiChoiceVoting = await deployments.get("MultiChoiceVoting");
+    const contract = await ethers.getContractAt("MultiChoiceVoting", MultiChoiceVoting.address);
+
+    const pollId = parseInt(taskArguments.pollid);
+    const pollInfo = await contract.getPollInfo(pollId);
+    const newEndTime = pollInfo[3] + BigInt(taskArguments.seconds);
+
+    const tx = await contract.connect(deployer).extendEndTime(pollId, newEndTime);
+    const receipt = await tx.wait();
+
+    console.log(`Voting now ends ${new Date(Number(newEndTime) * 1000).toLocaleString()}. Transaction: ${receipt.hash}`);
+  });
+
+task("task:editPoll", "Replace a poll's title and options before it starts (creator only)")
+  .addParam("pollid", "The poll ID")
+  .addParam("title", "The new poll title")
+  .addParam("options", "The new options, comma-separated")
+  .setAction(async function (taskArguments: TaskArguments, { ethers, deployments }) {
+    const { deployer } = await ethers.getNamedSigners();
+    const MultiChoiceVoting = await deployments.get("MultiChoiceVoting");
+    const contract = await ethers.getContractAt("MultiChoiceVoting", MultiChoiceVoting.address);
+
+    const options = taskArguments.options.split(",").map((option: string) => option.trim());
+    const tx = await contract.connect(deployer).editPoll(parseInt(taskArguments.pollid), taskArguments.title, options);
+    const receipt = await tx.wait();
+
+    console.log(`Poll edited! Transaction: ${receipt.hash}`);
+  });
+
 task("task:getResults", "Get poll results")
   .addParam("pollid", "The poll ID")
   .setAction(async function (taskArguments: TaskArguments, { ethers, deployments }) {
@@ -78,15 +314,191 @@ task("task:getResults", "Get poll results")
     const contract = await ethers.getContractAt("MultiChoiceVoting", MultiChoiceVoting.address);
 
     const pollId = parseInt(taskArguments.pollid);
-    const results = await contract.getResults(pollId);
+    if (await contract.isInsufficientTurnout(pollId)) {
+      const settings = await contract.getPollSettings(pollId);
+      console.log(`Poll ${pollId} closed below its minimum turnout of ${settings.minVoters}; no results were revealed.`);
+      return;
+    }
+
     const pollInfo = await contract.getPollInfo(pollId);
+    const settings = await contract.getPollSettings(pollId);
+
+    if (settings.passThreshold > 0n) {
+      const [passed, turnout] = await contract.getDecision(pollId);
+      console.log("\n=== Decision ===");
+      console.log("Title:", pollInfo[0]);
+      console.log(passed ? "PASSED" : "DID NOT PASS", `(needed ${settings.passThreshold}% Yes of the Yes and No votes)`);
+      console.log("Turnout:", turnout.toString(), "ballots");
+      return;
+    }
+
+    if (Number(settings.ballotType) === BALLOT_TYPES.numeric) {
+      const [sum, count, min, max] = await contract.getNumericResults(pollId);
+      console.log("\n=== Poll Results ===");
+      console.log("Title:", pollInfo[0]);
+      console.log("Answers:", count.toString(), `(clamped to ${settings.minValue}-${settings.maxValue})`);
+      if (count > 0n) {
+        console.log("Mean:", (Number(sum) / Number(count)).toFixed(2));
+        console.log("Min:", min.toString());
+        console.log("Max:", max.toString());
+      }
+      console.log("(Only these aggregates are revealed; individual answers stay encrypted.)");
+      return;
+    }
+
+    if (settings.winnerOnly) {
+      const [winner, decisive] = await contract.getWinner(pollId);
+      console.log("\n=== Poll Results ===");
+      console.log("Title:", pollInfo[0]);
+      console.log("Winner:", pollInfo[1][Number(winner)]);
+      if (settings.winnerMargin > 0n) {
+        console.log(`Leads every other option by at least ${settings.winnerMargin}:`, decisive);
+      }
+      console.log("(This poll reveals only the winner; counts stay encrypted.)");
+      console.log("\nTotal Voters:", pollInfo[7].toString());
+      return;
+    }
+
+    const [results, invalidBallots] = await contract.getResults(pollId);
+    const isRanked = Number(settings.ballotType) === BALLOT_TYPES.ranked;
+    const unit = Number(settings.ballotType) === BALLOT_TYPES.cumulative ? "points" : "votes";
 
     console.log("\n=== Poll Results ===");
     console.log("Title:", pollInfo[0]);
-    console.log("\nVote Counts:");
+    console.log(isRanked ? "\nFirst Preferences:" : "\nVote Counts:");
     pollInfo[1].forEach((option: string, index: number) => {
-      console.log(`  ${option}: ${results[index]} votes`);
+      console.log(`  ${option}: ${results[index]} ${unit}`);
     });
+    console.log(`  Invalid ballots: ${invalidBallots}`);
+    if (settings.privacyEpsilon > 0n) {
+      const noiseBound = await contract.getNoiseBound(pollId);
+      console.log(
+        `  (Differentially private, epsilon ${Number(settings.privacyEpsilon) / 100}: each count is within ±${noiseBound} of the true count, floored at zero.)`,
+      );
+    }
+
+    if (isRanked) {
+      const options: string[] = [...pollInfo[1]];
+      const runoff = instantRunoff(options.length, await contract.getRankingResults(pollId));
+
+      console.log("\nInstant-Runoff Rounds:");
+      runoff.rounds.forEach((round, index) => {
+        const tallies = options.map((option, i) => `${option} ${round.tallies[i]}`).join(", ");
+        const outcome = round.eliminated !== null ? `eliminated ${options[round.eliminated]}` : "decided";
+        console.log(`  Round ${index + 1}: ${tallies} -> ${outcome}`);
+      });
+      console.log("Winner:", runoff.winner !== null ? options[runoff.winner] : "none (no valid ballots)");
+    }
     console.log("\nTotal Voters:", pollInfo[7].toString());
   });
 
+task("task:mintConfidential", "Mint an encrypted ConfidentialVotesToken balance (deployer only)")
+  .addParam("to", "Recipient address")
+  .addParam("amount", "Amount to mint (encrypted before sending)")
+  .setAction(async function (taskArguments: TaskArguments, { ethers, deployments, fhevm }) {
+    await fhevm.initializeCLIApi();
+
+    const { deployer } = await ethers.getNamedSigners();
+    const ConfidentialVotesToken = await deployments.get("ConfidentialVotesToken");
+    const token = await ethers.getContractAt("ConfidentialVotesToken", ConfidentialVotesToken.address);
+
+    const encrypted = await fhevm
+      .createEncryptedInput(ConfidentialVotesToken.address, deployer.address)
+      .add64(BigInt(taskArguments.amount))
+      .encrypt();
+    const tx = await token.connect(deployer).mint(taskArguments.to, encrypted.handles[0], encrypted.inputProof);
+    const receipt = await tx.wait();
+
+    console.log(`Minted an encrypted balance to ${taskArguments.to}. Transaction: ${receipt.hash}`);
+  });
+
+task("task:delegate", "Delegate your vote to another address in the DelegationRegistry")
+  .addParam("to", "Delegate address")
+  .addParam("from", "Index of the signer delegating", "0")
+  .setAction(async function (taskArguments: TaskArguments, { ethers, deployments }) {
+    const signers = await ethers.getSigners();
+    const signer = signers[parseInt(taskArguments.from)];
+    const DelegationRegistry = await deployments.get("DelegationRegistry");
+    const registry = await ethers.getContractAt("DelegationRegistry", DelegationRegistry.address);
+
+    const tx = await registry.connect(signer).delegate(taskArguments.to);
+    const receipt = await tx.wait();
+
+    console.log(`${signer.address} delegated to ${taskArguments.to}. Transaction: ${receipt.hash}`);
+  });
+
+task("task:undelegate", "Revoke your delegation in the DelegationRegistry")
+  .addParam("from", "Index of the signer undelegating", "0")
+  .setAction(async function (taskArguments: TaskArguments, { ethers, deployments }) {
+    const signers = await ethers.getSigners();
+    const signer = signers[parseInt(taskArguments.from)];
+    const DelegationRegistry = await deployments.get("DelegationRegistry");
+    const registry = await ethers.getContractAt("DelegationRegistry", DelegationRegistry.address);
+
+    const previous = await registry.delegateOf(signer.address);
+    const tx = await registry.connect(signer).undelegate();
+    const receipt = await tx.wait();
+
+    console.log(`${signer.address} no longer delegates to ${previous}. Transaction: ${receipt.hash}`);
+  });
+
+task("task:allowlist", "Build a voter allowlist from a CSV of addresses and write every voter's proof")
+  .addParam("csv", "CSV file with one voter address in the first column of each row")
+  .addParam("out", "JSON file to write the root and proofs to", "allowlist-proofs.json")
+  .setAction(async function (taskArguments: TaskArguments) {
+    const addresses = parseAllowlistCsv(fs.readFileSync(taskArguments.csv, "utf8"));
+    const allowlist = buildAllowlist(addresses);
+    fs.writeFileSync(taskArguments.out, JSON.stringify(allowlist, null, 2));
+
+    console.log(`Allowlist of ${Object.keys(allowlist.proofs).length} addresses written to ${taskArguments.out}`);
+    console.log("Root:", allowlist.root);
+    console.log(`Create the poll with --allowlist ${allowlist.root} and share ${taskArguments.out} with the voters.`);
+  });
+
+task("task:invites", "Sign one-time invite vouchers for an invite-only poll (run as the poll's creator)")
+  .addParam("pollid", "The poll ID")
+  .addOptionalParam("voters", "Comma-separated voter addresses")
+  .addOptionalParam("csv", "CSV file with one voter address in the first column of each row")
+  .addParam("format", "Output format: json (vouchers with their links) or links (one link per line)", "json")
+  .addParam("out", "File to write the vouchers to", "invites.json")
+  .addParam("baseurl", "Voting page the invite links open", "http://localhost:3000")
+  .setAction(async function (taskArguments: TaskArguments, { ethers, deployments }) {
+    const { deployer } = await ethers.getNamedSigners();
+    const MultiChoiceVoting = await deployments.get("MultiChoiceVoting");
+    const contract = await ethers.getContractAt("MultiChoiceVoting", MultiChoiceVoting.address);
+
+    if (taskArguments.format !== "json" && taskArguments.format !== "links") {
+      throw new Error(`Unknown format "${taskArguments.format}"`);
+    }
+    const voters: string[] = taskArguments.csv
+      ? parseAllowlistCsv(fs.readFileSync(taskArguments.csv, "utf8"))
+      : (taskArguments.voters ?? "").split(",").map((voter: string) => voter.trim()).filter(Boolean);
+    if (voters.length === 0) {
+      throw new Error("Pass the voters with --voters or --csv");
+    }
+
+    const pollId = BigInt(taskArguments.pollid);
+    const [settings, pollInfo] = await Promise.all([contract.getPollSettings(pollId), contract.getPollInfo(pollId)]);
+    if (!settings.inviteOnly) {
+      throw new Error(`Poll ${pollId} is not invite-only`);
+    }
+    if (pollInfo[4] !== deployer.address) {
+      throw new Error(`Vouchers must be signed by the poll's creator ${pollInfo[4]}, not ${deployer.address}`);
+    }
+
+    const { chainId } = await ethers.provider.getNetwork();
+    const domain = voucherDomain(chainId, MultiChoiceVoting.address);
+    const invites: (InviteVoucher & { link: string })[] = [];
+    for (const voter of voters) {
+      const voucher = await signInviteVoucher(deployer, domain, pollId, voter);
+      invites.push({ ...voucher, link: inviteLink(taskArguments.baseurl, voucher) });
+    }
+
+    const output =
+      taskArguments.format === "links"
+        ? invites.map((invite) => invite.link).join("\n") + "\n"
+        : JSON.stringify(invites, null, 2);
+    fs.writeFileSync(taskArguments.out, output);
+
+    console.log(`${invites.length} invite vouchers for poll ${pollId} written to ${taskArguments.out}`);
+  });
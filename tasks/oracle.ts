@@ -0,0 +1,57 @@
+import { task } from "hardhat/config";
+import type { TaskArguments } from "hardhat/types";
+
+/**
+ * Local decryption oracle for the mock FHEVM network.
+ *
+ * Watches `FinalizationRequested` events and relays every pending request through the
+ * plugin's mock oracle, which decrypts the handles and calls back `decryptionCallback`
+ * with KMS-signed cleartexts. This lets localhost behave like Sepolia.
+ *
+ * Usage: npx hardhat task:oracle --network localhost
+ */
+task("task:oracle", "Run a local decryption oracle that fulfils finalization requests")
+  .addOptionalParam("interval", "Polling interval in milliseconds", "2000")
+  .setAction(async function (taskArguments: TaskArguments, { ethers, deployments, fhevm }) {
+    if (!fhevm.isMock) {
+      throw new Error("task:oracle only runs against a mock FHEVM network (hardhat or localhost)");
+    }
+
+    await fhevm.initializeCLIApi();
+
+    const MultiChoiceVoting = await deployments.get("MultiChoiceVoting");
+    const contract = await ethers.getContractAt("MultiChoiceVoting", MultiChoiceVoting.address);
+    const interval = parseInt(taskArguments.interval);
+
+    console.log(`Local decryption oracle watching ${MultiChoiceVoting.address}`);
+
+    // Drain anything requested before the oracle was started
+    await fhevm.awaitDecryptionOracle();
+
+    let fromBlock = (await ethers.provider.getBlockNumber()) + 1;
+
+    for (;;) {
+      const toBlock = await ethers.provider.getBlockNumber();
+
+      if (toBlock >= fromBlock) {
+        const events = await contract.queryFilter(contract.filters.FinalizationRequested(), fromBlock, toBlock);
+
+        if (events.length > 0) {
+          for (const event of events) {
+            console.log(`Finalization requested for poll ${event.args.pollId} (request ${event.args.requestId})`);
+          }
+
+          await fhevm.awaitDecryptionOracle();
+
+          for (const event of events) {
+            const pollInfo = await contract.getPollInfo(event.args.pollId);
+            console.log(`Poll ${event.args.pollId} finalized: ${pollInfo[5]}`);
+          }
+        }
+
+        fromBlock = toBlock + 1;
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, interval));
+    }
+  });
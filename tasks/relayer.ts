@@ -0,0 +1,113 @@
+import http from "http";
+import { task } from "hardhat/config";
+import type { TaskArguments } from "hardhat/types";
+import { AnonymousBallot } from "../frontend/lib/anonymousVoter";
+import { ForwardRequest, SPONSORED_FUNCTIONS, SPONSORED_VOTE_GAS } from "../frontend/lib/forwardRequest";
+
+/**
+ * Local relayer for sponsored (gasless) votes.
+ *
+ * Accepts `POST /relay` with a voter's signed ERC-2771 forward request, checks that it is a vote on the
+ * deployed MultiChoiceVoting within the gas cap and that VoteForwarder accepts its signature, then submits it
+ * from one of the node's signers, which pays the gas. Responds with `{ hash }` or `{ error }`.
+ *
+ * Also sends anonymous ballots from its own address: `GET /anonymous` returns `{ relayer }`, the address the
+ * ballot's encrypted inputs must be created for, and `POST /anonymous` submits the ballot with `voteAnonymous`.
+ *
+ * Usage: npx hardhat task:relayer --network localhost
+ */
+task("task:relayer", "Run a local relayer that pays for signed vote requests")
+  .addOptionalParam("port", "Port to listen on", "8787")
+  .addOptionalParam("signer", "Index of the signer paying for relayed votes", "0")
+  .setAction(async function (taskArguments: TaskArguments, { ethers, deployments }) {
+    const MultiChoiceVoting = await deployments.get("MultiChoiceVoting");
+    const VoteForwarder = await deployments.get("VoteForwarder");
+    const signer = (await ethers.getSigners())[parseInt(taskArguments.signer)];
+    const voting = (await ethers.getContractAt("MultiChoiceVoting", MultiChoiceVoting.address)).connect(signer);
+    const forwarder = (await ethers.getContractAt("VoteForwarder", VoteForwarder.address)).connect(signer);
+
+    // Reason to refuse a request, or null if it may be relayed
+    const rejection = async (request: ForwardRequest): Promise<string | null> => {
+      if (!ethers.isAddress(request.to) || ethers.getAddress(request.to) !== MultiChoiceVoting.address) {
+        return "Only calls to MultiChoiceVoting are relayed";
+      }
+      const call = voting.interface.parseTransaction({ data: request.data });
+      if (!call || !SPONSORED_FUNCTIONS.includes(call.name)) {
+        return "Only votes are relayed";
+      }
+      if (BigInt(request.value) !== 0n || BigInt(request.gas) > SPONSORED_VOTE_GAS) {
+        return `Requests may not send value or ask for more than ${SPONSORED_VOTE_GAS} gas`;
+      }
+      if (!(await forwarder.verify(request))) {
+        return "Invalid signature, nonce or deadline";
+      }
+      return null;
+    };
+
+    const respond = (res: http.ServerResponse, status: number, body: object) => {
+      res.writeHead(status, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(body));
+    };
+
+    const server = http.createServer((req, res) => {
+      // The frontend posts from another origin
+      res.setHeader("Access-Control-Allow-Origin", "*");
+      res.setHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
+      res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+      if (req.method === "OPTIONS") {
+        res.writeHead(204).end();
+        return;
+      }
+      if (req.method === "GET" && req.url === "/anonymous") {
+        respond(res, 200, { relayer: signer.address });
+        return;
+      }
+      if (req.method !== "POST" || (req.url !== "/relay" && req.url !== "/anonymous")) {
+        respond(res, 404, { error: "POST signed requests to /relay or anonymous ballots to /anonymous" });
+        return;
+      }
+
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", async () => {
+        try {
+          if (req.url === "/anonymous") {
+            // The contract rejects anything but a well-formed ballot on an open anonymous poll
+            const ballot = JSON.parse(body) as AnonymousBallot;
+            const tx = await voting.voteAnonymous(
+              ballot.pollId,
+              ballot.encryptedOptionIndex,
+              ballot.encryptedSecret,
+              ballot.inputProof,
+            );
+            console.log(`Relaying anonymous ballot on poll ${ballot.pollId}: ${tx.hash}`);
+            await tx.wait();
+            respond(res, 200, { hash: tx.hash });
+            return;
+          }
+
+          const request = JSON.parse(body) as ForwardRequest;
+          const reason = await rejection(request);
+          if (reason) {
+            respond(res, 400, { error: reason });
+            return;
+          }
+
+          const tx = await forwarder.execute(request);
+          console.log(`Relaying vote from ${request.from}: ${tx.hash}`);
+          await tx.wait();
+          respond(res, 200, { hash: tx.hash });
+        } catch (err) {
+          console.error("Relay failed:", err);
+          respond(res, 500, { error: err instanceof Error ? err.message : "Relay failed" });
+        }
+      });
+    });
+
+    server.listen(parseInt(taskArguments.port));
+    console.log(`Relayer paying from ${signer.address} for votes on ${MultiChoiceVoting.address}`);
+    console.log(`Listening on http://localhost:${taskArguments.port}/relay and /anonymous`);
+
+    // Serve until interrupted
+    await new Promise(() => {});
+  });
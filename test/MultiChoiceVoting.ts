@@ -1,8 +1,28 @@
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
 import { ethers, fhevm } from "hardhat";
-import { MultiChoiceVoting, MultiChoiceVoting__factory } from "../types";
+import {
+  ConfidentialVotesToken,
+  DelegationRegistry,
+  MockNFT,
+  MockNoiseSampler,
+  MockVotesToken,
+  MultiChoiceVoting,
+  MultiChoiceVoting__factory,
+  VoteForwarder,
+} from "../types";
 import { expect } from "chai";
 import { FhevmType } from "@fhevm/hardhat-plugin";
+import { instantRunoff, ranking, ranksFromOrder } from "../frontend/lib/instantRunoff";
+import {
+  FORWARD_REQUEST_TYPES,
+  forwarderDomain,
+  SPONSORED_FUNCTIONS,
+  SPONSORED_VOTE_GAS,
+  SPONSORED_VOTE_TTL_SECONDS,
+} from "../frontend/lib/forwardRequest";
+import { randomAnonymousSecret } from "../frontend/lib/anonymousVoter";
+import { encodeInviteVoucher, signInviteVoucher, voucherDomain } from "../frontend/lib/inviteVoucher";
+import { Allowlist, buildAllowlist, encodeAllowlistProof } from "../frontend/lib/merkleAllowlist";
 
 type Signers = {
   deployer: HardhatEthersSigner;
@@ -11,18 +31,77 @@ type Signers = {
   carol: HardhatEthersSigner;
 };
 
+const RevealPolicy = { AfterEnd: 0, CreatorEarly: 1, AnyoneAfterGrace: 2 };
+const BallotType = { SingleChoice: 0, RankedChoice: 1, Approval: 2, Cumulative: 3, Numeric: 4 };
+
+const defaultSettings = {
+  revealPolicy: RevealPolicy.AfterEnd,
+  revealGracePeriod: 0,
+  creatorLiveView: false,
+  minVoters: 0,
+  ballotType: BallotType.SingleChoice,
+  creditBudget: 0,
+  quadraticCost: false,
+  revotable: false,
+  votingToken: ethers.ZeroAddress,
+  snapshotBlock: 0,
+  confidentialToken: false,
+  delegationRegistry: ethers.ZeroAddress,
+  allowlistRoot: ethers.ZeroHash,
+  gatingCollection: ethers.ZeroAddress,
+  inviteOnly: false,
+  anonymousVoting: false,
+  decryptionTimeout: 0,
+  committee: [] as string[],
+  committeeThreshold: 0,
+  winnerOnly: false,
+  winnerMargin: 0,
+  passThreshold: 0,
+  privacyEpsilon: 0,
+  minValue: 0,
+  maxValue: 0,
+};
+
+async function latestTimestamp(): Promise<number> {
+  const block = await ethers.provider.getBlock("latest");
+  return block!.timestamp;
+}
+
+async function increaseTime(seconds: number) {
+  await ethers.provider.send("evm_increaseTime", [seconds]);
+  await ethers.provider.send("evm_mine", []);
+}
+
 async function deployFixture() {
-  const factory = (await ethers.getContractFactory("MultiChoiceVoting")) as MultiChoiceVoting__factory;
-  const contract = (await factory.deploy()) as MultiChoiceVoting;
+  const libraries: Record<string, string> = {};
+  for (const name of ["RankedChoiceBallot", "CumulativeBallot"]) {
+    const library = await (await ethers.getContractFactory(name)).deploy();
+    libraries[name] = await library.getAddress();
+  }
+  const ballotBox = await (await ethers.getContractFactory("BallotBox", { libraries })).deploy();
+  const voterEligibility = await (await ethers.getContractFactory("VoterEligibility")).deploy();
+  const pollLifecycle = await (await ethers.getContractFactory("PollLifecycle")).deploy();
+  const tallyReveal = await (await ethers.getContractFactory("TallyReveal")).deploy();
+  const factory = (await ethers.getContractFactory("MultiChoiceVoting", {
+    libraries: {
+      BallotBox: await ballotBox.getAddress(),
+      VoterEligibility: await voterEligibility.getAddress(),
+      PollLifecycle: await pollLifecycle.getAddress(),
+      TallyReveal: await tallyReveal.getAddress(),
+    },
+  })) as MultiChoiceVoting__factory;
+  const forwarder = (await (await ethers.getContractFactory("VoteForwarder")).deploy()) as VoteForwarder;
+  const contract = (await factory.deploy(await forwarder.getAddress())) as MultiChoiceVoting;
   const contractAddress = await contract.getAddress();
 
-  return { contract, contractAddress };
+  return { contract, contractAddress, forwarder };
 }
 
 describe("MultiChoiceVoting", function () {
   let signers: Signers;
   let votingContract: MultiChoiceVoting;
   let contractAddress: string;
+  let forwarder: VoteForwarder;
 
   before(async function () {
     const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
@@ -41,19 +120,19 @@ describe("MultiChoiceVoting", function () {
       this.skip();
     }
 
-    ({ contract: votingContract, contractAddress } = await deployFixture());
+    ({ contract: votingContract, contractAddress, forwarder } = await deployFixture());
   });
 
   describe("Poll Creation", function () {
     it("should create a poll successfully", async function () {
       const title = "Favorite Programming Language";
       const options = ["JavaScript", "Python", "Rust"];
-      const startTime = Math.floor(Date.now() / 1000);
+      const startTime = await latestTimestamp();
       const endTime = startTime + 3600; // 1 hour from now
 
       const tx = await votingContract
         .connect(signers.alice)
-        .createPoll(title, options, startTime, endTime);
+        .createPoll(title, options, startTime, endTime, defaultSettings);
       await tx.wait();
 
       const pollCount = await votingContract.getPollCount();
@@ -68,33 +147,33 @@ describe("MultiChoiceVoting", function () {
 
     it("should fail to create poll with empty title", async function () {
       const options = ["Option A", "Option B"];
-      const startTime = Math.floor(Date.now() / 1000);
+      const startTime = await latestTimestamp();
       const endTime = startTime + 3600;
 
       await expect(
-        votingContract.connect(signers.alice).createPoll("", options, startTime, endTime),
+        votingContract.connect(signers.alice).createPoll("", options, startTime, endTime, defaultSettings),
       ).to.be.revertedWith("Title cannot be empty");
     });
 
     it("should fail to create poll with too few options", async function () {
       const title = "Test Poll";
       const options = ["Only One"];
-      const startTime = Math.floor(Date.now() / 1000);
+      const startTime = await latestTimestamp();
       const endTime = startTime + 3600;
 
       await expect(
-        votingContract.connect(signers.alice).createPoll(title, options, startTime, endTime),
+        votingContract.connect(signers.alice).createPoll(title, options, startTime, endTime, defaultSettings),
       ).to.be.revertedWith("Must have 2-16 options");
     });
 
     it("should fail to create poll with invalid time range", async function () {
       const title = "Test Poll";
       const options = ["Option A", "Option B"];
-      const startTime = Math.floor(Date.now() / 1000);
+      const startTime = await latestTimestamp();
       const endTime = startTime - 100; // End before start
 
       await expect(
-        votingContract.connect(signers.alice).createPoll(title, options, startTime, endTime),
+        votingContract.connect(signers.alice).createPoll(title, options, startTime, endTime, defaultSettings),
       ).to.be.revertedWith("End time must be after start time");
     });
   });
@@ -105,12 +184,13 @@ describe("MultiChoiceVoting", function () {
     beforeEach(async function () {
       const title = "Best Framework";
       const options = ["React", "Vue", "Angular"];
-      const startTime = Math.floor(Date.now() / 1000) - 100; // Started
+      const startTime = await latestTimestamp() - 100; // Started
       const endTime = startTime + 3600;
 
+      // The deployer creates the poll with a live view so the tally can be checked mid-vote
       const tx = await votingContract
         .connect(signers.deployer)
-        .createPoll(title, options, startTime, endTime);
+        .createPoll(title, options, startTime, endTime, { ...defaultSettings, creatorLiveView: true });
       await tx.wait();
       pollId = 0;
     });
@@ -125,7 +205,7 @@ describe("MultiChoiceVoting", function () {
 
       const tx = await votingContract
         .connect(signers.alice)
-        .vote(pollId, encryptedVote.handles[0], encryptedVote.inputProof);
+        .vote(pollId, encryptedVote.handles[0], encryptedVote.inputProof, "0x");
       await tx.wait();
 
       const hasVoted = await votingContract.hasUserVoted(pollId, signers.alice.address);
@@ -144,7 +224,7 @@ describe("MultiChoiceVoting", function () {
 
       await votingContract
         .connect(signers.alice)
-        .vote(pollId, encryptedVote.handles[0], encryptedVote.inputProof);
+        .vote(pollId, encryptedVote.handles[0], encryptedVote.inputProof, "0x");
 
       // Try to vote again
       const encryptedVote2 = await fhevm
@@ -153,7 +233,7 @@ describe("MultiChoiceVoting", function () {
         .encrypt();
 
       await expect(
-        votingContract.connect(signers.alice).vote(pollId, encryptedVote2.handles[0], encryptedVote2.inputProof),
+        votingContract.connect(signers.alice).vote(pollId, encryptedVote2.handles[0], encryptedVote2.inputProof, "0x"),
       ).to.be.revertedWith("Already voted");
     });
 
@@ -165,14 +245,14 @@ describe("MultiChoiceVoting", function () {
         .encrypt();
       await votingContract
         .connect(signers.alice)
-        .vote(pollId, aliceVote.handles[0], aliceVote.inputProof);
+        .vote(pollId, aliceVote.handles[0], aliceVote.inputProof, "0x");
 
       // Bob votes for option 1
       const bobVote = await fhevm
         .createEncryptedInput(contractAddress, signers.bob.address)
         .add32(1)
         .encrypt();
-      await votingContract.connect(signers.bob).vote(pollId, bobVote.handles[0], bobVote.inputProof);
+      await votingContract.connect(signers.bob).vote(pollId, bobVote.handles[0], bobVote.inputProof, "0x");
 
       // Carol votes for option 0
       const carolVote = await fhevm
@@ -181,7 +261,7 @@ describe("MultiChoiceVoting", function () {
         .encrypt();
       await votingContract
         .connect(signers.carol)
-        .vote(pollId, carolVote.handles[0], carolVote.inputProof);
+        .vote(pollId, carolVote.handles[0], carolVote.inputProof, "0x");
 
       const totalVoters = await votingContract.getTotalVoters(pollId);
       expect(totalVoters).to.equal(3);
@@ -200,64 +280,126 @@ describe("MultiChoiceVoting", function () {
           .createEncryptedInput(contractAddress, vote.signer.address)
           .add32(vote.choice)
           .encrypt();
-        await votingContract.connect(vote.signer).vote(pollId, encrypted.handles[0], encrypted.inputProof);
+        await votingContract.connect(vote.signer).vote(pollId, encrypted.handles[0], encrypted.inputProof, "0x");
       }
 
-      // Verify encrypted counts by decrypting them
+      // Verify encrypted counts by decrypting them as the creator
       const encryptedCount0 = await votingContract.getEncryptedCount(pollId, 0);
       const decryptedCount0 = await fhevm.userDecryptEuint(
-        FhevmType.euint32,
+        FhevmType.euint64,
         encryptedCount0,
         contractAddress,
-        signers.alice,
+        signers.deployer,
       );
       expect(decryptedCount0).to.equal(2); // React: 2 votes
 
       const encryptedCount1 = await votingContract.getEncryptedCount(pollId, 1);
       const decryptedCount1 = await fhevm.userDecryptEuint(
-        FhevmType.euint32,
+        FhevmType.euint64,
         encryptedCount1,
         contractAddress,
-        signers.alice,
+        signers.deployer,
       );
       expect(decryptedCount1).to.equal(1); // Vue: 1 vote
 
       const encryptedCount2 = await votingContract.getEncryptedCount(pollId, 2);
       const decryptedCount2 = await fhevm.userDecryptEuint(
-        FhevmType.euint32,
+        FhevmType.euint64,
         encryptedCount2,
         contractAddress,
-        signers.alice,
+        signers.deployer,
       );
       expect(decryptedCount2).to.equal(0); // Angular: 0 votes
     });
   });
 
+  describe("Tally Privacy", function () {
+    async function createPollWithVote(settings: typeof defaultSettings) {
+      const startTime = (await latestTimestamp()) - 100;
+      await votingContract
+        .connect(signers.deployer)
+        .createPoll("Private Poll", ["A", "B"], startTime, startTime + 3600, settings);
+
+      const encrypted = await fhevm
+        .createEncryptedInput(contractAddress, signers.alice.address)
+        .add32(1)
+        .encrypt();
+      await votingContract.connect(signers.alice).vote(0, encrypted.handles[0], encrypted.inputProof, "0x");
+      return 0;
+    }
+
+    it("should not let voters decrypt the running tally", async function () {
+      const pollId = await createPollWithVote({ ...defaultSettings, creatorLiveView: true });
+      const encryptedCount = await votingContract.getEncryptedCount(pollId, 1);
+
+      await expect(
+        fhevm.userDecryptEuint(FhevmType.euint64, encryptedCount, contractAddress, signers.alice),
+      ).to.be.rejected;
+    });
+
+    it("should not let the creator decrypt the running tally without a live view", async function () {
+      const pollId = await createPollWithVote(defaultSettings);
+      const encryptedCount = await votingContract.getEncryptedCount(pollId, 1);
+
+      await expect(
+        fhevm.userDecryptEuint(FhevmType.euint64, encryptedCount, contractAddress, signers.deployer),
+      ).to.be.rejected;
+    });
+
+    it("should let the creator peek at the running tally with a live view", async function () {
+      const pollId = await createPollWithVote({ ...defaultSettings, creatorLiveView: true });
+      const encryptedCount = await votingContract.getEncryptedCount(pollId, 1);
+
+      const count = await fhevm.userDecryptEuint(
+        FhevmType.euint64,
+        encryptedCount,
+        contractAddress,
+        signers.deployer,
+      );
+      expect(count).to.equal(1);
+    });
+  });
+
   describe("Poll Finalization", function () {
     let pollId: number;
 
     beforeEach(async function () {
       const title = "Color Poll";
       const options = ["Red", "Green", "Blue"];
-      const startTime = Math.floor(Date.now() / 1000) - 200;
-      const endTime = startTime + 100; // Already ended
+      const startTime = await latestTimestamp();
+      const endTime = startTime + 100;
 
       const tx = await votingContract
         .connect(signers.deployer)
-        .createPoll(title, options, startTime, endTime);
+        .createPoll(title, options, startTime, endTime, defaultSettings);
       await tx.wait();
       pollId = 0;
+
+      const votes = [
+        { signer: signers.alice, choice: 0 },
+        { signer: signers.bob, choice: 1 },
+        { signer: signers.carol, choice: 0 },
+      ];
+      for (const vote of votes) {
+        const encrypted = await fhevm
+          .createEncryptedInput(contractAddress, vote.signer.address)
+          .add32(vote.choice)
+          .encrypt();
+        await votingContract.connect(vote.signer).vote(pollId, encrypted.handles[0], encrypted.inputProof, "0x");
+      }
+
+      await increaseTime(100); // Voting has ended
     });
 
     it("should fail to finalize before voting ends", async function () {
       const title = "Future Poll";
       const options = ["A", "B"];
-      const startTime = Math.floor(Date.now() / 1000);
+      const startTime = await latestTimestamp();
       const endTime = startTime + 3600; // Still active
 
       const tx = await votingContract
         .connect(signers.deployer)
-        .createPoll(title, options, startTime, endTime);
+        .createPoll(title, options, startTime, endTime, defaultSettings);
       await tx.wait();
       const newPollId = 1;
 
@@ -273,6 +415,2048 @@ describe("MultiChoiceVoting", function () {
       const pollInfo = await votingContract.getPollInfo(pollId);
       expect(pollInfo[6]).to.equal(true); // decryptionPending should be true
     });
+
+    it("should finalize with oracle-signed results", async function () {
+      await votingContract.requestFinalization(pollId);
+      const requestId = await votingContract.getRequestId(pollId);
+      await fhevm.awaitDecryptionOracle();
+
+      const pollInfo = await votingContract.getPollInfo(pollId);
+      expect(pollInfo[5]).to.equal(true); // finalized
+      expect(pollInfo[6]).to.equal(false); // no longer pending
+
+      const [results, invalidBallots] = await votingContract.getResults(pollId);
+      expect(results).to.deep.equal([2n, 1n, 0n]);
+      expect(invalidBallots).to.equal(0);
+      await expect(votingContract.getRankingResults(pollId)).to.be.revertedWith("Poll is not ranked");
+
+      // A second answer to the same request is ignored, whatever it claims
+      const replayed = ethers.AbiCoder.defaultAbiCoder().encode(
+        ["uint256", "uint256", "uint256", "uint256"],
+        [0, 3, 0, 0],
+      );
+      expect(await votingContract.decryptionCallback.staticCall(requestId, replayed, "0x")).to.equal(false);
+      await votingContract.decryptionCallback(requestId, replayed, "0x");
+      expect((await votingContract.getResults(pollId))[0]).to.deep.equal([2n, 1n, 0n]);
+    });
+
+    it("should reveal zero counts for a poll nobody voted in", async function () {
+      const startTime = await latestTimestamp();
+      await votingContract
+        .connect(signers.deployer)
+        .createPoll("Empty Poll", ["A", "B", "C"], startTime, startTime + 100, defaultSettings);
+      const emptyPollId = 1;
+
+      await increaseTime(100);
+      await votingContract.requestFinalization(emptyPollId);
+      await fhevm.awaitDecryptionOracle();
+
+      const [results, invalidBallots] = await votingContract.getResults(emptyPollId);
+      expect(results).to.deep.equal([0n, 0n, 0n]);
+      expect(invalidBallots).to.equal(0);
+    });
+
+    it("should count out-of-range ballots as invalid so the tally matches turnout", async function () {
+      const startTime = await latestTimestamp();
+      await votingContract
+        .connect(signers.deployer)
+        .createPoll("Invalid Ballots", ["Yes", "No"], startTime, startTime + 3600, defaultSettings);
+      const livePollId = 1;
+
+      const votes = [
+        { signer: signers.alice, choice: 1 },
+        { signer: signers.bob, choice: 2 }, // one past the last option
+        { signer: signers.carol, choice: 4_000_000_000 },
+      ];
+      for (const vote of votes) {
+        const encrypted = await fhevm
+          .createEncryptedInput(contractAddress, vote.signer.address)
+          .add32(vote.choice)
+          .encrypt();
+        await votingContract.connect(vote.signer).vote(livePollId, encrypted.handles[0], encrypted.inputProof, "0x");
+      }
+
+      await increaseTime(3600);
+      await votingContract.requestFinalization(livePollId);
+      await fhevm.awaitDecryptionOracle();
+
+      const [results, invalidBallots] = await votingContract.getResults(livePollId);
+      expect(results).to.deep.equal([0n, 1n]);
+      expect(invalidBallots).to.equal(2);
+
+      // Invariant: every ballot lands in exactly one bucket
+      const totalVoters = await votingContract.getTotalVoters(livePollId);
+      const sum = results.reduce((acc, count) => acc + count, 0n) + invalidBallots;
+      expect(sum).to.equal(totalVoters);
+    });
+
+    it("should reject a decryption callback without valid KMS signatures", async function () {
+      await votingContract.requestFinalization(pollId);
+      const requestId = await votingContract.getRequestId(pollId);
+
+      // Options, then the invalid count
+      const forgedCleartexts = ethers.AbiCoder.defaultAbiCoder().encode(
+        ["uint256", "uint256", "uint256", "uint256"],
+        [100, 0, 0, 0],
+      );
+
+      await expect(
+        votingContract.connect(signers.alice).decryptionCallback(requestId, forgedCleartexts, "0x"),
+      ).to.be.reverted;
+
+      const pollInfo = await votingContract.getPollInfo(pollId);
+      expect(pollInfo[5]).to.equal(false); // still not finalized
+      expect(pollInfo[6]).to.equal(true); // still waiting for the oracle
+
+      // The oracle's signed answer is still accepted
+      await fhevm.awaitDecryptionOracle();
+      expect((await votingContract.getPollInfo(pollId))[5]).to.equal(true);
+      expect((await votingContract.getResults(pollId))[0]).to.deep.equal([2n, 1n, 0n]);
+    });
+
+    it("should let anyone re-request a decryption the oracle has not answered in time", async function () {
+      await votingContract.requestFinalization(pollId);
+      const firstRequestId = await votingContract.getRequestId(pollId);
+      const [requestedAt, retryAfter] = await votingContract.getDecryptionStatus(pollId);
+      expect(retryAfter - requestedAt).to.equal(await votingContract.DEFAULT_DECRYPTION_TIMEOUT());
+
+      await expect(votingContract.connect(signers.alice).retryFinalization(pollId)).to.be.revertedWith(
+        "Decryption has not timed out",
+      );
+
+      await increaseTime(Number(retryAfter - requestedAt) + 1);
+      await expect(votingContract.connect(signers.alice).retryFinalization(pollId)).to.emit(
+        votingContract,
+        "FinalizationRetried",
+      );
+      const secondRequestId = await votingContract.getRequestId(pollId);
+      expect(secondRequestId).to.not.equal(firstRequestId);
+
+      // Only the fresh request finalizes the poll; a late answer to the first one is ignored
+      await fhevm.awaitDecryptionOracle();
+      const pollInfo = await votingContract.getPollInfo(pollId);
+      expect(pollInfo[5]).to.equal(true);
+      expect(pollInfo[6]).to.equal(false);
+      await expect(votingContract.retryFinalization(pollId)).to.be.revertedWith("No pending decryption");
+    });
+
+    it("should reject a decryption timeout shorter than an hour", async function () {
+      const startTime = await latestTimestamp();
+      await expect(
+        votingContract.createPoll("Impatient", ["A", "B"], startTime, startTime + 3600, {
+          ...defaultSettings,
+          decryptionTimeout: 60,
+        }),
+      ).to.be.revertedWith("Decryption timeout too short");
+    });
+  });
+
+  describe("Poll Lifecycle", function () {
+    let startTime: number;
+
+    async function castVote(signer: HardhatEthersSigner, choice: number) {
+      const encrypted = await fhevm.createEncryptedInput(contractAddress, signer.address).add32(choice).encrypt();
+      return votingContract.connect(signer).vote(0, encrypted.handles[0], encrypted.inputProof, "0x");
+    }
+
+    beforeEach(async function () {
+      startTime = (await latestTimestamp()) + 600;
+      await votingContract
+        .connect(signers.alice)
+        .createPoll("Lunch", ["Pizza", "Sushi"], startTime, startTime + 3600, defaultSettings);
+    });
+
+    it("should let the creator edit title and options before voting starts", async function () {
+      await expect(votingContract.connect(signers.alice).editPoll(0, "Dinner", ["Pizza", "Sushi", "Tacos"]))
+        .to.emit(votingContract, "PollEdited")
+        .withArgs(0, "Dinner", ["Pizza", "Sushi", "Tacos"]);
+
+      const pollInfo = await votingContract.getPollInfo(0);
+      expect(pollInfo[0]).to.equal("Dinner");
+      expect(pollInfo[1]).to.deep.equal(["Pizza", "Sushi", "Tacos"]);
+      expect((await votingContract.getEncryptedCounts(0)).length).to.equal(3);
+
+      await expect(votingContract.connect(signers.bob).editPoll(0, "Mine", ["A", "B"])).to.be.revertedWith(
+        "Only the creator",
+      );
+      await expect(votingContract.connect(signers.alice).editPoll(0, "Dinner", ["Only one"])).to.be.revertedWith(
+        "Must have 2-16 options",
+      );
+
+      await increaseTime(600);
+      await expect(votingContract.connect(signers.alice).editPoll(0, "Late", ["A", "B"])).to.be.revertedWith(
+        "Voting has started",
+      );
+    });
+
+    it("should extend the end time within the bound", async function () {
+      const endTime = startTime + 3600;
+      const maxEndTime = await votingContract.getMaxEndTime(0);
+      expect(maxEndTime).to.equal(endTime + 30 * 24 * 3600);
+
+      await expect(votingContract.connect(signers.alice).extendEndTime(0, endTime + 3600))
+        .to.emit(votingContract, "PollExtended")
+        .withArgs(0, endTime + 3600);
+      await expect(votingContract.connect(signers.alice).extendEndTime(0, maxEndTime + 1n)).to.be.revertedWith(
+        "Extension too long",
+      );
+      await expect(votingContract.connect(signers.alice).extendEndTime(0, endTime)).to.be.revertedWith(
+        "New end time must be later",
+      );
+
+      // Still open past the original end
+      await increaseTime(600 + 3600 + 60);
+      await castVote(signers.bob, 1);
+
+      await increaseTime(3600);
+      await expect(votingContract.connect(signers.alice).extendEndTime(0, maxEndTime)).to.be.revertedWith(
+        "Voting has ended",
+      );
+    });
+
+    it("should stop voting and finalization once cancelled", async function () {
+      await increaseTime(600);
+      await castVote(signers.bob, 0);
+
+      await expect(votingContract.connect(signers.bob).cancelPoll(0)).to.be.revertedWith("Only the creator");
+      await expect(votingContract.connect(signers.alice).cancelPoll(0))
+        .to.emit(votingContract, "PollCancelled")
+        .withArgs(0);
+      expect(await votingContract.isCancelled(0)).to.equal(true);
+
+      await expect(castVote(signers.carol, 1)).to.be.revertedWith("Poll is cancelled");
+      await expect(votingContract.connect(signers.alice).cancelPoll(0)).to.be.revertedWith("Poll is cancelled");
+
+      await increaseTime(3600);
+      expect(await votingContract.canFinalize(0, signers.alice.address)).to.equal(false);
+      await expect(votingContract.requestFinalization(0)).to.be.revertedWith("Poll is cancelled");
+    });
+  });
+
+  describe("Reveal Policies", function () {
+    async function createLivePoll(settings: typeof defaultSettings) {
+      const startTime = (await latestTimestamp()) - 100;
+      await votingContract
+        .connect(signers.deployer)
+        .createPoll("Policy Poll", ["A", "B"], startTime, startTime + 3600, settings);
+      return 0;
+    }
+
+    it("AfterEnd: nobody may reveal before the poll ends", async function () {
+      const pollId = await createLivePoll(defaultSettings);
+
+      expect(await votingContract.canFinalize(pollId, signers.deployer.address)).to.equal(false);
+      await expect(
+        votingContract.connect(signers.deployer).requestFinalization(pollId),
+      ).to.be.revertedWith("Voting has not ended");
+
+      await increaseTime(3600);
+
+      expect(await votingContract.canFinalize(pollId, signers.alice.address)).to.equal(true);
+      await votingContract.connect(signers.alice).requestFinalization(pollId);
+      expect(await votingContract.canFinalize(pollId, signers.alice.address)).to.equal(false);
+    });
+
+    it("CreatorEarly: the creator may reveal a live poll, others must wait", async function () {
+      const pollId = await createLivePoll({ ...defaultSettings, revealPolicy: RevealPolicy.CreatorEarly });
+
+      expect(await votingContract.canFinalize(pollId, signers.alice.address)).to.equal(false);
+      await expect(
+        votingContract.connect(signers.alice).requestFinalization(pollId),
+      ).to.be.revertedWith("Voting has not ended");
+
+      expect(await votingContract.canFinalize(pollId, signers.deployer.address)).to.equal(true);
+      await votingContract.connect(signers.deployer).requestFinalization(pollId);
+
+      const pollInfo = await votingContract.getPollInfo(pollId);
+      expect(pollInfo[6]).to.equal(true); // decryptionPending
+    });
+
+    it("CreatorEarly: should close voting once the reveal is requested", async function () {
+      const pollId = await createLivePoll({ ...defaultSettings, revealPolicy: RevealPolicy.CreatorEarly });
+      const castVote = async (signer: HardhatEthersSigner, choice: number) => {
+        const encrypted = await fhevm.createEncryptedInput(contractAddress, signer.address).add32(choice).encrypt();
+        return votingContract.connect(signer).vote(pollId, encrypted.handles[0], encrypted.inputProof, "0x");
+      };
+      await castVote(signers.alice, 0);
+
+      await votingContract.connect(signers.deployer).requestFinalization(pollId);
+      await expect(castVote(signers.bob, 1)).to.be.revertedWith("Decryption already pending");
+
+      await fhevm.awaitDecryptionOracle();
+      const [counts, invalidCount] = await votingContract.getResults(pollId);
+      expect(counts).to.deep.equal([1n, 0n]);
+      expect(invalidCount).to.equal(0);
+      expect(await votingContract.getTotalVoters(pollId)).to.equal(1);
+    });
+
+    it("AnyoneAfterGrace: the creator may reveal after end, others after the grace period", async function () {
+      const pollId = await createLivePoll({
+        ...defaultSettings,
+        revealPolicy: RevealPolicy.AnyoneAfterGrace,
+        revealGracePeriod: 600,
+      });
+
+      const settings = await votingContract.getPollSettings(pollId);
+      expect(settings.revealPolicy).to.equal(RevealPolicy.AnyoneAfterGrace);
+      expect(settings.revealGracePeriod).to.equal(600);
+
+      await expect(
+        votingContract.connect(signers.deployer).requestFinalization(pollId),
+      ).to.be.revertedWith("Voting has not ended");
+
+      await increaseTime(3600);
+
+      expect(await votingContract.canFinalize(pollId, signers.deployer.address)).to.equal(true);
+      expect(await votingContract.canFinalize(pollId, signers.alice.address)).to.equal(false);
+      await expect(
+        votingContract.connect(signers.alice).requestFinalization(pollId),
+      ).to.be.revertedWith("Reveal grace period not over");
+
+      await increaseTime(600);
+
+      expect(await votingContract.canFinalize(pollId, signers.alice.address)).to.equal(true);
+      await votingContract.connect(signers.alice).requestFinalization(pollId);
+    });
+
+    it("should require a grace period for AnyoneAfterGrace", async function () {
+      const startTime = await latestTimestamp();
+
+      await expect(
+        votingContract
+          .connect(signers.alice)
+          .createPoll("Test Poll", ["A", "B"], startTime, startTime + 3600, {
+            ...defaultSettings,
+            revealPolicy: RevealPolicy.AnyoneAfterGrace,
+            revealGracePeriod: 0,
+          }),
+      ).to.be.revertedWith("Grace period required");
+    });
+  });
+
+  describe("Reveal Committee", function () {
+    async function createCommitteePoll(threshold: number) {
+      const startTime = (await latestTimestamp()) - 100;
+      await votingContract.connect(signers.deployer).createPoll("Board Poll", ["A", "B"], startTime, startTime + 3600, {
+        ...defaultSettings,
+        committee: [signers.alice.address, signers.bob.address, signers.carol.address],
+        committeeThreshold: threshold,
+      });
+      return 0;
+    }
+
+    it("should only allow the reveal once M of N members have approved", async function () {
+      const pollId = await createCommitteePoll(2);
+      const encrypted = await fhevm.createEncryptedInput(contractAddress, signers.bob.address).add32(1).encrypt();
+      await votingContract.connect(signers.bob).vote(pollId, encrypted.handles[0], encrypted.inputProof, "0x");
+      await increaseTime(3600);
+
+      expect(await votingContract.canFinalize(pollId, signers.deployer.address)).to.equal(false);
+      await expect(votingContract.requestFinalization(pollId)).to.be.revertedWith("Committee approval required");
+
+      await expect(votingContract.connect(signers.alice).approveFinalization(pollId))
+        .to.emit(votingContract, "FinalizationApproved")
+        .withArgs(pollId, signers.alice.address, 1);
+      await expect(votingContract.connect(signers.alice).approveFinalization(pollId)).to.be.revertedWith(
+        "Already approved",
+      );
+      await expect(votingContract.requestFinalization(pollId)).to.be.revertedWith("Committee approval required");
+
+      await votingContract.connect(signers.carol).approveFinalization(pollId);
+      expect(await votingContract.getFinalizationApprovals(pollId)).to.equal(2);
+      expect(await votingContract.hasApprovedFinalization(pollId, signers.carol.address)).to.equal(true);
+      expect(await votingContract.hasApprovedFinalization(pollId, signers.bob.address)).to.equal(false);
+
+      await expect(votingContract.requestFinalization(pollId)).to.emit(votingContract, "FinalizationRequested");
+      await expect(votingContract.connect(signers.bob).approveFinalization(pollId)).to.be.revertedWith(
+        "Decryption already pending",
+      );
+      await fhevm.awaitDecryptionOracle();
+      expect((await votingContract.getPollInfo(pollId))[5]).to.equal(true);
+      const [results, invalidBallots] = await votingContract.getResults(pollId);
+      expect(results).to.deep.equal([0n, 1n]);
+      expect(invalidBallots).to.equal(0);
+      await expect(votingContract.connect(signers.bob).approveFinalization(pollId)).to.be.revertedWith(
+        "Poll is finalized",
+      );
+    });
+
+    it("should reject approvals from outside the committee", async function () {
+      const pollId = await createCommitteePoll(1);
+
+      await expect(votingContract.connect(signers.deployer).approveFinalization(pollId)).to.be.revertedWith(
+        "Not a committee member",
+      );
+    });
+
+    it("should reject a threshold outside 1-N", async function () {
+      await expect(createCommitteePoll(4)).to.be.revertedWith("Committee threshold must be 1-N");
+      await expect(createCommitteePoll(0)).to.be.revertedWith("Committee threshold must be 1-N");
+    });
+  });
+
+  describe("Winner-Only Reveal", function () {
+    async function runPoll(choices: { signer: HardhatEthersSigner; choice: number }[], winnerMargin: number) {
+      const startTime = (await latestTimestamp()) - 100;
+      await votingContract
+        .connect(signers.deployer)
+        .createPoll("Winner Poll", ["A", "B", "C"], startTime, startTime + 3600, {
+          ...defaultSettings,
+          winnerOnly: true,
+          winnerMargin,
+        });
+      for (const { signer, choice } of choices) {
+        const encrypted = await fhevm.createEncryptedInput(contractAddress, signer.address).add32(choice).encrypt();
+        await votingContract.connect(signer).vote(0, encrypted.handles[0], encrypted.inputProof, "0x");
+      }
+      await increaseTime(3600);
+      await votingContract.requestFinalization(0);
+      await fhevm.awaitDecryptionOracle();
+    }
+
+    it("should reveal the leading option and whether it leads by the margin, but no counts", async function () {
+      await runPoll(
+        [
+          { signer: signers.alice, choice: 2 },
+          { signer: signers.bob, choice: 2 },
+          { signer: signers.carol, choice: 0 },
+        ],
+        1,
+      );
+
+      const [winner, decisive] = await votingContract.getWinner(0);
+      expect(winner).to.equal(2);
+      expect(decisive).to.equal(true);
+      await expect(votingContract.getResults(0)).to.be.revertedWith("Poll reveals only the winner");
+    });
+
+    it("should pick the lowest index on a tie and report it as not decisive", async function () {
+      await runPoll(
+        [
+          { signer: signers.alice, choice: 2 },
+          { signer: signers.bob, choice: 1 },
+        ],
+        1,
+      );
+
+      const [winner, decisive] = await votingContract.getWinner(0);
+      expect(winner).to.equal(1);
+      expect(decisive).to.equal(false);
+    });
+
+    it("should reveal the first option as a non-decisive winner when nobody voted", async function () {
+      await runPoll([], 1);
+
+      const [winner, decisive] = await votingContract.getWinner(0);
+      expect(winner).to.equal(0);
+      expect(decisive).to.equal(false);
+    });
+
+    it("should reject winner-only ranked polls", async function () {
+      const startTime = await latestTimestamp();
+      await expect(
+        votingContract.createPoll("Ranked Winner", ["A", "B"], startTime, startTime + 3600, {
+          ...defaultSettings,
+          ballotType: BallotType.RankedChoice,
+          winnerOnly: true,
+        }),
+      ).to.be.revertedWith("Poll type cannot reveal only the winner");
+    });
+  });
+
+  describe("Decision Polls", function () {
+    const YES = 0;
+    const NO = 1;
+    const ABSTAIN = 2;
+
+    async function decide(choices: { signer: HardhatEthersSigner; choice: number }[], passThreshold: number) {
+      const startTime = (await latestTimestamp()) - 100;
+      await votingContract
+        .connect(signers.deployer)
+        .createPoll("Proposal", ["Yes", "No", "Abstain"], startTime, startTime + 3600, {
+          ...defaultSettings,
+          passThreshold,
+        });
+      for (const { signer, choice } of choices) {
+        const encrypted = await fhevm.createEncryptedInput(contractAddress, signer.address).add32(choice).encrypt();
+        await votingContract.connect(signer).vote(0, encrypted.handles[0], encrypted.inputProof, "0x");
+      }
+      await increaseTime(3600);
+      await votingContract.requestFinalization(0);
+      await fhevm.awaitDecryptionOracle();
+      return votingContract.getDecision(0);
+    }
+
+    it("should pass when Yes clears the threshold of Yes and No votes, leaving abstentions out", async function () {
+      // 2 of 3 decided votes is 66.7%; counting the abstention it would be 50%
+      const [passed, turnout] = await decide(
+        [
+          { signer: signers.alice, choice: YES },
+          { signer: signers.bob, choice: YES },
+          { signer: signers.carol, choice: NO },
+          { signer: signers.deployer, choice: ABSTAIN },
+        ],
+        66,
+      );
+      expect(passed).to.equal(true);
+      expect(turnout).to.equal(4);
+      await expect(votingContract.getResults(0)).to.be.revertedWith("Poll reveals only pass/fail");
+    });
+
+    it("should fail below the threshold", async function () {
+      const [passed] = await decide(
+        [
+          { signer: signers.alice, choice: YES },
+          { signer: signers.bob, choice: NO },
+        ],
+        66,
+      );
+      expect(passed).to.equal(false);
+    });
+
+    it("should fail a decision nobody voted on", async function () {
+      const [passed, turnout] = await decide([], 50);
+      expect(passed).to.equal(false);
+      expect(turnout).to.equal(0);
+    });
+
+    it("should require exactly Yes, No and Abstain options", async function () {
+      const startTime = await latestTimestamp();
+      await expect(
+        votingContract.createPoll("Proposal", ["Yes", "No"], startTime, startTime + 3600, {
+          ...defaultSettings,
+          passThreshold: 50,
+        }),
+      ).to.be.revertedWith("Decisions need Yes, No and Abstain");
+    });
+  });
+
+  describe("Differential Privacy", function () {
+    const EPSILON = 100; // 1.00
+
+    async function createPrivatePoll() {
+      const startTime = (await latestTimestamp()) - 100;
+      await votingContract
+        .connect(signers.deployer)
+        .createPoll("Private Poll", ["A", "B", "C"], startTime, startTime + 3600, {
+          ...defaultSettings,
+          privacyEpsilon: EPSILON,
+        });
+      const choices = [
+        { signer: signers.alice, choice: 0 },
+        { signer: signers.bob, choice: 0 },
+        { signer: signers.carol, choice: 1 },
+      ];
+      for (const { signer, choice } of choices) {
+        const encrypted = await fhevm.createEncryptedInput(contractAddress, signer.address).add32(choice).encrypt();
+        await votingContract.connect(signer).vote(0, encrypted.handles[0], encrypted.inputProof, "0x");
+      }
+      await increaseTime(3600);
+    }
+
+    it("should reveal every count within the noise bound of the true count", async function () {
+      await createPrivatePoll();
+      await votingContract.requestFinalization(0);
+      await fhevm.awaitDecryptionOracle();
+
+      const bound = Number(await votingContract.getNoiseBound(0));
+      expect(bound).to.equal(8);
+      expect((await votingContract.getPollSettings(0)).privacyEpsilon).to.equal(EPSILON);
+
+      const [counts, invalid] = await votingContract.getResults(0);
+      [2, 1, 0].forEach((actual, i) => {
+        expect(Number(counts[i])).to.be.within(Math.max(actual - bound, 0), actual + bound);
+      });
+      expect(Number(invalid)).to.be.within(0, bound);
+    });
+
+    it("should add the noise only once when the reveal is retried", async function () {
+      await createPrivatePoll();
+      await votingContract.requestFinalization(0);
+      const noisyCounts = await votingContract.getEncryptedCounts(0);
+
+      await increaseTime(24 * 3600 + 1);
+      await votingContract.retryFinalization(0);
+      expect(await votingContract.getEncryptedCounts(0)).to.deep.equal(noisyCounts);
+    });
+
+    it("should give P(|noise| >= k) = 2a^k / (1 + a) with a = e^-epsilon, up to the noise bound", async function () {
+      const sampler = (await (await ethers.getContractFactory("MockNoiseSampler")).deploy()) as MockNoiseSampler;
+
+      for (const [epsilon, bound] of [
+        [100, 8],
+        [500, 4],
+        [1000, 2],
+      ]) {
+        const tails = await sampler.getTails(epsilon);
+        expect(tails.length).to.equal(bound);
+        const a = Math.exp(-epsilon / 100);
+        tails.forEach((tail, k) => {
+          const expected = ((2 * a ** (k + 1)) / (1 + a)) * 2 ** 32;
+          expect(Number(tail)).to.be.closeTo(expected, expected * 1e-6 + 1);
+        });
+      }
+    });
+
+    it("should draw symmetric discrete Laplace noise", async function () {
+      // 160 draws at epsilon 1: P(0) = (1 - a) / (1 + a) = 0.462 and variance 2a / (1 - a)^2 = 1.84, a = e^-1.
+      // Every bound below is at least 4 standard errors wide.
+      const sampler = (await (await ethers.getContractFactory("MockNoiseSampler")).deploy()) as MockNoiseSampler;
+      const samplerAddress = await sampler.getAddress();
+      // Batches of 8 keep each transaction within the HCU limit
+      for (let batch = 0; batch < 20; batch++) {
+        await sampler.connect(signers.alice).draw(EPSILON, 8);
+      }
+
+      const bound = 8;
+      const noise: number[] = [];
+      for (const handle of await sampler.getSamples()) {
+        const shifted = await fhevm.userDecryptEuint(FhevmType.euint32, handle, samplerAddress, signers.alice);
+        noise.push(Number(shifted) - bound);
+      }
+
+      const n = noise.length;
+      const mean = noise.reduce((sum, x) => sum + x, 0) / n;
+      const variance = noise.reduce((sum, x) => sum + (x - mean) ** 2, 0) / (n - 1);
+      const zeros = noise.filter((x) => x === 0).length;
+      const positive = noise.filter((x) => x > 0).length;
+      const negative = noise.filter((x) => x < 0).length;
+
+      expect(noise.every((x) => Math.abs(x) <= bound)).to.equal(true);
+      expect(zeros / n).to.be.closeTo(0.462, 0.16);
+      expect(mean).to.be.closeTo(0, 0.45);
+      expect(variance).to.be.within(0.9, 3.0);
+      expect(Math.abs(positive - negative)).to.be.below(40);
+    });
+
+    it("should reject an epsilon outside 1.00-10.00 and weighted polls", async function () {
+      const startTime = await latestTimestamp();
+      const create = (settings: Partial<typeof defaultSettings>) =>
+        votingContract.createPoll("Private Poll", ["A", "B"], startTime, startTime + 3600, {
+          ...defaultSettings,
+          ...settings,
+        });
+
+      await expect(create({ privacyEpsilon: 50 })).to.be.revertedWith("Privacy epsilon must be 1.00-10.00");
+      await expect(create({ privacyEpsilon: 1001 })).to.be.revertedWith("Privacy epsilon must be 1.00-10.00");
+      await expect(create({ privacyEpsilon: EPSILON, ballotType: BallotType.Approval })).to.be.revertedWith(
+        "Poll type cannot add noise",
+      );
+      await expect(create({ privacyEpsilon: EPSILON, creatorLiveView: true })).to.be.revertedWith(
+        "Poll type cannot add noise",
+      );
+    });
+
+    it("should reveal a private poll with the most options it allows, and no more", async function () {
+      const startTime = await latestTimestamp();
+      const options = ["A", "B", "C", "D", "E", "F", "G", "H", "I"];
+      const settings = { ...defaultSettings, privacyEpsilon: EPSILON };
+      await expect(
+        votingContract.createPoll("Private Poll", options, startTime, startTime + 3600, settings),
+      ).to.be.revertedWith("Private polls support 2-8 options");
+
+      // Every count is noised in one transaction, which must fit the HCU limit at the largest noise bound
+      await votingContract.createPoll("Private Poll", options.slice(0, 8), startTime, startTime + 3600, settings);
+      await increaseTime(3600);
+      await votingContract.requestFinalization(0);
+      await fhevm.awaitDecryptionOracle();
+
+      const [counts, invalid] = await votingContract.getResults(0);
+      expect(counts.length).to.equal(8);
+      counts.forEach((count) => expect(Number(count)).to.be.within(0, 8));
+      expect(Number(invalid)).to.be.within(0, 8);
+    });
+  });
+
+  describe("Numeric Polls", function () {
+    const numericSettings = { ...defaultSettings, ballotType: BallotType.Numeric, minValue: 0, maxValue: 100 };
+
+    async function submit(signer: HardhatEthersSigner, value: number) {
+      const encrypted = await fhevm.createEncryptedInput(contractAddress, signer.address).add32(value).encrypt();
+      return votingContract.connect(signer).submitValue(0, encrypted.handles[0], encrypted.inputProof, "0x");
+    }
+
+    beforeEach(async function () {
+      const startTime = (await latestTimestamp()) - 100;
+      await votingContract
+        .connect(signers.deployer)
+        .createPoll("Rate the venue", [], startTime, startTime + 3600, numericSettings);
+    });
+
+    it("should clamp answers to the range and reveal only their sum, count, min and max", async function () {
+      await submit(signers.alice, 30);
+      await submit(signers.bob, 250); // counted as 100
+      await submit(signers.carol, 20);
+      await increaseTime(3600);
+
+      await votingContract.requestFinalization(0);
+      await fhevm.awaitDecryptionOracle();
+
+      const [sum, count, min, max] = await votingContract.getNumericResults(0);
+      expect(sum).to.equal(150);
+      expect(count).to.equal(3);
+      expect(min).to.equal(20);
+      expect(max).to.equal(100);
+      await expect(votingContract.getResults(0)).to.be.revertedWith("Poll reveals only aggregates");
+    });
+
+    it("should reveal zero aggregates when nobody answered", async function () {
+      await increaseTime(3600);
+      await votingContract.requestFinalization(0);
+      await fhevm.awaitDecryptionOracle();
+
+      const [sum, count, min, max] = await votingContract.getNumericResults(0);
+      expect([sum, count, min, max]).to.deep.equal([0n, 0n, 0n, 0n]);
+    });
+
+    it("should give each voter their answer as counted", async function () {
+      await submit(signers.bob, 250);
+
+      const [amounts] = await votingContract.connect(signers.bob).getMyBallot(0);
+      const counted = await fhevm.userDecryptEuint(FhevmType.euint64, amounts[0], contractAddress, signers.bob);
+      expect(counted).to.equal(100);
+      await expect(submit(signers.bob, 10)).to.be.revertedWith("Already voted");
+    });
+
+    it("should reject option ballots, options and a missing range", async function () {
+      const encrypted = await fhevm
+        .createEncryptedInput(contractAddress, signers.alice.address)
+        .add32(0)
+        .encrypt();
+      await expect(
+        votingContract.connect(signers.alice).vote(0, encrypted.handles[0], encrypted.inputProof, "0x"),
+      ).to.be.revertedWith("Wrong ballot type");
+
+      const startTime = await latestTimestamp();
+      await expect(
+        votingContract.createPoll("Rate the venue", ["A", "B"], startTime, startTime + 3600, numericSettings),
+      ).to.be.revertedWith("Numeric polls take no options");
+      await expect(
+        votingContract.createPoll("Rate the venue", [], startTime, startTime + 3600, {
+          ...numericSettings,
+          maxValue: 0,
+        }),
+      ).to.be.revertedWith("Invalid numeric poll");
+      await expect(
+        votingContract.createPoll("Test Poll", ["A", "B"], startTime, startTime + 3600, {
+          ...defaultSettings,
+          maxValue: 10,
+        }),
+      ).to.be.revertedWith("Range needs a numeric poll");
+    });
+  });
+
+  describe("Minimum Turnout", function () {
+    let pollId: number;
+
+    beforeEach(async function () {
+      const startTime = (await latestTimestamp()) - 100;
+      await votingContract
+        .connect(signers.deployer)
+        .createPoll("Turnout Poll", ["A", "B"], startTime, startTime + 3600, {
+          ...defaultSettings,
+          revealPolicy: RevealPolicy.CreatorEarly,
+          minVoters: 2,
+        });
+      pollId = 0;
+    });
+
+    async function castVote(signer: HardhatEthersSigner, choice: number) {
+      const encrypted = await fhevm
+        .createEncryptedInput(contractAddress, signer.address)
+        .add32(choice)
+        .encrypt();
+      await votingContract.connect(signer).vote(pollId, encrypted.handles[0], encrypted.inputProof, "0x");
+    }
+
+    it("should not allow an early reveal below the threshold", async function () {
+      await castVote(signers.alice, 0);
+
+      expect(await votingContract.canFinalize(pollId, signers.deployer.address)).to.equal(false);
+      await expect(
+        votingContract.connect(signers.deployer).requestFinalization(pollId),
+      ).to.be.revertedWith("Insufficient turnout");
+    });
+
+    it("should close the poll without revealing results when voting ends below the threshold", async function () {
+      await castVote(signers.alice, 0);
+      await increaseTime(3600);
+
+      await expect(votingContract.connect(signers.bob).requestFinalization(pollId))
+        .to.emit(votingContract, "PollClosedInsufficientTurnout")
+        .withArgs(pollId, 1, 2);
+
+      const pollInfo = await votingContract.getPollInfo(pollId);
+      expect(pollInfo[5]).to.equal(true); // finalized
+      expect(pollInfo[6]).to.equal(false); // nothing sent to the oracle
+      expect(await votingContract.isInsufficientTurnout(pollId)).to.equal(true);
+      await expect(votingContract.getResults(pollId)).to.be.revertedWith("Insufficient turnout");
+    });
+
+    it("should reveal results once the threshold is met", async function () {
+      await castVote(signers.alice, 0);
+      await castVote(signers.bob, 1);
+
+      await votingContract.connect(signers.deployer).requestFinalization(pollId);
+      await fhevm.awaitDecryptionOracle();
+
+      expect(await votingContract.isInsufficientTurnout(pollId)).to.equal(false);
+      const [results] = await votingContract.getResults(pollId);
+      expect(results).to.deep.equal([1n, 1n]);
+    });
+  });
+
+  describe("Ranked Choice", function () {
+    let pollId: number;
+    let voters: HardhatEthersSigner[];
+
+    beforeEach(async function () {
+      voters = (await ethers.getSigners()).slice(1, 6);
+      const startTime = (await latestTimestamp()) - 100;
+      await votingContract
+        .connect(signers.deployer)
+        .createPoll("Ranked Poll", ["A", "B", "C"], startTime, startTime + 3600, {
+          ...defaultSettings,
+          ballotType: BallotType.RankedChoice,
+        });
+      pollId = 0;
+    });
+
+    async function castRanks(signer: HardhatEthersSigner, ranks: number[]) {
+      const input = fhevm.createEncryptedInput(contractAddress, signer.address);
+      ranks.forEach((rank) => input.add8(rank));
+      const encrypted = await input.encrypt();
+      await votingContract.connect(signer).voteRanked(pollId, encrypted.handles, encrypted.inputProof, "0x");
+    }
+
+    async function finalize() {
+      await increaseTime(3600);
+      await votingContract.connect(signers.deployer).requestFinalization(pollId);
+      await fhevm.awaitDecryptionOracle();
+    }
+
+    it("should only accept rankings for 2-4 options", async function () {
+      const startTime = await latestTimestamp();
+      await expect(
+        votingContract
+          .connect(signers.deployer)
+          .createPoll("Too Many", ["A", "B", "C", "D", "E"], startTime, startTime + 3600, {
+            ...defaultSettings,
+            ballotType: BallotType.RankedChoice,
+          }),
+      ).to.be.revertedWith("Ranked polls support 2-4 options");
+    });
+
+    it("should reject ballots of the wrong type", async function () {
+      const encrypted = await fhevm
+        .createEncryptedInput(contractAddress, signers.alice.address)
+        .add32(0)
+        .encrypt();
+      await expect(
+        votingContract.connect(signers.alice).vote(pollId, encrypted.handles[0], encrypted.inputProof, "0x"),
+      ).to.be.revertedWith("Wrong ballot type");
+    });
+
+    it("should reveal ranking counts that replay the instant-runoff rounds", async function () {
+      // 2x A>C>B, 2x B>C>A, 1x C>B>A: plurality ties A and B, C's transfer elects B
+      const orders = [[0, 2, 1], [0, 2, 1], [1, 2, 0], [1, 2, 0], [2, 1, 0]];
+      for (let i = 0; i < orders.length; i++) {
+        await castRanks(voters[i], ranksFromOrder(orders[i]));
+      }
+      await finalize();
+
+      const [firstPreferences, invalidBallots] = await votingContract.getResults(pollId);
+      expect(firstPreferences).to.deep.equal([2n, 2n, 1n]);
+      expect(invalidBallots).to.equal(0n);
+
+      const rankingCounts = await votingContract.getRankingResults(pollId);
+      expect(rankingCounts.length).to.equal(6);
+      rankingCounts.forEach((count, index) => {
+        const expected = orders.filter((order) => order.join() === ranking(3, index).join()).length;
+        expect(count).to.equal(BigInt(expected));
+      });
+
+      const runoff = instantRunoff(3, rankingCounts);
+      expect(runoff.rounds.map((round) => round.tallies)).to.deep.equal([
+        [2, 2, 1],
+        [2, 3, 0],
+      ]);
+      expect(runoff.rounds[0].eliminated).to.equal(2);
+      expect(runoff.winner).to.equal(1);
+    });
+
+    it("should reveal zero ranking counts when nobody voted", async function () {
+      await finalize();
+
+      expect(await votingContract.getRankingResults(pollId)).to.deep.equal([0n, 0n, 0n, 0n, 0n, 0n]);
+    });
+
+    it("should count ballots that are not a full ranking as invalid", async function () {
+      await castRanks(voters[0], [0, 1, 2]);
+      await castRanks(voters[1], [0, 0, 1]); // two first preferences
+      await castRanks(voters[2], [0, 1, 7]); // rank out of range
+      await finalize();
+
+      const [firstPreferences, invalidBallots] = await votingContract.getResults(pollId);
+      expect(firstPreferences).to.deep.equal([1n, 0n, 0n]);
+      expect(invalidBallots).to.equal(2n);
+
+      const rankingCounts = await votingContract.getRankingResults(pollId);
+      expect(rankingCounts.reduce((sum, count) => sum + count, 0n)).to.equal(1n);
+    });
+  });
+
+  describe("Approval Voting", function () {
+    let pollId: number;
+
+    beforeEach(async function () {
+      const startTime = (await latestTimestamp()) - 100;
+      await votingContract
+        .connect(signers.deployer)
+        .createPoll("Approval Poll", ["A", "B", "C"], startTime, startTime + 3600, {
+          ...defaultSettings,
+          ballotType: BallotType.Approval,
+        });
+      pollId = 0;
+    });
+
+    async function castApprovals(signer: HardhatEthersSigner, approvals: boolean[]) {
+      const input = fhevm.createEncryptedInput(contractAddress, signer.address);
+      approvals.forEach((approved) => input.addBool(approved));
+      const encrypted = await input.encrypt();
+      await votingContract.connect(signer).voteApproval(pollId, encrypted.handles, encrypted.inputProof, "0x");
+    }
+
+    it("should require one approval per option", async function () {
+      const encrypted = await fhevm
+        .createEncryptedInput(contractAddress, signers.alice.address)
+        .addBool(true)
+        .addBool(false)
+        .encrypt();
+      await expect(
+        votingContract.connect(signers.alice).voteApproval(pollId, encrypted.handles, encrypted.inputProof, "0x"),
+      ).to.be.revertedWith("One approval per option required");
+    });
+
+    it("should add each approval to its option and count empty ballots as blank", async function () {
+      await castApprovals(signers.alice, [true, true, false]);
+      await castApprovals(signers.bob, [false, true, true]);
+      await castApprovals(signers.carol, [false, false, false]);
+
+      await increaseTime(3600);
+      await votingContract.connect(signers.deployer).requestFinalization(pollId);
+      await fhevm.awaitDecryptionOracle();
+
+      const [results, invalidBallots] = await votingContract.getResults(pollId);
+      expect(results).to.deep.equal([1n, 2n, 1n]);
+      expect(invalidBallots).to.equal(1n);
+    });
+  });
+
+  describe("Cumulative Voting", function () {
+    async function createCumulativePoll(creditBudget: number, quadraticCost: boolean) {
+      const startTime = (await latestTimestamp()) - 100;
+      await votingContract
+        .connect(signers.deployer)
+        .createPoll("Budget Poll", ["A", "B", "C"], startTime, startTime + 3600, {
+          ...defaultSettings,
+          ballotType: BallotType.Cumulative,
+          creditBudget,
+          quadraticCost,
+        });
+      return 0;
+    }
+
+    async function castPoints(pollId: number, signer: HardhatEthersSigner, points: (number | bigint)[]) {
+      const input = fhevm.createEncryptedInput(contractAddress, signer.address);
+      points.forEach((value) => input.add32(value));
+      const encrypted = await input.encrypt();
+      await votingContract.connect(signer).voteCumulative(pollId, encrypted.handles, encrypted.inputProof, "0x");
+    }
+
+    async function finalize(pollId: number) {
+      await increaseTime(3600);
+      await votingContract.connect(signers.deployer).requestFinalization(pollId);
+      await fhevm.awaitDecryptionOracle();
+      return votingContract.getResults(pollId);
+    }
+
+    it("should require a credit budget", async function () {
+      const startTime = await latestTimestamp();
+      await expect(
+        votingContract
+          .connect(signers.deployer)
+          .createPoll("Budget Poll", ["A", "B"], startTime, startTime + 3600, {
+            ...defaultSettings,
+            ballotType: BallotType.Cumulative,
+          }),
+      ).to.be.revertedWith("Credit budget must be 1-10000");
+    });
+
+    it("should add points within the budget and zero over-budget ballots", async function () {
+      const pollId = await createCumulativePoll(10, false);
+      await castPoints(pollId, signers.alice, [7, 3, 0]);
+      await castPoints(pollId, signers.bob, [0, 5, 5]);
+      await castPoints(pollId, signers.carol, [6, 5, 0]); // 11 > 10
+
+      const [results, invalidBallots] = await finalize(pollId);
+      expect(results).to.deep.equal([7n, 8n, 5n]);
+      expect(invalidBallots).to.equal(1n);
+    });
+
+    it("should not let wrapped-around point totals slip under the budget", async function () {
+      const pollId = await createCumulativePoll(10, false);
+      await castPoints(pollId, signers.alice, [2n ** 32n - 1n, 1, 0]);
+
+      const [results, invalidBallots] = await finalize(pollId);
+      expect(results).to.deep.equal([0n, 0n, 0n]);
+      expect(invalidBallots).to.equal(1n);
+    });
+
+    it("should charge the square of the points under quadratic cost", async function () {
+      const pollId = await createCumulativePoll(9, true);
+      await castPoints(pollId, signers.alice, [2, 2, 1]); // 4 + 4 + 1 = 9
+      await castPoints(pollId, signers.bob, [3, 1, 0]); // 9 + 1 = 10 > 9
+
+      const [results, invalidBallots] = await finalize(pollId);
+      expect(results).to.deep.equal([2n, 2n, 1n]);
+      expect(invalidBallots).to.equal(1n);
+    });
+  });
+
+  describe("Revotable Polls", function () {
+    let pollId: number;
+
+    beforeEach(async function () {
+      const startTime = (await latestTimestamp()) - 100;
+      await votingContract
+        .connect(signers.deployer)
+        .createPoll("Revotable Poll", ["A", "B", "C"], startTime, startTime + 3600, {
+          ...defaultSettings,
+          revotable: true,
+        });
+      pollId = 0;
+    });
+
+    async function castVote(signer: HardhatEthersSigner, choice: number) {
+      const encrypted = await fhevm
+        .createEncryptedInput(contractAddress, signer.address)
+        .add32(choice)
+        .encrypt();
+      return votingContract.connect(signer).vote(pollId, encrypted.handles[0], encrypted.inputProof, "0x");
+    }
+
+    async function finalize() {
+      await increaseTime(3600);
+      await votingContract.connect(signers.deployer).requestFinalization(pollId);
+      await fhevm.awaitDecryptionOracle();
+      return votingContract.getResults(pollId);
+    }
+
+    it("should replace the previous ballot without changing turnout", async function () {
+      await castVote(signers.alice, 0);
+      await castVote(signers.bob, 0);
+      await expect(castVote(signers.alice, 2))
+        .to.emit(votingContract, "VoteChanged")
+        .withArgs(pollId, signers.alice.address);
+
+      expect(await votingContract.getTotalVoters(pollId)).to.equal(2);
+
+      const [results, invalidBallots] = await finalize();
+      expect(results).to.deep.equal([1n, 0n, 1n]);
+      expect(invalidBallots).to.equal(0n);
+    });
+
+    it("should take an invalid ballot back out of the invalid count", async function () {
+      await castVote(signers.alice, 9);
+      await castVote(signers.alice, 1);
+
+      const [results, invalidBallots] = await finalize();
+      expect(results).to.deep.equal([0n, 1n, 0n]);
+      expect(invalidBallots).to.equal(0n);
+    });
+
+    it("should not allow changes after the poll ends", async function () {
+      await castVote(signers.alice, 0);
+      await increaseTime(3600);
+
+      await expect(castVote(signers.alice, 1)).to.be.revertedWith("Voting has ended");
+    });
+
+    it("should not allow revotable ranked polls", async function () {
+      const startTime = await latestTimestamp();
+      await expect(
+        votingContract
+          .connect(signers.deployer)
+          .createPoll("Ranked", ["A", "B"], startTime, startTime + 3600, {
+            ...defaultSettings,
+            ballotType: BallotType.RankedChoice,
+            revotable: true,
+          }),
+      ).to.be.revertedWith("Ranked polls cannot be revotable");
+    });
+  });
+
+  describe("Voter Receipts", function () {
+    let pollId: number;
+
+    beforeEach(async function () {
+      const startTime = (await latestTimestamp()) - 100;
+      await votingContract
+        .connect(signers.deployer)
+        .createPoll("Receipt Poll", ["A", "B", "C"], startTime, startTime + 3600, {
+          ...defaultSettings,
+          revotable: true,
+        });
+      pollId = 0;
+
+      const encrypted = await fhevm
+        .createEncryptedInput(contractAddress, signers.alice.address)
+        .add32(2)
+        .encrypt();
+      await votingContract.connect(signers.alice).vote(pollId, encrypted.handles[0], encrypted.inputProof, "0x");
+    });
+
+    async function decryptBallot(signer: HardhatEthersSigner) {
+      const [amounts, invalidAmount] = await votingContract.connect(signer).getMyBallot(pollId);
+      const decrypted = [];
+      for (const handle of amounts) {
+        decrypted.push(await fhevm.userDecryptEuint(FhevmType.euint64, handle, contractAddress, signer));
+      }
+      decrypted.push(await fhevm.userDecryptEuint(FhevmType.euint32, invalidAmount, contractAddress, signer));
+      return decrypted;
+    }
+
+    it("should let the voter decrypt their own ballot", async function () {
+      expect(await decryptBallot(signers.alice)).to.deep.equal([0n, 0n, 1n, 0n]);
+    });
+
+    it("should show the latest ballot after a revote", async function () {
+      const encrypted = await fhevm
+        .createEncryptedInput(contractAddress, signers.alice.address)
+        .add32(0)
+        .encrypt();
+      await votingContract.connect(signers.alice).vote(pollId, encrypted.handles[0], encrypted.inputProof, "0x");
+
+      expect(await decryptBallot(signers.alice)).to.deep.equal([1n, 0n, 0n, 0n]);
+    });
+
+    it("should keep the ballot private from everyone else", async function () {
+      await expect(votingContract.connect(signers.bob).getMyBallot(pollId)).to.be.revertedWith("No ballot");
+
+      const [amounts] = await votingContract.connect(signers.alice).getMyBallot(pollId);
+      await expect(
+        fhevm.userDecryptEuint(FhevmType.euint64, amounts[2], contractAddress, signers.deployer),
+      ).to.be.rejected;
+    });
+  });
+
+  describe("Token-Weighted Polls", function () {
+    let token: MockVotesToken;
+    let tokenAddress: string;
+
+    beforeEach(async function () {
+      token = (await (await ethers.getContractFactory("MockVotesToken")).deploy()) as MockVotesToken;
+      tokenAddress = await token.getAddress();
+
+      // Voting power only counts once delegated, so each holder delegates to themselves
+      for (const [signer, amount] of [
+        [signers.alice, "5"],
+        [signers.bob, "2.5"],
+      ] as const) {
+        await token.mint(signer.address, ethers.parseEther(amount));
+        await token.connect(signer).delegate(signer.address);
+      }
+    });
+
+    async function createWeightedPoll(ballotType: number, creditBudget = 0) {
+      const startTime = (await latestTimestamp()) - 100;
+      await votingContract
+        .connect(signers.deployer)
+        .createPoll("Weighted Poll", ["A", "B", "C"], startTime, startTime + 3600, {
+          ...defaultSettings,
+          ballotType,
+          creditBudget,
+          votingToken: tokenAddress,
+        });
+      return 0;
+    }
+
+    async function finalize(pollId: number) {
+      await increaseTime(3600);
+      await votingContract.connect(signers.deployer).requestFinalization(pollId);
+      await fhevm.awaitDecryptionOracle();
+      return votingContract.getResults(pollId);
+    }
+
+    it("should snapshot the block before creation by default", async function () {
+      await createWeightedPoll(BallotType.SingleChoice);
+      const blockNumber = await ethers.provider.getBlockNumber();
+
+      const settings = await votingContract.getPollSettings(0);
+      expect(settings.votingToken).to.equal(tokenAddress);
+      expect(settings.snapshotBlock).to.equal(blockNumber - 1);
+    });
+
+    it("should reject a snapshot that is not in the past", async function () {
+      const startTime = await latestTimestamp();
+      const blockNumber = await ethers.provider.getBlockNumber();
+      await expect(
+        votingContract
+          .connect(signers.deployer)
+          .createPoll("Weighted Poll", ["A", "B"], startTime, startTime + 3600, {
+            ...defaultSettings,
+            votingToken: tokenAddress,
+            snapshotBlock: blockNumber + 10,
+          }),
+      ).to.be.revertedWith("Snapshot must be in the past");
+    });
+
+    it("should reject token weighting on ranked polls", async function () {
+      const startTime = await latestTimestamp();
+      await expect(
+        votingContract
+          .connect(signers.deployer)
+          .createPoll("Weighted Poll", ["A", "B"], startTime, startTime + 3600, {
+            ...defaultSettings,
+            ballotType: BallotType.RankedChoice,
+            votingToken: tokenAddress,
+          }),
+      ).to.be.revertedWith("Ranked polls cannot be token-weighted");
+    });
+
+    it("should weight each ballot by whole tokens delegated at the snapshot", async function () {
+      const pollId = await createWeightedPoll(BallotType.SingleChoice);
+
+      // Tokens moved after the snapshot change nothing
+      await token.connect(signers.alice).transfer(signers.bob.address, ethers.parseEther("4"));
+
+      for (const [signer, choice] of [
+        [signers.alice, 0],
+        [signers.bob, 2],
+      ] as const) {
+        const encrypted = await fhevm.createEncryptedInput(contractAddress, signer.address).add32(choice).encrypt();
+        await votingContract.connect(signer).vote(pollId, encrypted.handles[0], encrypted.inputProof, "0x");
+      }
+
+      const [results] = await finalize(pollId);
+      expect(results).to.deep.equal([5n, 0n, 2n]);
+    });
+
+    it("should reject voters without voting power at the snapshot", async function () {
+      const pollId = await createWeightedPoll(BallotType.SingleChoice);
+      await token.mint(signers.carol.address, ethers.parseEther("10"));
+      await token.connect(signers.carol).delegate(signers.carol.address);
+
+      const encrypted = await fhevm
+        .createEncryptedInput(contractAddress, signers.carol.address)
+        .add32(0)
+        .encrypt();
+      await expect(
+        votingContract.connect(signers.carol).vote(pollId, encrypted.handles[0], encrypted.inputProof, "0x"),
+      ).to.be.revertedWith("No voting power at snapshot");
+    });
+
+    it("should multiply cumulative points by the voter's weight", async function () {
+      const pollId = await createWeightedPoll(BallotType.Cumulative, 10);
+
+      const encrypted = await fhevm
+        .createEncryptedInput(contractAddress, signers.alice.address)
+        .add32(3)
+        .add32(0)
+        .add32(7)
+        .encrypt();
+      await votingContract.connect(signers.alice).voteCumulative(pollId, encrypted.handles, encrypted.inputProof, "0x");
+
+      const [results] = await finalize(pollId);
+      expect(results).to.deep.equal([15n, 0n, 35n]);
+    });
+  });
+
+  describe("Confidential Token Weights", function () {
+    let token: ConfidentialVotesToken;
+    let tokenAddress: string;
+
+    async function mint(signer: HardhatEthersSigner, amount: number | bigint) {
+      const encrypted = await fhevm
+        .createEncryptedInput(tokenAddress, signers.deployer.address)
+        .add64(amount)
+        .encrypt();
+      await token.connect(signers.deployer).mint(signer.address, encrypted.handles[0], encrypted.inputProof);
+    }
+
+    async function castVote(pollId: number, signer: HardhatEthersSigner, choice: number) {
+      const encrypted = await fhevm.createEncryptedInput(contractAddress, signer.address).add32(choice).encrypt();
+      await votingContract.connect(signer).vote(pollId, encrypted.handles[0], encrypted.inputProof, "0x");
+    }
+
+    beforeEach(async function () {
+      token = (await (
+        await ethers.getContractFactory("ConfidentialVotesToken")
+      ).deploy(contractAddress)) as ConfidentialVotesToken;
+      tokenAddress = await token.getAddress();
+
+      await mint(signers.alice, 300);
+      await mint(signers.bob, 50);
+
+      const startTime = (await latestTimestamp()) - 100;
+      await votingContract
+        .connect(signers.deployer)
+        .createPoll("Private Weights", ["A", "B", "C"], startTime, startTime + 3600, {
+          ...defaultSettings,
+          votingToken: tokenAddress,
+          confidentialToken: true,
+        });
+    });
+
+    it("should require a token for confidential weighting", async function () {
+      const startTime = await latestTimestamp();
+      await expect(
+        votingContract
+          .connect(signers.deployer)
+          .createPoll("Private Weights", ["A", "B"], startTime, startTime + 3600, {
+            ...defaultSettings,
+            confidentialToken: true,
+          }),
+      ).to.be.revertedWith("Voting token required");
+    });
+
+    it("should decide on balances near the 64-bit limit without wrapping", async function () {
+      // 18 tokens of 18 decimals; Yes * 100 and (Yes + No) * 50 both exceed 64 bits
+      await mint(signers.carol, 18n * 10n ** 18n);
+      const startTime = (await latestTimestamp()) - 100;
+      await votingContract
+        .connect(signers.deployer)
+        .createPoll("Proposal", ["Yes", "No", "Abstain"], startTime, startTime + 3600, {
+          ...defaultSettings,
+          votingToken: tokenAddress,
+          confidentialToken: true,
+          passThreshold: 50,
+        });
+      await castVote(1, signers.carol, 0);
+      await castVote(1, signers.bob, 1);
+      await increaseTime(3600);
+      await votingContract.requestFinalization(1);
+      await fhevm.awaitDecryptionOracle();
+
+      const [passed] = await votingContract.getDecision(1);
+      expect(passed).to.equal(true);
+    });
+
+    it("should not let the creator watch a live tally of confidential weights", async function () {
+      const startTime = await latestTimestamp();
+      await expect(
+        votingContract
+          .connect(signers.deployer)
+          .createPoll("Private Weights", ["A", "B"], startTime, startTime + 3600, {
+            ...defaultSettings,
+            votingToken: tokenAddress,
+            confidentialToken: true,
+            creatorLiveView: true,
+          }),
+      ).to.be.revertedWith("Poll type cannot use confidential weights");
+    });
+
+    it("should weight ballots by encrypted balances at the snapshot", async function () {
+      // Tokens moved after the snapshot change nothing
+      const encrypted = await fhevm
+        .createEncryptedInput(tokenAddress, signers.alice.address)
+        .add64(200)
+        .encrypt();
+      await token.connect(signers.alice).transfer(signers.bob.address, encrypted.handles[0], encrypted.inputProof);
+
+      await castVote(0, signers.alice, 0);
+      await castVote(0, signers.bob, 2);
+      await castVote(0, signers.carol, 1); // no balance: counted as a voter, adds nothing
+
+      await increaseTime(3600);
+      await votingContract.connect(signers.deployer).requestFinalization(0);
+      await fhevm.awaitDecryptionOracle();
+
+      const [results] = await votingContract.getResults(0);
+      expect(results).to.deep.equal([300n, 0n, 50n]);
+      expect(await votingContract.getTotalVoters(0)).to.equal(3);
+    });
+
+    it("should keep each voter's weight private to them", async function () {
+      await castVote(0, signers.alice, 1);
+
+      const [amounts] = await votingContract.connect(signers.alice).getMyBallot(0);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint64, amounts[1], contractAddress, signers.alice)).to.equal(
+        300,
+      );
+
+      const balance = await token.confidentialBalanceOf(signers.alice.address);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint64, balance, tokenAddress, signers.alice)).to.equal(300);
+      await expect(fhevm.userDecryptEuint(FhevmType.euint64, balance, tokenAddress, signers.bob)).to.be.rejected;
+    });
+
+    it("should only let the tally contract read past balances", async function () {
+      const blockNumber = await ethers.provider.getBlockNumber();
+      await expect(
+        token.connect(signers.bob).pastBalanceFor(signers.alice.address, blockNumber - 1),
+      ).to.be.revertedWith("Only the tally contract");
+    });
+  });
+
+  describe("Delegation", function () {
+    let registry: DelegationRegistry;
+    let registryAddress: string;
+
+    async function castVote(signer: HardhatEthersSigner, choice: number) {
+      const encrypted = await fhevm.createEncryptedInput(contractAddress, signer.address).add32(choice).encrypt();
+      await votingContract.connect(signer).vote(0, encrypted.handles[0], encrypted.inputProof, "0x");
+    }
+
+    async function finalize() {
+      await increaseTime(3600);
+      await votingContract.connect(signers.deployer).requestFinalization(0);
+      await fhevm.awaitDecryptionOracle();
+      const [results] = await votingContract.getResults(0);
+      return results;
+    }
+
+    beforeEach(async function () {
+      registry = (await (await ethers.getContractFactory("DelegationRegistry")).deploy()) as DelegationRegistry;
+      registryAddress = await registry.getAddress();
+
+      await registry.connect(signers.bob).delegate(signers.alice.address);
+      await registry.connect(signers.carol).delegate(signers.alice.address);
+
+      const startTime = (await latestTimestamp()) - 100;
+      await votingContract
+        .connect(signers.deployer)
+        .createPoll("Delegated Poll", ["A", "B", "C"], startTime, startTime + 3600, {
+          ...defaultSettings,
+          delegationRegistry: registryAddress,
+        });
+    });
+
+    it("should track delegations in the registry", async function () {
+      expect(await registry.delegateOf(signers.bob.address)).to.equal(signers.alice.address);
+      expect(await registry.delegatorsOf(signers.alice.address)).to.deep.equal([
+        signers.bob.address,
+        signers.carol.address,
+      ]);
+
+      await registry.connect(signers.bob).undelegate();
+      expect(await registry.delegateOf(signers.bob.address)).to.equal(ethers.ZeroAddress);
+      expect(await registry.delegatorsOf(signers.alice.address)).to.deep.equal([signers.carol.address]);
+
+      await expect(registry.connect(signers.bob).undelegate()).to.be.revertedWith("Not delegated");
+      await expect(registry.connect(signers.bob).delegate(signers.bob.address)).to.be.revertedWith(
+        "Invalid delegate",
+      );
+    });
+
+    it("should reject delegation on ranked polls", async function () {
+      const startTime = await latestTimestamp();
+      await expect(
+        votingContract
+          .connect(signers.deployer)
+          .createPoll("Delegated Poll", ["A", "B"], startTime, startTime + 3600, {
+            ...defaultSettings,
+            ballotType: BallotType.RankedChoice,
+            delegationRegistry: registryAddress,
+          }),
+      ).to.be.revertedWith("Poll type cannot use delegation");
+    });
+
+    it("should reject delegation on allowlisted and invite-only polls", async function () {
+      // Delegators are not checked against the gate, so outsiders could add weight through an admitted delegate
+      const startTime = await latestTimestamp();
+      const allowlist = buildAllowlist([signers.alice.address]);
+      for (const gate of [{ allowlistRoot: allowlist.root }, { inviteOnly: true }]) {
+        await expect(
+          votingContract.connect(signers.deployer).createPoll("Gated Poll", ["A", "B"], startTime, startTime + 3600, {
+            ...defaultSettings,
+            ...gate,
+            delegationRegistry: registryAddress,
+          }),
+        ).to.be.revertedWith("Poll type cannot use delegation");
+      }
+    });
+
+    it("should let a delegate's ballot carry their delegators", async function () {
+      await castVote(signers.alice, 1);
+
+      expect(await finalize()).to.deep.equal([0n, 3n, 0n]);
+      expect(await votingContract.getTotalVoters(0)).to.equal(1);
+    });
+
+    it("should let a delegator override their delegate by voting directly", async function () {
+      await castVote(signers.alice, 1);
+      await castVote(signers.bob, 0);
+
+      const [amounts] = await votingContract.connect(signers.alice).getMyBallot(0);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint64, amounts[1], contractAddress, signers.alice)).to.equal(
+        2,
+      );
+      expect(await finalize()).to.deep.equal([1n, 2n, 0n]);
+    });
+
+    it("should not carry delegators who already voted", async function () {
+      await castVote(signers.bob, 0);
+      await castVote(signers.alice, 1);
+
+      expect(await finalize()).to.deep.equal([1n, 2n, 0n]);
+    });
+
+    it("should move a delegator to the new delegate's ballot", async function () {
+      await castVote(signers.alice, 1);
+      await registry.connect(signers.carol).delegate(signers.deployer.address);
+      await castVote(signers.deployer, 2);
+
+      expect(await finalize()).to.deep.equal([0n, 2n, 2n]);
+    });
+
+    it("should cast a ballot that moves every delegator it may carry on the largest delegated poll", async function () {
+      const [, , , , delegate, firstCarrier, secondCarrier, ...others] = await ethers.getSigners();
+      const delegators = others.slice(0, Number(await registry.MAX_DELEGATORS()));
+      expect(delegators).to.have.length(4);
+
+      // The delegate and every delegator start out carried by ballots the delegate's has to take them back from
+      await registry.connect(delegate).delegate(firstCarrier.address);
+      for (const [i, delegator] of delegators.entries()) {
+        await registry.connect(delegator).delegate((i < 2 ? firstCarrier : secondCarrier).address);
+      }
+      const startTime = (await latestTimestamp()) - 100;
+      const options = ["A", "B", "C", "D"];
+      await votingContract
+        .connect(signers.deployer)
+        .createPoll("Largest Delegated Poll", options, startTime, startTime + 3600, {
+          ...defaultSettings,
+          ballotType: BallotType.Cumulative,
+          creditBudget: 16,
+          quadraticCost: true,
+          revotable: true,
+          delegationRegistry: registryAddress,
+        });
+      await expect(
+        votingContract
+          .connect(signers.deployer)
+          .createPoll("Too Many Options", [...options, "E"], startTime, startTime + 3600, {
+            ...defaultSettings,
+            delegationRegistry: registryAddress,
+          }),
+      ).to.be.revertedWith("Delegated polls support 2-4 options");
+
+      const castPoints = async (signer: HardhatEthersSigner, points: number[]) => {
+        const input = fhevm.createEncryptedInput(contractAddress, signer.address);
+        points.forEach((value) => input.add32(value));
+        const encrypted = await input.encrypt();
+        await votingContract.connect(signer).voteCumulative(1, encrypted.handles, encrypted.inputProof, "0x");
+      };
+      await castPoints(firstCarrier, [1, 0, 0, 0]);
+      await castPoints(secondCarrier, [0, 1, 0, 0]);
+      for (const delegator of delegators) {
+        await registry.connect(delegator).delegate(delegate.address);
+      }
+      await expect(registry.connect(signers.deployer).delegate(delegate.address)).to.be.revertedWith(
+        "Too many delegators",
+      );
+
+      await castPoints(delegate, [0, 0, 2, 0]);
+
+      await increaseTime(3600);
+      await votingContract.connect(signers.deployer).requestFinalization(1);
+      await fhevm.awaitDecryptionOracle();
+      const [results] = await votingContract.getResults(1);
+      expect(results).to.deep.equal([1n, 1n, 10n, 0n]);
+    });
+  });
+
+  describe("Allowlist", function () {
+    let allowlist: Allowlist;
+
+    async function castVote(signer: HardhatEthersSigner, choice: number, eligibilityProof: string) {
+      const encrypted = await fhevm.createEncryptedInput(contractAddress, signer.address).add32(choice).encrypt();
+      return votingContract
+        .connect(signer)
+        .vote(0, encrypted.handles[0], encrypted.inputProof, eligibilityProof);
+    }
+
+    beforeEach(async function () {
+      allowlist = buildAllowlist([signers.alice.address, signers.bob.address, signers.deployer.address]);
+
+      const startTime = (await latestTimestamp()) - 100;
+      await votingContract
+        .connect(signers.deployer)
+        .createPoll("Members Only", ["A", "B"], startTime, startTime + 3600, {
+          ...defaultSettings,
+          allowlistRoot: allowlist.root,
+        });
+    });
+
+    it("should let allowlisted addresses vote with their proof", async function () {
+      for (const signer of [signers.alice, signers.bob, signers.deployer]) {
+        await castVote(signer, 1, encodeAllowlistProof(allowlist.proofs[signer.address]));
+      }
+
+      expect(await votingContract.getTotalVoters(0)).to.equal(3);
+      expect((await votingContract.getPollSettings(0)).allowlistRoot).to.equal(allowlist.root);
+    });
+
+    it("should reject addresses that are not on the allowlist", async function () {
+      await expect(
+        castVote(signers.carol, 0, encodeAllowlistProof(allowlist.proofs[signers.alice.address])),
+      ).to.be.revertedWith("Not on the allowlist");
+    });
+
+    it("should require a proof on allowlisted polls", async function () {
+      await expect(castVote(signers.alice, 0, "0x")).to.be.revertedWith("Allowlist proof required");
+    });
+  });
+
+  describe("NFT-Gated Polls", function () {
+    let nft: MockNFT;
+
+    function tokenProof(tokenId: number) {
+      return ethers.AbiCoder.defaultAbiCoder().encode(["uint256"], [tokenId]);
+    }
+
+    async function castVote(signer: HardhatEthersSigner, choice: number, tokenId: number) {
+      const encrypted = await fhevm.createEncryptedInput(contractAddress, signer.address).add32(choice).encrypt();
+      return votingContract.connect(signer).vote(0, encrypted.handles[0], encrypted.inputProof, tokenProof(tokenId));
+    }
+
+    beforeEach(async function () {
+      nft = (await (await ethers.getContractFactory("MockNFT")).deploy()) as MockNFT;
+      await nft.mint(signers.alice.address); // token 0
+      await nft.mint(signers.alice.address); // token 1
+      await nft.mint(signers.bob.address); // token 2
+
+      const startTime = (await latestTimestamp()) - 100;
+      await votingContract
+        .connect(signers.deployer)
+        .createPoll("Holders Poll", ["A", "B"], startTime, startTime + 3600, {
+          ...defaultSettings,
+          gatingCollection: await nft.getAddress(),
+        });
+    });
+
+    it("should count one ballot per token", async function () {
+      await castVote(signers.alice, 1, 0);
+      await castVote(signers.alice, 0, 1);
+      await castVote(signers.bob, 1, 2);
+
+      expect(await votingContract.getTotalVoters(0)).to.equal(3);
+      expect(await votingContract.usedToken(0, 1)).to.equal(true);
+
+      // The receipt adds up the ballots of all of the holder's tokens
+      const [amounts] = await votingContract.connect(signers.alice).getMyBallot(0);
+      for (const amount of amounts) {
+        expect(await fhevm.userDecryptEuint(FhevmType.euint64, amount, contractAddress, signers.alice)).to.equal(1);
+      }
+
+      await increaseTime(3600);
+      await votingContract.connect(signers.deployer).requestFinalization(0);
+      await fhevm.awaitDecryptionOracle();
+      const [results] = await votingContract.getResults(0);
+      expect(results).to.deep.equal([1n, 2n]);
+    });
+
+    it("should count a holder of several tokens once towards the minimum turnout", async function () {
+      await nft.mint(signers.alice.address); // token 3
+      const startTime = (await latestTimestamp()) - 100;
+      await votingContract
+        .connect(signers.deployer)
+        .createPoll("Quorum Holders Poll", ["A", "B"], startTime, startTime + 3600, {
+          ...defaultSettings,
+          gatingCollection: await nft.getAddress(),
+          revealPolicy: RevealPolicy.CreatorEarly,
+          minVoters: 2,
+        });
+      const castOnPoll1 = async (signer: HardhatEthersSigner, tokenId: number) => {
+        const encrypted = await fhevm.createEncryptedInput(contractAddress, signer.address).add32(1).encrypt();
+        return votingContract.connect(signer).vote(1, encrypted.handles[0], encrypted.inputProof, tokenProof(tokenId));
+      };
+
+      for (const tokenId of [0, 1, 3]) {
+        await castOnPoll1(signers.alice, tokenId);
+      }
+      expect(await votingContract.getTotalVoters(1)).to.equal(3);
+      expect(await votingContract.getTurnout(1)).to.equal(1);
+      await expect(votingContract.connect(signers.deployer).requestFinalization(1)).to.be.revertedWith(
+        "Insufficient turnout",
+      );
+
+      await castOnPoll1(signers.bob, 2);
+      expect(await votingContract.getTurnout(1)).to.equal(2);
+      await votingContract.connect(signers.deployer).requestFinalization(1);
+      await fhevm.awaitDecryptionOracle();
+      const [results] = await votingContract.getResults(1);
+      expect(results).to.deep.equal([0n, 4n]);
+    });
+
+    it("should not let a token vote again after a transfer", async function () {
+      await castVote(signers.alice, 1, 0);
+      await nft.connect(signers.alice).transferFrom(signers.alice.address, signers.carol.address, 0);
+
+      await expect(castVote(signers.carol, 0, 0)).to.be.revertedWith("Token already voted");
+      await expect(castVote(signers.alice, 0, 0)).to.be.revertedWith("Not the token owner");
+    });
+
+    it("should only accept tokens the voter holds", async function () {
+      await expect(castVote(signers.bob, 0, 0)).to.be.revertedWith("Not the token owner");
+      await expect(
+        votingContract.connect(signers.carol).vote(0, ethers.ZeroHash, "0x", "0x"),
+      ).to.be.revertedWith("Token ID required");
+    });
+
+    it("should reject NFT gating on revotable polls", async function () {
+      const startTime = await latestTimestamp();
+      await expect(
+        votingContract
+          .connect(signers.deployer)
+          .createPoll("Holders Poll", ["A", "B"], startTime, startTime + 3600, {
+            ...defaultSettings,
+            revotable: true,
+            gatingCollection: await nft.getAddress(),
+          }),
+      ).to.be.revertedWith("Poll type cannot use NFT gating");
+    });
+  });
+
+  describe("Invite Vouchers", function () {
+    async function castVote(signer: HardhatEthersSigner, choice: number, eligibilityProof: string) {
+      const encrypted = await fhevm.createEncryptedInput(contractAddress, signer.address).add32(choice).encrypt();
+      return votingContract
+        .connect(signer)
+        .vote(0, encrypted.handles[0], encrypted.inputProof, eligibilityProof);
+    }
+
+    async function voucherFor(signer: HardhatEthersSigner, voter: HardhatEthersSigner, nonce?: bigint) {
+      const { chainId } = await ethers.provider.getNetwork();
+      const domain = voucherDomain(chainId, contractAddress);
+      return encodeInviteVoucher(await signInviteVoucher(signer, domain, 0, voter.address, nonce));
+    }
+
+    beforeEach(async function () {
+      const startTime = (await latestTimestamp()) - 100;
+      await votingContract
+        .connect(signers.deployer)
+        .createPoll("Invite Only", ["A", "B"], startTime, startTime + 3600, {
+          ...defaultSettings,
+          revotable: true,
+          inviteOnly: true,
+        });
+    });
+
+    it("should admit voters with a voucher signed by the creator", async function () {
+      await castVote(signers.alice, 1, await voucherFor(signers.deployer, signers.alice));
+      expect(await votingContract.hasVoted(0, signers.alice.address)).to.equal(true);
+
+      // Once admitted, a revote needs no new voucher
+      await expect(castVote(signers.alice, 0, "0x")).to.emit(votingContract, "VoteChanged");
+    });
+
+    it("should reject missing, forged or someone else's vouchers", async function () {
+      await expect(castVote(signers.alice, 0, "0x")).to.be.revertedWith("Invite voucher required");
+      await expect(castVote(signers.alice, 0, await voucherFor(signers.bob, signers.alice))).to.be.revertedWith(
+        "Invalid invite voucher",
+      );
+      await expect(castVote(signers.bob, 0, await voucherFor(signers.deployer, signers.alice))).to.be.revertedWith(
+        "Invalid invite voucher",
+      );
+    });
+
+    it("should accept each voucher nonce only once", async function () {
+      await castVote(signers.alice, 0, await voucherFor(signers.deployer, signers.alice, 7n));
+      await expect(castVote(signers.bob, 1, await voucherFor(signers.deployer, signers.bob, 7n))).to.be.revertedWith(
+        "Invite voucher already used",
+      );
+      expect(await votingContract.usedVoucher(0, 7)).to.equal(true);
+    });
+  });
+
+  describe("Sponsored Votes", function () {
+    // A vote on poll 0 signed by `voter` as a forward request; its encrypted input is bound to the voter, not to
+    // the forwarder that sends it
+    async function signedVote(voter: HardhatEthersSigner, choice: number) {
+      const encrypted = await fhevm.createEncryptedInput(contractAddress, voter.address).add32(choice).encrypt();
+      const data = votingContract.interface.encodeFunctionData("vote", [
+        0,
+        encrypted.handles[0],
+        encrypted.inputProof,
+        "0x",
+      ]);
+      return signedRequest(voter, data);
+    }
+
+    async function signedRequest(voter: HardhatEthersSigner, data: string) {
+      const forwarderAddress = await forwarder.getAddress();
+      const { chainId } = await ethers.provider.getNetwork();
+      const request = {
+        from: voter.address,
+        to: contractAddress,
+        value: 0n,
+        gas: SPONSORED_VOTE_GAS,
+        deadline: (await latestTimestamp()) + SPONSORED_VOTE_TTL_SECONDS,
+        data,
+      };
+      const signature = await voter.signTypedData(forwarderDomain(chainId, forwarderAddress), FORWARD_REQUEST_TYPES, {
+        ...request,
+        nonce: await forwarder.nonces(voter.address),
+      });
+      return { ...request, signature };
+    }
+
+    beforeEach(async function () {
+      const startTime = (await latestTimestamp()) - 100;
+      await votingContract
+        .connect(signers.deployer)
+        .createPoll("Gasless Poll", ["A", "B"], startTime, startTime + 3600, defaultSettings);
+    });
+
+    it("should count a relayed vote for its signer", async function () {
+      const request = await signedVote(signers.alice, 1);
+      await expect(forwarder.connect(signers.carol).execute(request))
+        .to.emit(votingContract, "VoteCast")
+        .withArgs(0, signers.alice.address);
+
+      expect(await votingContract.isTrustedForwarder(await forwarder.getAddress())).to.equal(true);
+      expect(await votingContract.hasVoted(0, signers.alice.address)).to.equal(true);
+      expect(await votingContract.hasVoted(0, signers.carol.address)).to.equal(false);
+
+      const [amounts] = await votingContract.connect(signers.alice).getMyBallot(0);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint64, amounts[1], contractAddress, signers.alice)).to.equal(1);
+    });
+
+    it("should not relay a request twice or with a forged signer", async function () {
+      const request = await signedVote(signers.alice, 0);
+      await forwarder.connect(signers.carol).execute(request);
+      await expect(forwarder.connect(signers.carol).execute(request)).to.be.revertedWithCustomError(
+        forwarder,
+        "ERC2771ForwarderInvalidSigner",
+      );
+
+      const forged = { ...(await signedVote(signers.bob, 0)), from: signers.deployer.address };
+      await expect(forwarder.connect(signers.carol).execute(forged)).to.be.revertedWithCustomError(
+        forwarder,
+        "ERC2771ForwarderInvalidSigner",
+      );
+    });
+
+    it("should sponsor every entry point that casts a ballot for its sender", async function () {
+      // Ballots counted for the sender are the calls gated by an eligibility proof; registering for an anonymous
+      // poll is gated too but casts nothing, and anonymous ballots go through the relayer's own endpoint
+      const ballotCalls: string[] = [];
+      votingContract.interface.forEachFunction((fragment) => {
+        const gated = fragment.inputs.some((input) => input.name === "eligibilityProof");
+        if (gated && fragment.name !== "registerAnonymous") ballotCalls.push(fragment.name);
+      });
+
+      expect(ballotCalls).to.not.be.empty;
+      expect([...SPONSORED_FUNCTIONS].sort()).to.deep.equal(ballotCalls.sort());
+    });
+
+    it("should relay numeric answers", async function () {
+      const startTime = (await latestTimestamp()) - 100;
+      await votingContract.connect(signers.deployer).createPoll("Gasless Rating", [], startTime, startTime + 3600, {
+        ...defaultSettings,
+        ballotType: BallotType.Numeric,
+        maxValue: 10,
+      });
+
+      const encrypted = await fhevm.createEncryptedInput(contractAddress, signers.alice.address).add32(7).encrypt();
+      const request = await signedRequest(
+        signers.alice,
+        votingContract.interface.encodeFunctionData("submitValue", [1, encrypted.handles[0], encrypted.inputProof, "0x"]),
+      );
+      await expect(forwarder.connect(signers.carol).execute(request))
+        .to.emit(votingContract, "VoteCast")
+        .withArgs(1, signers.alice.address);
+
+      const [amounts] = await votingContract.connect(signers.alice).getMyBallot(1);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint64, amounts[0], contractAddress, signers.alice)).to.equal(7);
+    });
+
+    it("should reject a sponsored ballot copied into someone else's vote", async function () {
+      const victimRequest = await signedVote(signers.alice, 1);
+      const [, handle, inputProof] = votingContract.interface.decodeFunctionData("vote", victimRequest.data);
+
+      // Copied from the mempool into the attacker's own signed request, or sent directly
+      const copied = await signedRequest(
+        signers.bob,
+        votingContract.interface.encodeFunctionData("vote", [0, handle, inputProof, "0x"]),
+      );
+      await expect(forwarder.connect(signers.carol).execute(copied)).to.be.reverted;
+      await expect(votingContract.connect(signers.bob).vote(0, handle, inputProof, "0x")).to.be.reverted;
+      expect(await votingContract.hasVoted(0, signers.bob.address)).to.equal(false);
+      await expect(votingContract.connect(signers.bob).getMyBallot(0)).to.be.revertedWith("No ballot");
+
+      // The victim's own request still counts, and only they can read its receipt
+      await forwarder.connect(signers.carol).execute(victimRequest);
+      const [amounts] = await votingContract.connect(signers.alice).getMyBallot(0);
+      await expect(fhevm.userDecryptEuint(FhevmType.euint64, amounts[1], contractAddress, signers.bob)).to.be.rejected;
+    });
+  });
+
+  describe("Anonymous Polls", function () {
+    let startTime: number;
+
+    async function register(signer: HardhatEthersSigner, secret: bigint, pollId = 0) {
+      const encrypted = await fhevm.createEncryptedInput(contractAddress, signer.address).add64(secret).encrypt();
+      return votingContract.connect(signer).registerAnonymous(pollId, encrypted.handles[0], encrypted.inputProof, "0x");
+    }
+
+    // Ballots are sent by carol, standing in for the relayer, so their inputs are encrypted for her address
+    async function castAnonymous(secret: bigint, choice: number, pollId = 0) {
+      const encrypted = await fhevm
+        .createEncryptedInput(contractAddress, signers.carol.address)
+        .add32(choice)
+        .add64(secret)
+        .encrypt();
+      return votingContract
+        .connect(signers.carol)
+        .voteAnonymous(pollId, encrypted.handles[0], encrypted.handles[1], encrypted.inputProof);
+    }
+
+    async function finalizedResults() {
+      await increaseTime(3600);
+      await votingContract.requestFinalization(0);
+      await fhevm.awaitDecryptionOracle();
+      return votingContract.getResults(0);
+    }
+
+    beforeEach(async function () {
+      startTime = (await latestTimestamp()) + 600;
+      await votingContract
+        .connect(signers.deployer)
+        .createPoll("Secret Ballot", ["A", "B"], startTime, startTime + 3600, {
+          ...defaultSettings,
+          anonymousVoting: true,
+        });
+    });
+
+    it("should count a relayed ballot without recording who cast it", async function () {
+      const aliceSecret = randomAnonymousSecret();
+      const bobSecret = randomAnonymousSecret();
+      await expect(register(signers.alice, aliceSecret))
+        .to.emit(votingContract, "AnonymousVoterRegistered")
+        .withArgs(0, signers.alice.address);
+      await register(signers.bob, bobSecret);
+      expect(await votingContract.getAnonymousVoterCount(0)).to.equal(2);
+
+      await increaseTime(600);
+      await expect(castAnonymous(aliceSecret, 1)).to.emit(votingContract, "AnonymousVoteCast").withArgs(0);
+      await castAnonymous(bobSecret, 1);
+
+      for (const signer of [signers.alice, signers.bob, signers.carol]) {
+        expect(await votingContract.hasVoted(0, signer.address)).to.equal(false);
+      }
+      expect(await votingContract.getTotalVoters(0)).to.equal(2);
+
+      const [results, invalidBallots] = await finalizedResults();
+      expect(results).to.deep.equal([0n, 2n]);
+      expect(invalidBallots).to.equal(0);
+    });
+
+    it("should count spent and unknown secrets as invalid", async function () {
+      const secret = randomAnonymousSecret();
+      await register(signers.alice, secret);
+
+      await increaseTime(600);
+      await castAnonymous(secret, 0);
+      await castAnonymous(secret, 1);
+      await castAnonymous(randomAnonymousSecret(), 1);
+      expect(await votingContract.getTotalVoters(0)).to.equal(3);
+
+      const [results, invalidBallots] = await finalizedResults();
+      expect(results).to.deep.equal([1n, 0n]);
+      expect(invalidBallots).to.equal(2);
+    });
+
+    it("should not let ballots without a registered secret pad the minimum turnout", async function () {
+      // Poll 1 gets one valid ballot and one padding it to the minimum; poll 2 gets two valid ballots and the padding
+      for (const pollId of [1, 2]) {
+        await votingContract
+          .connect(signers.deployer)
+          .createPoll("Quorum Ballot", ["A", "B"], startTime, startTime + 3600, {
+            ...defaultSettings,
+            anonymousVoting: true,
+            minVoters: 2,
+          });
+        expect(await votingContract.getPollCount()).to.equal(pollId + 1);
+      }
+      const secrets = [randomAnonymousSecret(), randomAnonymousSecret()];
+      for (const pollId of [1, 2]) {
+        await register(signers.alice, secrets[0], pollId);
+        await register(signers.bob, secrets[1], pollId);
+      }
+
+      await increaseTime(600);
+      await castAnonymous(secrets[0], 1, 1);
+      await castAnonymous(randomAnonymousSecret(), 1, 1);
+      await castAnonymous(secrets[0], 1, 2);
+      await castAnonymous(secrets[1], 0, 2);
+      await castAnonymous(randomAnonymousSecret(), 1, 2);
+      expect(await votingContract.getTurnout(1)).to.equal(2);
+      expect(await votingContract.getTurnout(2)).to.equal(2);
+
+      await increaseTime(3600);
+      await votingContract.requestFinalization(1);
+      await votingContract.requestFinalization(2);
+      await fhevm.awaitDecryptionOracle();
+
+      expect(await votingContract.isInsufficientTurnout(1)).to.equal(true);
+      await expect(votingContract.getResults(1)).to.be.revertedWith("Insufficient turnout");
+      expect(await votingContract.isInsufficientTurnout(2)).to.equal(false);
+      const [results, invalidBallots] = await votingContract.getResults(2);
+      expect(results).to.deep.equal([1n, 1n]);
+      expect(invalidBallots).to.equal(1);
+    });
+
+    it("should close an anonymous poll when fewer registered voters than the minimum could have voted", async function () {
+      await votingContract
+        .connect(signers.deployer)
+        .createPoll("Quorum Ballot", ["A", "B"], startTime, startTime + 3600, {
+          ...defaultSettings,
+          anonymousVoting: true,
+          minVoters: 2,
+        });
+      const secret = randomAnonymousSecret();
+      await register(signers.alice, secret, 1);
+
+      await increaseTime(600);
+      await castAnonymous(secret, 0, 1);
+      await castAnonymous(randomAnonymousSecret(), 0, 1);
+      expect(await votingContract.getTotalVoters(1)).to.equal(2);
+      expect(await votingContract.getTurnout(1)).to.equal(1);
+
+      await increaseTime(3600);
+      await expect(votingContract.requestFinalization(1))
+        .to.emit(votingContract, "PollClosedInsufficientTurnout")
+        .withArgs(1, 1, 2);
+    });
+
+    it("should only register before voting starts and only accept anonymous ballots", async function () {
+      await register(signers.alice, randomAnonymousSecret());
+      await expect(register(signers.alice, randomAnonymousSecret())).to.be.revertedWith("Already registered");
+
+      await increaseTime(600);
+      await expect(register(signers.bob, randomAnonymousSecret())).to.be.revertedWith("Registration has closed");
+
+      const encrypted = await fhevm.createEncryptedInput(contractAddress, signers.alice.address).add32(0).encrypt();
+      await expect(
+        votingContract.connect(signers.alice).vote(0, encrypted.handles[0], encrypted.inputProof, "0x"),
+      ).to.be.revertedWith("Poll is anonymous");
+    });
+
+    it("should reject anonymous polls without a registration period or with address-bound features", async function () {
+      const now = await latestTimestamp();
+      await expect(
+        votingContract.createPoll("Too Late", ["A", "B"], now, now + 3600, { ...defaultSettings, anonymousVoting: true }),
+      ).to.be.revertedWith("Anonymous polls need a registration period");
+      await expect(
+        votingContract.createPoll("Revotable", ["A", "B"], startTime, startTime + 3600, {
+          ...defaultSettings,
+          anonymousVoting: true,
+          revotable: true,
+        }),
+      ).to.be.revertedWith("Poll type cannot be anonymous");
+    });
   });
 
   describe("View Functions", function () {
@@ -280,15 +2464,15 @@ describe("MultiChoiceVoting", function () {
       const initialCount = await votingContract.getPollCount();
       expect(initialCount).to.equal(0);
 
-      const startTime = Math.floor(Date.now() / 1000);
+      const startTime = await latestTimestamp();
       const endTime = startTime + 3600;
 
       await votingContract
         .connect(signers.alice)
-        .createPoll("Poll 1", ["A", "B"], startTime, endTime);
+        .createPoll("Poll 1", ["A", "B"], startTime, endTime, defaultSettings);
       await votingContract
         .connect(signers.bob)
-        .createPoll("Poll 2", ["X", "Y", "Z"], startTime, endTime);
+        .createPoll("Poll 2", ["X", "Y", "Z"], startTime, endTime, defaultSettings);
 
       const finalCount = await votingContract.getPollCount();
       expect(finalCount).to.equal(2);
@@ -297,12 +2481,12 @@ describe("MultiChoiceVoting", function () {
     it("should return encrypted counts", async function () {
       const title = "Test Poll";
       const options = ["Option 1", "Option 2"];
-      const startTime = Math.floor(Date.now() / 1000) - 100;
+      const startTime = await latestTimestamp() - 100;
       const endTime = startTime + 3600;
 
       await votingContract
         .connect(signers.deployer)
-        .createPoll(title, options, startTime, endTime);
+        .createPoll(title, options, startTime, endTime, defaultSettings);
       const pollId = 0;
 
       const encryptedCounts = await votingContract.getEncryptedCounts(pollId);
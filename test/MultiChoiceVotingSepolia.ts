@@ -4,6 +4,35 @@ import { MultiChoiceVoting } from "../types";
 import { expect } from "chai";
 import { FhevmType } from "@fhevm/hardhat-plugin";
 
+// Anyone may reveal once voting has ended
+const defaultSettings = {
+  revealPolicy: 0,
+  revealGracePeriod: 0,
+  creatorLiveView: false,
+  minVoters: 0,
+  ballotType: 0,
+  creditBudget: 0,
+  quadraticCost: false,
+  revotable: false,
+  votingToken: ethers.ZeroAddress,
+  snapshotBlock: 0,
+  confidentialToken: false,
+  delegationRegistry: ethers.ZeroAddress,
+  allowlistRoot: ethers.ZeroHash,
+  gatingCollection: ethers.ZeroAddress,
+  inviteOnly: false,
+  anonymousVoting: false,
+  decryptionTimeout: 0,
+  committee: [] as string[],
+  committeeThreshold: 0,
+  winnerOnly: false,
+  winnerMargin: 0,
+  passThreshold: 0,
+  privacyEpsilon: 0,
+  minValue: 0,
+  maxValue: 0,
+};
+
 type Signers = {
   alice: HardhatEthersSigner;
 };
@@ -53,9 +82,10 @@ describe("MultiChoiceVoting Sepolia", function () {
     const startTime = Math.floor(Date.now() / 1000);
     const endTime = startTime + 3600;
 
+    // Alice creates the poll with a live view so she can decrypt the running tally below
     const createTx = await votingContract
       .connect(signers.alice)
-      .createPoll(title, options, startTime, endTime);
+      .createPoll(title, options, startTime, endTime, { ...defaultSettings, creatorLiveView: true });
     await createTx.wait();
     progress(`Poll created successfully`);
 
@@ -80,7 +110,7 @@ describe("MultiChoiceVoting Sepolia", function () {
     progress("Submitting encrypted vote...");
     const voteTx = await votingContract
       .connect(signers.alice)
-      .vote(pollId, encryptedVote.handles[0], encryptedVote.inputProof);
+      .vote(pollId, encryptedVote.handles[0], encryptedVote.inputProof, "0x");
     await voteTx.wait();
     progress(`Vote submitted successfully`);
 
@@ -115,7 +145,7 @@ describe("MultiChoiceVoting Sepolia", function () {
 
     const createTx = await votingContract
       .connect(signers.alice)
-      .createPoll(title, options, startTime, endTime);
+      .createPoll(title, options, startTime, endTime, defaultSettings);
     await createTx.wait();
 
     const pollCount = await votingContract.getPollCount();
@@ -130,7 +160,7 @@ describe("MultiChoiceVoting Sepolia", function () {
 
     const voteTx = await votingContract
       .connect(signers.alice)
-      .vote(pollId, encryptedVote.handles[0], encryptedVote.inputProof);
+      .vote(pollId, encryptedVote.handles[0], encryptedVote.inputProof, "0x");
     await voteTx.wait();
     progress("Vote cast successfully");
 
@@ -146,7 +176,7 @@ describe("MultiChoiceVoting Sepolia", function () {
       .encrypt();
 
     await expect(
-      votingContract.connect(signers.alice).vote(pollId, encryptedVote2.handles[0], encryptedVote2.inputProof),
+      votingContract.connect(signers.alice).vote(pollId, encryptedVote2.handles[0], encryptedVote2.inputProof, "0x"),
     ).to.be.revertedWith("Already voted");
     progress("Double voting prevented successfully");
 